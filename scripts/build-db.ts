@@ -12,6 +12,21 @@ import Database from 'better-sqlite3';
 import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
+import { articleSortKey } from '../src/utils/article-order.js';
+import { stemText } from '../src/utils/stemmer.js';
+import {
+  createCrossReferenceIndex,
+  extractCrossReferences,
+  type CrossReferenceDocument,
+  type UnresolvedReason,
+} from './lib/cross-references.js';
+import {
+  collectVersions,
+  validateVersionWindows,
+  type AmendmentSeed,
+  type DocumentVersionSeed,
+  type ProvisionVersionSeed,
+} from './lib/versions.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -26,9 +41,28 @@ const DB_PATH = path.resolve(__dirname, '../data/database.db');
 interface ProvisionSeed {
   provision_ref: string;
   chapter?: string;
+  /** Innermost heading governing the article (StructureNodeSeed id) */
+  structure_id?: number;
   section: string;
   title?: string;
   content: string;
+  amendments?: AmendmentSeed[];
+  /** Article-specific entry into force, when it differs from the act */
+  in_force_date?: string;
+  repealed_date?: string;
+  /** Entry into force not yet determined (e.g. awaiting a royal decree) */
+  in_force_pending?: boolean;
+  versions?: ProvisionVersionSeed[];
+}
+
+/** Heading of the document outline (Livre, Titre, Chapitre, Section, ...). */
+interface StructureNodeSeed {
+  /** 1-based position of the heading in the document */
+  id: number;
+  parent_id: number | null;
+  level: 'partie' | 'livre' | 'titre' | 'chapitre' | 'section' | 'sous_section';
+  number: string;
+  heading?: string | null;
 }
 
 interface DocumentSeed {
@@ -39,12 +73,18 @@ interface DocumentSeed {
   short_name?: string;
   status: 'in_force' | 'amended' | 'repealed' | 'not_yet_in_force';
   issued_date?: string;
+  /** Date of publication in the Moniteur belge / Belgisch Staatsblad */
+  publication_date?: string;
   in_force_date?: string;
+  repealed_date?: string;
+  repealed_by?: string;
   url?: string;
   description?: string;
   language?: string;
   numac?: string;
+  structure?: StructureNodeSeed[];
   provisions?: ProvisionSeed[];
+  versions?: DocumentVersionSeed[];
   definitions?: DefinitionSeed[];
 }
 
@@ -108,7 +148,10 @@ CREATE TABLE legal_documents (
   status TEXT NOT NULL DEFAULT 'in_force'
     CHECK(status IN ('in_force', 'amended', 'repealed', 'not_yet_in_force')),
   issued_date TEXT,
+  publication_date TEXT,  -- Moniteur belge / Belgisch Staatsblad
   in_force_date TEXT,
+  repealed_date TEXT,
+  repealed_by TEXT,
   url TEXT,
   description TEXT,
   language TEXT DEFAULT 'fr',
@@ -131,19 +174,40 @@ CREATE TABLE legal_provisions (
   content TEXT NOT NULL,
   language TEXT DEFAULT 'fr',
   metadata TEXT,
+  in_force_date TEXT,
+  repealed_date TEXT,
+  in_force_pending INTEGER NOT NULL DEFAULT 0,
+  structure_node_id INTEGER,
+  -- Natural article order ("4bis" after "4", "10" after "9"), see src/utils/article-order.ts
+  sort_key TEXT,
   UNIQUE(document_id, provision_ref)
 );
 
 CREATE INDEX idx_provisions_doc ON legal_provisions(document_id);
 CREATE INDEX idx_provisions_chapter ON legal_provisions(document_id, chapter);
 CREATE INDEX idx_provisions_language ON legal_provisions(language);
+CREATE INDEX idx_provisions_sort ON legal_provisions(document_id, sort_key);
+
+-- Heading tree of each document; node_id is the heading's position in the
+-- document and legal_provisions.structure_node_id points at the innermost one
+CREATE TABLE document_structure (
+  id INTEGER PRIMARY KEY,
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  node_id INTEGER NOT NULL,
+  parent_node_id INTEGER,
+  level TEXT NOT NULL
+    CHECK(level IN ('partie', 'livre', 'titre', 'chapitre', 'section', 'sous_section')),
+  number TEXT NOT NULL,
+  heading TEXT,
+  UNIQUE(document_id, node_id)
+);
 
 -- FTS5 for provision search
 CREATE VIRTUAL TABLE provisions_fts USING fts5(
   content, title,
   content='legal_provisions',
   content_rowid='id',
-  tokenize='unicode61'
+  tokenize='unicode61 remove_diacritics 2'
 );
 
 CREATE TRIGGER provisions_ai AFTER INSERT ON legal_provisions BEGIN
@@ -163,6 +227,14 @@ CREATE TRIGGER provisions_au AFTER UPDATE ON legal_provisions BEGIN
   VALUES (new.id, new.content, new.title);
 END;
 
+-- Stemmed shadow index: rows hold the provision text stemmed with the
+-- French or Dutch stemmer (src/utils/stemmer.ts), written by the builder
+CREATE VIRTUAL TABLE provisions_stem_fts USING fts5(
+  content, title,
+  content='',
+  tokenize='unicode61 remove_diacritics 2'
+);
+
 -- Historical provision versions for date-aware lookups
 CREATE TABLE legal_provision_versions (
   id INTEGER PRIMARY KEY,
@@ -175,7 +247,8 @@ CREATE TABLE legal_provision_versions (
   language TEXT DEFAULT 'fr',
   metadata TEXT,
   valid_from TEXT,
-  valid_to TEXT
+  valid_to TEXT,
+  sort_key TEXT
 );
 
 CREATE INDEX idx_provision_versions_doc_ref
@@ -187,7 +260,7 @@ CREATE VIRTUAL TABLE provision_versions_fts USING fts5(
   content, title,
   content='legal_provision_versions',
   content_rowid='id',
-  tokenize='unicode61'
+  tokenize='unicode61 remove_diacritics 2'
 );
 
 CREATE TRIGGER provision_versions_ai AFTER INSERT ON legal_provision_versions BEGIN
@@ -207,6 +280,12 @@ CREATE TRIGGER provision_versions_au AFTER UPDATE ON legal_provision_versions BE
   VALUES (new.id, new.content, new.title);
 END;
 
+CREATE VIRTUAL TABLE provision_versions_stem_fts USING fts5(
+  content, title,
+  content='',
+  tokenize='unicode61 remove_diacritics 2'
+);
+
 -- Case law metadata
 CREATE TABLE case_law (
   id INTEGER PRIMARY KEY,
@@ -222,7 +301,7 @@ CREATE VIRTUAL TABLE case_law_fts USING fts5(
   summary, keywords,
   content='case_law',
   content_rowid='id',
-  tokenize='unicode61'
+  tokenize='unicode61 remove_diacritics 2'
 );
 
 CREATE TRIGGER case_law_ai AFTER INSERT ON case_law BEGIN
@@ -271,7 +350,7 @@ CREATE VIRTUAL TABLE definitions_fts USING fts5(
   term, definition,
   content='definitions',
   content_rowid='id',
-  tokenize='unicode61'
+  tokenize='unicode61 remove_diacritics 2'
 );
 
 CREATE TRIGGER definitions_ai AFTER INSERT ON definitions BEGIN
@@ -397,6 +476,11 @@ function normalizeWhitespace(text: string): string {
   return text.replace(/\s+/g, ' ').trim();
 }
 
+/** Serialize per-provision metadata (currently the Justel amendment list). */
+function provisionMetadata(amendments: AmendmentSeed[] | undefined): string | null {
+  return amendments && amendments.length > 0 ? JSON.stringify({ amendments }) : null;
+}
+
 function dedupeProvisions(provisions: ProvisionSeed[]): ProvisionSeed[] {
   const byRef = new Map<string, ProvisionSeed>();
 
@@ -424,6 +508,66 @@ function dedupeProvisions(provisions: ProvisionSeed[]): ProvisionSeed[] {
   return Array.from(byRef.values());
 }
 
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Check that document and article dates are ISO dates and that a document
+ * repeal does not precede its entry into force.
+ */
+function validateDocumentDates(seed: DocumentSeed): string[] {
+  const issues: string[] = [];
+
+  for (const [field, date] of [
+    ['issued_date', seed.issued_date],
+    ['in_force_date', seed.in_force_date],
+    ['repealed_date', seed.repealed_date],
+  ] as const) {
+    if (date && !ISO_DATE.test(date)) {
+      issues.push(`${field}: invalid date "${date}" (expected YYYY-MM-DD)`);
+    }
+  }
+  if (seed.in_force_date && seed.repealed_date && seed.repealed_date < seed.in_force_date) {
+    issues.push(`repealed_date ${seed.repealed_date} precedes in_force_date ${seed.in_force_date}`);
+  }
+
+  for (const prov of seed.provisions ?? []) {
+    for (const date of [prov.in_force_date, prov.repealed_date]) {
+      if (date && !ISO_DATE.test(date)) {
+        issues.push(`${prov.provision_ref}: invalid date "${date}" (expected YYYY-MM-DD)`);
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Check that outline parents precede their children and that every article
+ * points at an existing heading.
+ */
+function validateStructure(seed: DocumentSeed): string[] {
+  const issues: string[] = [];
+  const ids = new Set<number>();
+
+  for (const node of seed.structure ?? []) {
+    if (ids.has(node.id)) {
+      issues.push(`structure node ${node.id}: duplicate id`);
+    }
+    if (node.parent_id !== null && !ids.has(node.parent_id)) {
+      issues.push(`structure node ${node.id}: unknown parent ${node.parent_id}`);
+    }
+    ids.add(node.id);
+  }
+
+  for (const prov of seed.provisions ?? []) {
+    if (prov.structure_id !== undefined && !ids.has(prov.structure_id)) {
+      issues.push(`${prov.provision_ref}: unknown structure node ${prov.structure_id}`);
+    }
+  }
+
+  return issues;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Build
 // ─────────────────────────────────────────────────────────────────────────────
@@ -448,20 +592,43 @@ function buildDatabase(): void {
 
   // Prepared statements
   const insertDoc = db.prepare(`
-    INSERT INTO legal_documents (id, type, title, title_en, short_name, status, issued_date, in_force_date, url, description, language, numac)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO legal_documents (id, type, title, title_en, short_name, status, issued_date, publication_date, in_force_date, repealed_date, repealed_by, url, description, language, numac)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
 
   const insertProvision = db.prepare(`
-    INSERT INTO legal_provisions (document_id, provision_ref, chapter, section, title, content, language, metadata)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO legal_provisions (document_id, provision_ref, chapter, section, title, content, language, metadata, in_force_date, repealed_date, in_force_pending, structure_node_id, sort_key)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const insertStructureNode = db.prepare(`
+    INSERT INTO document_structure (document_id, node_id, parent_node_id, level, number, heading)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+
+  const insertVersion = db.prepare(`
+    INSERT INTO legal_provision_versions (document_id, provision_ref, chapter, section, title, content, language, metadata, valid_from, valid_to, sort_key)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
 
+  const insertProvisionStem = db.prepare(
+    'INSERT INTO provisions_stem_fts (rowid, content, title) VALUES (?, ?, ?)'
+  );
+
+  const insertVersionStem = db.prepare(
+    'INSERT INTO provision_versions_stem_fts (rowid, content, title) VALUES (?, ?, ?)'
+  );
+
   const insertDefinition = db.prepare(`
     INSERT INTO definitions (document_id, term, term_en, definition, source_provision)
     VALUES (?, ?, ?, ?, ?)
   `);
 
+  const insertCrossReference = db.prepare(`
+    INSERT INTO cross_references (source_document_id, source_provision_ref, target_document_id, target_provision_ref, ref_type)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+
   // Load seed files
   if (!fs.existsSync(SEED_DIR)) {
     console.log(`No seed directory at ${SEED_DIR} -- creating empty database.`);
@@ -483,7 +650,13 @@ function buildDatabase(): void {
 
   let totalDocs = 0;
   let totalProvisions = 0;
+  let totalVersions = 0;
   let totalDefs = 0;
+  let totalCrossRefs = 0;
+  const unresolvedCrossRefs: Record<UnresolvedReason, number> = { unknown_act: 0, ambiguous: 0, unknown_article: 0 };
+
+  // Cross-references are resolved once every document is loaded
+  const crossRefSources: Array<{ document: CrossReferenceDocument; provisions: ProvisionSeed[] }> = [];
 
   const loadAll = db.transaction(() => {
     for (const file of seedFiles) {
@@ -491,6 +664,11 @@ function buildDatabase(): void {
       const content = fs.readFileSync(filePath, 'utf-8');
       const seed = JSON.parse(content) as DocumentSeed;
 
+      const dateIssues = validateDocumentDates(seed);
+      if (dateIssues.length > 0) {
+        throw new Error(`Invalid document dates in ${file}:\n  ${dateIssues.join('\n  ')}`);
+      }
+
       insertDoc.run(
         seed.id,
         seed.type,
@@ -499,7 +677,10 @@ function buildDatabase(): void {
         seed.short_name || null,
         seed.status,
         seed.issued_date || null,
+        seed.publication_date || null,
         seed.in_force_date || null,
+        seed.repealed_date || null,
+        seed.repealed_by || null,
         seed.url || null,
         seed.description || null,
         seed.language || 'fr',
@@ -507,11 +688,20 @@ function buildDatabase(): void {
       );
       totalDocs++;
 
+      const structureIssues = validateStructure(seed);
+      if (structureIssues.length > 0) {
+        throw new Error(`Invalid document structure in ${file}:\n  ${structureIssues.join('\n  ')}`);
+      }
+
+      for (const node of seed.structure ?? []) {
+        insertStructureNode.run(seed.id, node.id, node.parent_id, node.level, node.number, node.heading || null);
+      }
+
       const provisions = dedupeProvisions(seed.provisions || []);
       const lang = seed.language || 'fr';
 
       for (const prov of provisions) {
-        insertProvision.run(
+        const provisionInfo = insertProvision.run(
           seed.id,
           prov.provision_ref,
           prov.chapter || null,
@@ -519,11 +709,59 @@ function buildDatabase(): void {
           prov.title || null,
           prov.content,
           lang,
-          null
+          provisionMetadata(prov.amendments),
+          prov.in_force_date || null,
+          prov.repealed_date || null,
+          prov.in_force_pending ? 1 : 0,
+          prov.structure_id ?? null,
+          articleSortKey(prov.section || prov.provision_ref)
+        );
+        insertProvisionStem.run(
+          provisionInfo.lastInsertRowid,
+          stemText(prov.content, lang),
+          stemText(prov.title, lang)
         );
         totalProvisions++;
       }
 
+      const currentByRef = new Map(provisions.map(p => [p.provision_ref, p]));
+      const versionsByRef = collectVersions(provisions, seed.versions);
+      const versionIssues: string[] = [];
+
+      for (const [ref, versions] of versionsByRef) {
+        versionIssues.push(...validateVersionWindows(ref, versions, currentByRef.get(ref)));
+      }
+
+      if (versionIssues.length > 0) {
+        throw new Error(
+          `Invalid provision versions in ${file}:\n  ${versionIssues.join('\n  ')}`
+        );
+      }
+
+      for (const versions of versionsByRef.values()) {
+        for (const version of versions) {
+          const versionInfo = insertVersion.run(
+            seed.id,
+            version.provision_ref,
+            version.chapter || null,
+            version.section,
+            version.title || null,
+            version.content,
+            lang,
+            provisionMetadata(version.amendments),
+            version.valid_from || null,
+            version.valid_to || null,
+            articleSortKey(version.section || version.provision_ref)
+          );
+          insertVersionStem.run(
+            versionInfo.lastInsertRowid,
+            stemText(version.content, lang),
+            stemText(version.title, lang)
+          );
+          totalVersions++;
+        }
+      }
+
       for (const def of seed.definitions || []) {
         insertDefinition.run(
           seed.id,
@@ -535,9 +773,44 @@ function buildDatabase(): void {
         totalDefs++;
       }
 
+      crossRefSources.push({
+        document: {
+          id: seed.id,
+          title: seed.title,
+          issued_date: seed.issued_date,
+          language: lang,
+          numac: seed.numac,
+          provisions: provisions.map(p => ({ provision_ref: p.provision_ref, section: p.section })),
+        },
+        provisions,
+      });
+
       console.log(`  ${file}: ${provisions.length} provisions`);
     }
 
+    console.log('\n  Extracting cross-references...');
+    const crossRefIndex = createCrossReferenceIndex(crossRefSources.map(source => source.document));
+    for (const source of crossRefSources) {
+      for (const prov of source.provisions) {
+        const { references, unresolved } = extractCrossReferences(crossRefIndex, source.document, prov);
+        for (const ref of references) {
+          insertCrossReference.run(
+            ref.source_document_id,
+            ref.source_provision_ref,
+            ref.target_document_id,
+            ref.target_provision_ref,
+            ref.ref_type
+          );
+          totalCrossRefs++;
+        }
+        for (const ref of unresolved) {
+          unresolvedCrossRefs[ref.reason]++;
+        }
+      }
+    }
+    const totalUnresolved = Object.values(unresolvedCrossRefs).reduce((sum, count) => sum + count, 0);
+    console.log(`  ${totalCrossRefs} cross-references, ${totalUnresolved} unresolved`);
+
     // Load EU references if they exist
     const euRefsPath = path.join(SEED_DIR, 'eu-references.json');
     if (fs.existsSync(euRefsPath)) {
@@ -609,7 +882,13 @@ function buildDatabase(): void {
   console.log(`\n=== Build Summary ===`);
   console.log(`Documents: ${totalDocs}`);
   console.log(`Provisions: ${totalProvisions}`);
+  console.log(`Provision versions: ${totalVersions}`);
   console.log(`Definitions: ${totalDefs}`);
+  console.log(`Cross-references: ${totalCrossRefs}`);
+  console.log(
+    `Unresolved references: ${unresolvedCrossRefs.unknown_act} unknown act, ` +
+    `${unresolvedCrossRefs.ambiguous} ambiguous, ${unresolvedCrossRefs.unknown_article} unknown article`
+  );
   console.log(`Database: ${DB_PATH} (${(stats.size / 1024).toFixed(0)} KB)`);
 }
 
@@ -2,10 +2,11 @@
 /**
  * Belgian Law ingestion pipeline.
  *
- * Three-phase pipeline:
+ * Four-phase pipeline:
  *   Phase 1 (Discovery): Fetch year indices, extract law metadata
  *   Phase 2 (Content FR): Fetch and parse French law texts
  *   Phase 3 (Content NL): Fetch and parse Dutch law texts
+ *   Phase 4 (History): Walk archived consolidated versions into dated article versions
  *
  * Usage:
  *   npm run ingest
@@ -13,14 +14,21 @@
  *   npm run ingest -- --lang fr --limit 10
  *   npm run ingest -- --phase discovery
  *   npm run ingest -- --phase content --lang both
+ *   npm run ingest -- --phase history --lang fr
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
-import { fetchYearIndex, fetchLawContent, buildJustelUrl } from './lib/fetcher.js';
-import { parseYearIndex, parseLawContent } from './lib/parser.js';
-import type { LawIndexEntry } from './lib/parser.js';
+import { fetchYearIndex, fetchLawContent, fetchArchivedVersion, buildJustelUrl } from './lib/fetcher.js';
+import { parseYearIndex, parseLawContent, parseArchivedVersionLinks, documentStatus } from './lib/parser.js';
+import type { LawIndexEntry, LawStatus, ParsedLaw } from './lib/parser.js';
+import type { Amendment } from './lib/amendments.js';
+import type { StructureNode } from './lib/structure.js';
+import { extractDefinitions } from './lib/definitions.js';
+import type { DefinitionExtraction, ExtractedDefinition } from './lib/definitions.js';
+import { buildProvisionHistory, currentTextStart, nextDay } from './lib/history.js';
+import type { LawSnapshot } from './lib/history.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -38,7 +46,7 @@ interface CliOptions {
   yearEnd: number;
   limit: number;
   lang: 'fr' | 'nl' | 'both';
-  phase: 'all' | 'discovery' | 'content';
+  phase: 'all' | 'discovery' | 'content' | 'history';
 }
 
 function parseArgs(): CliOptions {
@@ -66,7 +74,7 @@ function parseArgs(): CliOptions {
         options.lang = args[++i] as 'fr' | 'nl' | 'both';
         break;
       case '--phase':
-        options.phase = args[++i] as 'all' | 'discovery' | 'content';
+        options.phase = args[++i] as 'all' | 'discovery' | 'content' | 'history';
         break;
     }
   }
@@ -78,24 +86,87 @@ function parseArgs(): CliOptions {
 // Seed JSON types
 // ─────────────────────────────────────────────────────────────────────────────
 
+interface SeedProvisionVersion {
+  valid_from?: string;
+  valid_to?: string;
+  chapter?: string;
+  section?: string;
+  title?: string;
+  content: string;
+  amendments?: Amendment[];
+}
+
 interface SeedProvision {
   provision_ref: string;
   section: string;
   title: string;
   content: string;
   chapter?: string;
+  structure_id?: number;
+  amendments?: Amendment[];
+  in_force_date?: string;
+  repealed_date?: string;
+  in_force_pending?: boolean;
+  versions?: SeedProvisionVersion[];
+}
+
+interface SeedDocumentVersion extends SeedProvisionVersion {
+  provision_ref: string;
+  section: string;
 }
 
 interface SeedDocument {
   id: string;
   type: 'statute';
   title: string;
-  status: 'in_force';
+  status: LawStatus;
   issued_date: string;
+  publication_date?: string;
+  in_force_date?: string;
+  repealed_date?: string;
+  repealed_by?: string;
   url: string;
   language: string;
   numac: string;
+  structure?: StructureNode[];
+  definitions?: ExtractedDefinition[];
   provisions: SeedProvision[];
+  versions?: SeedDocumentVersion[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Document dates
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Header dates of a parsed law in seed form, omitting unknown values. */
+function documentDates(parsed: ParsedLaw): Pick<SeedDocument, 'in_force_date' | 'repealed_date' | 'repealed_by'> {
+  return {
+    ...(parsed.inForceDate ? { in_force_date: parsed.inForceDate } : {}),
+    ...(parsed.repealedDate ? { repealed_date: parsed.repealedDate } : {}),
+    ...(parsed.repealedBy ? { repealed_by: parsed.repealedBy } : {}),
+  };
+}
+
+/** Moniteur belge publication date from the year index (DD-MM-YYYY), as YYYY-MM-DD. */
+function publicationDate(entry: LawIndexEntry): Pick<SeedDocument, 'publication_date'> {
+  const match = /^(\d{2})-(\d{2})-(\d{4})$/.exec(entry.publicationDate ?? '');
+  return match ? { publication_date: `${match[3]}-${match[2]}-${match[1]}` } : {};
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Definitions
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Terms defined in the act's "on entend par" / "wordt verstaan onder" articles. */
+function documentDefinitions(seedId: string, parsed: ParsedLaw): DefinitionExtraction {
+  const extraction = extractDefinitions(parsed.provisions);
+  if (extraction.ambiguities.length > 0) {
+    console.log(`  Ambiguous definitions in ${seedId}:`);
+    for (const ambiguity of extraction.ambiguities) {
+      console.log(`    ${ambiguity.provision_ref} (${ambiguity.reason}): ${ambiguity.text}`);
+    }
+  }
+  return extraction;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -144,6 +215,8 @@ async function runFrenchContent(entries: LawIndexEntry[], options: CliOptions):
 
   let processed = 0;
   let failed = 0;
+  let definitionCount = 0;
+  let ambiguous = 0;
 
   for (const entry of entries) {
     try {
@@ -157,21 +230,34 @@ async function runFrenchContent(entries: LawIndexEntry[], options: CliOptions):
 
       // Build seed document
       const seedId = `loi-${entry.date}-${entry.numac}-fr`;
+      const extraction = documentDefinitions(seedId, parsed);
+      definitionCount += extraction.definitions.length;
+      if (extraction.ambiguities.length > 0) ambiguous++;
+
       const seed: SeedDocument = {
         id: seedId,
         type: 'statute',
         title: parsed.title || entry.title,
-        status: 'in_force',
+        status: documentStatus(parsed),
         issued_date: entry.date,
+        ...publicationDate(entry),
+        ...documentDates(parsed),
         url: buildJustelUrl(entry.year, entry.month, entry.day, entry.numac, 'fr'),
         language: 'fr',
         numac: entry.numac,
+        ...(parsed.structure.length > 0 ? { structure: parsed.structure } : {}),
+        ...(extraction.definitions.length > 0 ? { definitions: extraction.definitions } : {}),
         provisions: parsed.provisions.map(p => ({
           provision_ref: p.provision_ref,
           section: p.section,
           title: p.title,
           content: p.content,
           ...(p.chapter ? { chapter: p.chapter } : {}),
+          ...(p.structure_id ? { structure_id: p.structure_id } : {}),
+          ...(p.amendments ? { amendments: p.amendments } : {}),
+          ...(p.in_force_date ? { in_force_date: p.in_force_date } : {}),
+          ...(p.repealed_date ? { repealed_date: p.repealed_date } : {}),
+          ...(p.in_force_pending ? { in_force_pending: true } : {}),
         })),
       };
 
@@ -186,6 +272,7 @@ async function runFrenchContent(entries: LawIndexEntry[], options: CliOptions):
   }
 
   console.log(`\nFrench: ${processed} processed, ${failed} failed`);
+  console.log(`Definitions: ${definitionCount} extracted, ${ambiguous} documents with ambiguous definitions`);
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -201,6 +288,8 @@ async function runDutchContent(entries: LawIndexEntry[], _options: CliOptions):
   let processed = 0;
   let failed = 0;
   let skipped = 0;
+  let definitionCount = 0;
+  let ambiguous = 0;
 
   for (const entry of entries) {
     try {
@@ -214,21 +303,34 @@ async function runDutchContent(entries: LawIndexEntry[], _options: CliOptions):
 
       // Check if Dutch title differs from French (confirms it's actually a Dutch version)
       const seedId = `wet-${entry.date}-${entry.numac}-nl`;
+      const extraction = documentDefinitions(seedId, parsed);
+      definitionCount += extraction.definitions.length;
+      if (extraction.ambiguities.length > 0) ambiguous++;
+
       const seed: SeedDocument = {
         id: seedId,
         type: 'statute',
         title: parsed.title || entry.title,
-        status: 'in_force',
+        status: documentStatus(parsed),
         issued_date: entry.date,
+        ...publicationDate(entry),
+        ...documentDates(parsed),
         url: buildJustelUrl(entry.year, entry.month, entry.day, entry.numac, 'nl'),
         language: 'nl',
         numac: entry.numac,
+        ...(parsed.structure.length > 0 ? { structure: parsed.structure } : {}),
+        ...(extraction.definitions.length > 0 ? { definitions: extraction.definitions } : {}),
         provisions: parsed.provisions.map(p => ({
           provision_ref: p.provision_ref,
           section: p.section,
           title: p.title,
           content: p.content,
           ...(p.chapter ? { chapter: p.chapter } : {}),
+          ...(p.structure_id ? { structure_id: p.structure_id } : {}),
+          ...(p.amendments ? { amendments: p.amendments } : {}),
+          ...(p.in_force_date ? { in_force_date: p.in_force_date } : {}),
+          ...(p.repealed_date ? { repealed_date: p.repealed_date } : {}),
+          ...(p.in_force_pending ? { in_force_pending: true } : {}),
         })),
       };
 
@@ -248,6 +350,139 @@ async function runDutchContent(entries: LawIndexEntry[], _options: CliOptions):
   }
 
   console.log(`\nDutch: ${processed} processed, ${failed} failed, ${skipped} skipped (no Dutch version)`);
+  console.log(`Definitions: ${definitionCount} extracted, ${ambiguous} documents with ambiguous definitions`);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Phase 4: History
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Rebuild the point-in-time history of every ingested seed from Justel's
+ * archived consolidated versions. Each archive becomes a dated snapshot;
+ * the seed's current text is the final, open-ended snapshot.
+ */
+async function runHistory(entries: LawIndexEntry[], options: CliOptions): Promise<void> {
+  console.log('\n=== Phase 4: History ===\n');
+
+  const langs: Array<'fr' | 'nl'> = options.lang === 'both' ? ['fr', 'nl'] : [options.lang];
+
+  let withHistory = 0;
+  let withoutArchives = 0;
+  let failed = 0;
+  let failedArchives = 0;
+
+  for (const entry of entries) {
+    for (const lang of langs) {
+      const seedId = lang === 'fr'
+        ? `loi-${entry.date}-${entry.numac}-fr`
+        : `wet-${entry.date}-${entry.numac}-nl`;
+      const seedPath = path.join(SEED_DIR, `${seedId}.json`);
+      if (!fs.existsSync(seedPath)) continue;
+
+      try {
+        const seed = JSON.parse(fs.readFileSync(seedPath, 'utf-8')) as SeedDocument;
+        const pageUrl = buildJustelUrl(entry.year, entry.month, entry.day, entry.numac, lang);
+        const html = await fetchLawContent(entry.year, entry.month, entry.day, entry.numac, lang);
+        const links = parseArchivedVersionLinks(html).filter(link => link.validFrom);
+
+        if (links.length === 0) {
+          withoutArchives++;
+          continue;
+        }
+
+        const snapshots: LawSnapshot[] = [];
+        for (const link of links) {
+          try {
+            const archivedHtml = await fetchArchivedVersion(link.href, pageUrl);
+            const archived = parseLawContent(archivedHtml, entry.numac);
+            if (archived.provisions.length === 0) continue;
+            snapshots.push({
+              validFrom: link.validFrom,
+              validTo: link.validUntil ? nextDay(link.validUntil) : null,
+              provisions: archived.provisions,
+            });
+          } catch (error) {
+            failedArchives++;
+            console.warn(`  Archive ${link.number} of ${seedId} FAILED: ${(error as Error).message}`);
+          }
+        }
+
+        if (snapshots.length === 0) {
+          withoutArchives++;
+          continue;
+        }
+
+        snapshots.push({
+          validFrom: currentTextStart(snapshots),
+          validTo: null,
+          provisions: seed.provisions,
+        });
+
+        const earliest = snapshots
+          .map(snapshot => snapshot.validFrom)
+          .filter((date): date is string => !!date)
+          .sort()[0];
+
+        const history = buildProvisionHistory(snapshots);
+        const currentRefs = new Set(seed.provisions.map(p => p.provision_ref));
+
+        for (const provision of seed.provisions) {
+          const versions = history.get(provision.provision_ref) ?? [];
+          // A single window covering the whole archive adds nothing over the current text.
+          const unchanged = versions.length === 1
+            && !versions[0].valid_to
+            && versions[0].valid_from === earliest;
+
+          if (versions.length === 0 || unchanged) {
+            delete provision.versions;
+            continue;
+          }
+
+          provision.versions = versions.map(v => ({
+            ...(v.valid_from ? { valid_from: v.valid_from } : {}),
+            ...(v.valid_to ? { valid_to: v.valid_to } : {}),
+            ...(v.chapter ? { chapter: v.chapter } : {}),
+            content: v.content,
+            ...(v.amendments ? { amendments: v.amendments } : {}),
+          }));
+        }
+
+        const removed: SeedDocumentVersion[] = [];
+        for (const [ref, versions] of history) {
+          if (currentRefs.has(ref)) continue;
+          removed.push(...versions.map(v => ({
+            provision_ref: ref,
+            section: v.section,
+            ...(v.title ? { title: v.title } : {}),
+            ...(v.chapter ? { chapter: v.chapter } : {}),
+            ...(v.valid_from ? { valid_from: v.valid_from } : {}),
+            ...(v.valid_to ? { valid_to: v.valid_to } : {}),
+            content: v.content,
+            ...(v.amendments ? { amendments: v.amendments } : {}),
+          })));
+        }
+
+        if (removed.length > 0) {
+          seed.versions = removed;
+        } else {
+          delete seed.versions;
+        }
+
+        fs.writeFileSync(seedPath, JSON.stringify(seed, null, 2));
+        withHistory++;
+        console.log(`  ${seedId}: ${snapshots.length - 1} archived versions, ${history.size} articles tracked`);
+      } catch (error) {
+        failed++;
+        console.error(`  FAILED ${seedId}: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  console.log(
+    `\nHistory: ${withHistory} with archived versions, ${withoutArchives} without, ` +
+    `${failed} failed (${failedArchives} archive fetches failed)`
+  );
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -295,6 +530,11 @@ async function main(): Promise<void> {
     }
   }
 
+  // Phase 4: History
+  if (options.phase === 'all' || options.phase === 'history') {
+    await runHistory(entries, options);
+  }
+
   console.log('\nDone.');
 }
 
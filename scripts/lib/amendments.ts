@@ -0,0 +1,208 @@
+/**
+ * Justel amendment marker parser.
+ *
+ * Consolidated Justel texts flag modified passages with numbered markers and
+ * list the amending acts as footnotes below the article:
+ *
+ *   Art. 5. [1 Le Roi détermine les modalités.]1
+ *   ----------
+ *   (1)<L 2018-07-30/46, art. 280, 095; En vigueur : 05-09-2018>
+ *
+ * Older texts put the footnote inline, without a numbered marker, after the
+ * passage it concerns or right after the heading when it concerns the whole
+ * article:
+ *
+ *   Art. 3. (Le Roi détermine ...) <W 1998-12-11/32, art. 5, 002; Inwerkingtreding : 01-01-1999>
+ *   Art. 7. (Abrogé) <L 2010-12-29/01, art. 10, 015; En vigueur : 10-01-2011>
+ *   Art. 4bis. <Inséré par L 1999-05-07/53, art. 4, En vigueur : 01-07-1999> Le tribunal ...
+ *
+ * Footnotes led by a verb ("Inséré par", "Remplacé par", "Abrogé par",
+ * "Ingevoegd bij", "Vervangen bij", "Opgeheven bij") state the amendment type
+ * themselves; otherwise it is inferred from the marked passage.
+ */
+
+import { parseJustelDate } from './dates.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type AmendmentType = 'inserted' | 'replaced' | 'amended' | 'repealed';
+
+export interface Amendment {
+  /** Marker number ([1 ... ]1), null for unnumbered inline footnotes */
+  marker: number | null;
+  /** Justel reference of the amending act (e.g., 'L 2018-07-30/46') */
+  amending_act: string;
+  /** Article of the amending act (e.g., 'art. 280') */
+  amending_article: string | null;
+  /** Date of the amending act as YYYY-MM-DD */
+  date: string | null;
+  /** Date the amendment entered into force as YYYY-MM-DD */
+  in_force_date: string | null;
+  /** What the amendment did to the marked passage */
+  type: AmendmentType;
+}
+
+export interface AmendmentExtraction {
+  /** Article text without markers, footnotes and notes */
+  content: string;
+  amendments: Amendment[];
+  /** The amendment whose passage is the whole article, if any */
+  article_amendment?: Amendment;
+}
+
+interface Footnote {
+  marker: number | null;
+  amending_act: string;
+  amending_article: string | null;
+  date: string | null;
+  in_force_date: string | null;
+  /** Type stated by the footnote's leading verb */
+  stated_type: AmendmentType | null;
+  /** Offset of the footnote in the text it was read from */
+  index: number;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Patterns
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * "<L 2018-07-30/46, art. 280, 095; En vigueur : 05-09-2018>" with an optional
+ * "(1)" prefix and an optional leading verb ("<Inséré par L ...>")
+ */
+const FOOTNOTE_PATTERN =
+  /(?:\((\d+)\)\s*)?<\s*(?:([A-ZÀ-Ý][a-zà-ÿ]+)\s+(?:par|bij|door)\s+)?([A-Z][A-Za-z.]*)\s+(\d{4}-\d{2}-\d{2})(\/[\w-]+)?\s*(?:,\s*(art\.?\s*[^,;>]+))?[^;>]*?(?:[;,]\s*(?:En vigueur|Inwerkingtreding)\s*:\s*([^>]*))?>/g;
+
+/** Leading footnote verbs, accents removed, by the amendment type they state */
+const FOOTNOTE_VERBS: Array<[RegExp, AmendmentType]> = [
+  [/^(?:insere|ingevoegd|retabli|hersteld)/, 'inserted'],
+  [/^(?:remplace|vervangen)/, 'replaced'],
+  [/^(?:abroge|opgeheven)/, 'repealed'],
+  [/^(?:modifie|gewijzigd)/, 'amended'],
+];
+
+/** Article-level Justel notes: "(NOTE : ...)", "(NOTA : ...)" */
+const NOTE_LINE = /^[ \t]*\((?:NOTE|NOTA)\b[^\n]*(?:\n|$)/gim;
+
+/** "(passage)" right before an inline footnote */
+const INLINE_PASSAGE = /\(([^()]*)\)\s*$/;
+
+/** "[1 marked text ]1" -- the closing number must match the opening one */
+const MARKER_PATTERN = /\[(\d+)\s?([\s\S]*?)\s?\]\1(?!\d)/g;
+
+const FOOTNOTE_SEPARATOR = /\n-{5,}\s*(?:\n|$)/;
+
+const ARTICLE_HEADING = /^(?:Art(?:icle|ikel)?\.?)\s*([\w/]+(?:\.\d+)*)\.\s*/i;
+
+const REPEALED_TEXT = /^(?:\.{3}|…|abrog|opgeheven)/i;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Extraction
+// ─────────────────────────────────────────────────────────────────────────────
+
+function parseFootnotes(text: string): Footnote[] {
+  const footnotes: Footnote[] = [];
+  for (const match of text.matchAll(FOOTNOTE_PATTERN)) {
+    footnotes.push({
+      marker: match[1] ? parseInt(match[1], 10) : null,
+      amending_act: `${match[3]} ${match[4]}${match[5] ?? ''}`,
+      amending_article: match[6] ? match[6].replace(/\s+/g, ' ').trim() : null,
+      date: match[4],
+      in_force_date: match[7] ? parseJustelDate(match[7]) : null,
+      stated_type: match[2] ? verbType(match[2]) : null,
+      index: match.index ?? 0,
+    });
+  }
+  return footnotes;
+}
+
+function verbType(verb: string): AmendmentType | null {
+  const plain = verb.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+  return FOOTNOTE_VERBS.find(([pattern]) => pattern.test(plain))?.[1] ?? null;
+}
+
+/**
+ * Passage an inline footnote concerns: the whole article when it follows the
+ * heading, the parenthesized text before it, or undefined when unclear.
+ */
+function inlinePassage(body: string, index: number, articleBody: string): string | undefined {
+  const before = body.slice(0, index).trimStart();
+  if (!before.replace(ARTICLE_HEADING, '').trim()) return articleBody;
+  return before.match(INLINE_PASSAGE)?.[1];
+}
+
+function classify(markedText: string, body: string, articleNumber: string | null): AmendmentType {
+  const trimmed = markedText.trim();
+  if (trimmed.length === 0 || REPEALED_TEXT.test(trimmed)) {
+    return 'repealed';
+  }
+  if (trimmed === body.trim()) {
+    // Belgian practice: bis/ter/... and slash-numbered articles are inserted by later acts.
+    return articleNumber && /(?:[a-z]{3,}|\/\d+)$/i.test(articleNumber) ? 'inserted' : 'replaced';
+  }
+  return 'amended';
+}
+
+/**
+ * Extract amendment metadata from a cleaned article text and return the
+ * article without markers and footnotes.
+ */
+export function extractAmendments(text: string): AmendmentExtraction {
+  const separator = text.match(FOOTNOTE_SEPARATOR);
+  let body = (separator ? text.slice(0, separator.index) : text).replace(NOTE_LINE, '');
+  const notes = separator ? text.slice((separator.index ?? 0) + separator[0].length) : '';
+
+  const footnotes = parseFootnotes(notes);
+  const inline = parseFootnotes(body);
+  const withInline = body;
+  body = body.replace(FOOTNOTE_PATTERN, '');
+
+  // Unwrap markers innermost-last: each pass strips the outermost matching pair.
+  const marked = new Map<number, string>();
+  let previous: string;
+  do {
+    previous = body;
+    body = body.replace(MARKER_PATTERN, (_match, num: string, inner: string) => {
+      const marker = parseInt(num, 10);
+      if (!marked.has(marker)) {
+        marked.set(marker, inner.replace(MARKER_PATTERN, '$2'));
+      }
+      return inner;
+    });
+  } while (body !== previous);
+
+  body = body
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+
+  const heading = body.match(ARTICLE_HEADING);
+  const articleNumber = heading ? heading[1] : null;
+  const articleBody = heading ? body.slice(heading[0].length) : body;
+
+  let articleAmendment: Amendment | undefined;
+  const toAmendment = ({ stated_type: statedType, index: _index, ...note }: Footnote, passage?: string): Amendment => {
+    const amendment: Amendment = {
+      ...note,
+      type: statedType
+        ?? (passage !== undefined ? classify(passage, articleBody, articleNumber) : 'amended'),
+    };
+    if (!articleAmendment && passage !== undefined && passage.trim() === articleBody.trim()) {
+      articleAmendment = amendment;
+    }
+    return amendment;
+  };
+  const markedPassage = (note: Footnote) => (note.marker !== null ? marked.get(note.marker) : undefined);
+
+  const amendments: Amendment[] = [
+    ...footnotes.map(note => toAmendment(note, markedPassage(note))),
+    ...inline.map(note => toAmendment(note, markedPassage(note) ?? inlinePassage(withInline, note.index, articleBody))),
+  ];
+
+  amendments.sort((a, b) => (a.marker ?? Number.MAX_SAFE_INTEGER) - (b.marker ?? Number.MAX_SAFE_INTEGER));
+
+  return { content: body, amendments, ...(articleAmendment ? { article_amendment: articleAmendment } : {}) };
+}
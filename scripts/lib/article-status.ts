@@ -0,0 +1,96 @@
+/**
+ * Article-level entry into force and repeal for Justel texts.
+ *
+ * Belgian acts often bring articles into force separately, usually by royal
+ * decree. Justel records this in notes below the article:
+ *
+ *   (NOTE : Entrée en vigueur fixée au 01-09-2019 par AR 2019-07-12/03, art. 1)
+ *   (NOTA : Inwerkingtreding onbepaald)
+ *
+ * Articles inserted or repealed as a whole are recognized from their
+ * amendment markers and footnotes.
+ */
+
+import type { AmendmentExtraction } from './amendments.js';
+import { parseJustelDate } from './dates.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface ArticleStatus {
+  /** First day the article applies (YYYY-MM-DD), when it differs from the act */
+  in_force_date?: string;
+  /** First day the article no longer applies (YYYY-MM-DD) */
+  repealed_date?: string;
+  /** True when Justel states that entry into force is still undetermined */
+  in_force_pending?: boolean;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Patterns
+// ─────────────────────────────────────────────────────────────────────────────
+
+const NOTE_PATTERN = /\((?:NOTE|NOTA)\s*:?\s*([^\n]*)/gi;
+
+/** "Entrée en vigueur fixée au 01-09-2019", "inwerkingtreding : onbepaald", ... */
+const NOTE_IN_FORCE =
+  /(?:entr[eé]e en vigueur|en vigueur|inwerkingtreding|in werking)[^.;\n]*?(\d{2}-\d{2}-\d{4}|ind[eé]termin[eé]e|onbepaald)/i;
+
+const UNDETERMINED_FOOTNOTE =
+  /(?:En vigueur|Inwerkingtreding)\s*:\s*(?:ind[eé]termin[eé]e|onbepaald)/i;
+
+const ARTICLE_HEADING = /^(?:Art(?:icle|ikel)?\.?)\s*[\w/]+(?:\.\d+)*\.\s*/i;
+
+const REPEALED_BODY = /^[([]*\s*(?:\.{3}|…|abrog|opgeheven)/i;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Parser
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Derive an article's own in-force status.
+ *
+ * @param rawText     Cleaned article text including Justel notes and footnotes
+ * @param extraction  Article text and amendments from extractAmendments
+ */
+export function parseArticleStatus(rawText: string, extraction: AmendmentExtraction): ArticleStatus {
+  const { content, amendments } = extraction;
+  const status: ArticleStatus = {};
+
+  for (const note of rawText.matchAll(NOTE_PATTERN)) {
+    const inForce = note[1].match(NOTE_IN_FORCE);
+    if (!inForce) continue;
+    const date = parseJustelDate(inForce[1]);
+    if (date) {
+      status.in_force_date = date;
+      delete status.in_force_pending;
+    } else {
+      status.in_force_pending = true;
+    }
+  }
+
+  // Only an insertion of the whole article dates the article itself
+  const inserted = extraction.article_amendment?.type === 'inserted' ? extraction.article_amendment : undefined;
+  if (inserted && !status.in_force_date && !status.in_force_pending) {
+    if (inserted.in_force_date) {
+      status.in_force_date = inserted.in_force_date;
+    } else if (UNDETERMINED_FOOTNOTE.test(rawText)) {
+      status.in_force_pending = true;
+    }
+  }
+
+  const body = content.replace(ARTICLE_HEADING, '').trim();
+  if (body.length === 0 || REPEALED_BODY.test(body)) {
+    const repeals = amendments
+      .filter(a => a.type === 'repealed')
+      .map(a => a.in_force_date ?? a.date)
+      .filter((date): date is string => date !== null)
+      .sort();
+    if (repeals.length > 0) {
+      status.repealed_date = repeals[repeals.length - 1];
+    }
+  }
+
+  return status;
+}
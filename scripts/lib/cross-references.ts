@@ -0,0 +1,340 @@
+/**
+ * Cross-reference extraction from provision text.
+ *
+ * Articles refer to other articles of the same act and to other acts:
+ *
+ *   les données visées à l'article 4                    same act, art. 4
+ *   de gegevens bedoeld in artikel 12, § 2              same act, art. 12
+ *   aux articles 5 et 6 de la présente loi              same act, art. 5 and art. 6
+ *   l'article 2 de la loi du 8 décembre 1992            other act, art. 2
+ *   conformément à la loi du 8 décembre 1992            other act, whole act
+ *
+ * Justel amendment footnotes (<L 2018-07-30/46, art. 280, ...>) give the
+ * amended_by links. References are resolved against the documents being
+ * built: an act that is not in the corpus, or that several acts could be,
+ * stays unresolved and is reported rather than stored.
+ */
+
+import {
+  ARTICLE_LIST_PATTERN,
+  expandArticleList,
+  extractCitations,
+  normalizeArticle,
+  type ExtractedStatuteReference,
+} from '../../src/citation/extractor.js';
+import { findCode, titleHasInstrument, titleInstrument, titleIsCode, titleRegion } from '../../src/citation/instruments.js';
+import { parseCitation } from '../../src/citation/parser.js';
+import type { CitationInstrument, CitationRegion } from '../../src/types/index.js';
+import { parseBelgianDate } from './dates.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type CrossReferenceType = 'references' | 'amended_by';
+
+/** A document of the corpus, as a reference target. */
+export interface CrossReferenceDocument {
+  id: string;
+  title: string;
+  issued_date?: string;
+  language?: string;
+  numac?: string;
+  provisions: Array<{ provision_ref: string; section: string }>;
+}
+
+export interface CrossReference {
+  source_document_id: string;
+  source_provision_ref: string;
+  target_document_id: string;
+  /** Cited article, null for a reference to the whole act */
+  target_provision_ref: string | null;
+  ref_type: CrossReferenceType;
+}
+
+/**
+ * unknown_act: the act is not in the corpus or is not named precisely enough ("la loi précitée").
+ * ambiguous: several acts of the corpus fit the reference.
+ * unknown_article: the act was found but not the cited article; the act itself is still linked.
+ */
+export type UnresolvedReason = 'unknown_act' | 'ambiguous' | 'unknown_article';
+
+export interface UnresolvedReference {
+  source_document_id: string;
+  source_provision_ref: string;
+  /** The reference as written */
+  text: string;
+  reason: UnresolvedReason;
+  /** The article not found in the cited act (unknown_article only) */
+  article?: string;
+}
+
+export interface CrossReferenceExtraction {
+  references: CrossReference[];
+  unresolved: UnresolvedReference[];
+}
+
+export interface CrossReferenceIndex {
+  byId: Map<string, CrossReferenceDocument>;
+  byNumac: Map<string, CrossReferenceDocument[]>;
+  byDate: Map<string, CrossReferenceDocument[]>;
+  /** Normalized article number -> provision_ref, per document */
+  sections: Map<string, Map<string, string>>;
+  documents: CrossReferenceDocument[];
+}
+
+interface ProvisionSource {
+  provision_ref: string;
+  content: string;
+  amendments?: Array<{ amending_act: string; amending_article?: string | null }>;
+}
+
+type ActResolution =
+  | { document: CrossReferenceDocument }
+  | { reason: Exclude<UnresolvedReason, 'unknown_article'> };
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Patterns
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Between an article list and the act it belongs to (same connectors as the citation extractor). */
+const ARTICLE_TO_ACT = /^\s*,?\s*(?:(?:de\s+la|de\s+l['’]|du|des|van\s+de|van\s+het|der)\s*)?/iu;
+
+/** "de la présente loi", "du présent arrêté", "van deze wet", "van dit besluit" */
+const SAME_ACT = /^\s*,?\s*(?:de\s+la\s+pr[ée]sente|du\s+pr[ée]sent|van\s+(?:deze|dit|het\s+onderhavige?))\s+(?:loi|arr[êe]t[ée]|code|d[ée]cret|ordonnance|wet|besluit|wetboek|decreet|ordonnantie)\b/iu;
+
+/** Articles of an EU act, handled by the EU reference seeds. */
+const EU_ACT = /^\s*,?\s*(?:de\s+la|du|van\s+de|van\s+het)\s+(?:directive|r[èe]glement|richtlijn|verordening)\b/iu;
+
+/** Articles of another act that the text does not identify ("de la loi précitée", "van dezelfde wet"). */
+const OTHER_ACT = /^\s*,?\s*(?:de\s+la|de\s+l['’]|du|des|van\s+de|van\s+het)\s*(?:m[êe]me\s+|dezelfde\s+|voormelde\s+|voornoemde\s+)?(?:loi|arr[êe]t[ée]|code|d[ée]cret|ordonnance|constitution|trait[ée]|convention|wet|besluit|wetboek|decreet|ordonnantie|grondwet|verdrag)\b/iu;
+
+/** Justel amending act: "L 2018-07-30/46", "AR 2011-07-01/12" */
+const AMENDING_ACT = /^([A-Z]+)\s+(\d{4}-\d{2}-\d{2})\b/;
+const AMENDING_INSTRUMENTS: Record<string, Exclude<CitationInstrument, 'code'>> = {
+  L: 'statute',
+  W: 'statute',
+  AR: 'royal_decree',
+  KB: 'royal_decree',
+  AM: 'ministerial_decree',
+  MB: 'ministerial_decree',
+};
+
+const STATUTE_ID = /^(?:loi|wet)-\d{4}-\d{2}-\d{2}-\d{10}-(?:fr|nl)$/i;
+const NUMAC = /^\d{10}$/;
+const ID_DATE = /^(?:loi|wet)-(\d{4}-\d{2}-\d{2})-/;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Index
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function createCrossReferenceIndex(documents: CrossReferenceDocument[]): CrossReferenceIndex {
+  const index: CrossReferenceIndex = {
+    byId: new Map(),
+    byNumac: new Map(),
+    byDate: new Map(),
+    sections: new Map(),
+    documents,
+  };
+
+  const add = (map: Map<string, CrossReferenceDocument[]>, key: string, doc: CrossReferenceDocument) => {
+    const list = map.get(key);
+    if (list) list.push(doc);
+    else map.set(key, [doc]);
+  };
+
+  for (const doc of documents) {
+    index.byId.set(doc.id, doc);
+    if (doc.numac) add(index.byNumac, doc.numac, doc);
+    const date = doc.issued_date ?? ID_DATE.exec(doc.id)?.[1];
+    if (date) add(index.byDate, date, doc);
+    index.sections.set(
+      doc.id,
+      new Map(doc.provisions.map(p => [normalizeArticle(p.section || p.provision_ref), p.provision_ref]))
+    );
+  }
+  return index;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Extraction
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Resolved and unresolved references made by one provision. */
+export function extractCrossReferences(
+  index: CrossReferenceIndex,
+  source: CrossReferenceDocument,
+  provision: ProvisionSource
+): CrossReferenceExtraction {
+  const references: CrossReference[] = [];
+  const unresolved: UnresolvedReference[] = [];
+  const seen = new Set<string>();
+  const reported = new Set<string>();
+
+  const addUnresolved = (text: string, reason: UnresolvedReason, article?: string) => {
+    const key = `${reason}|${text}|${article ?? ''}`;
+    if (reported.has(key)) return;
+    reported.add(key);
+    unresolved.push({
+      source_document_id: source.id,
+      source_provision_ref: provision.provision_ref,
+      text,
+      reason,
+      ...(article ? { article } : {}),
+    });
+  };
+
+  const addReference = (target: CrossReferenceDocument, article: string | undefined, text: string, type: CrossReferenceType) => {
+    const ref = article ? index.sections.get(target.id)?.get(normalizeArticle(article)) : undefined;
+    if (article && !ref) {
+      addUnresolved(text, 'unknown_article', normalizeArticle(article));
+    }
+    // An act naming itself, or an article citing itself, is not a link
+    if (target.id === source.id && (!ref || ref === provision.provision_ref)) return;
+
+    const key = `${type}|${target.id}|${ref ?? ''}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    references.push({
+      source_document_id: source.id,
+      source_provision_ref: provision.provision_ref,
+      target_document_id: target.id,
+      target_provision_ref: ref ?? null,
+      ref_type: type,
+    });
+  };
+
+  const text = provision.content;
+  const statutes = extractCitations(text)
+    .filter((reference): reference is ExtractedStatuteReference => reference.kind === 'statute');
+  const statuteAt = new Map(statutes.map(statute => [statute.start, statute]));
+  const consumed = new Set<ExtractedStatuteReference>();
+
+  for (const match of text.matchAll(ARTICLE_LIST_PATTERN)) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    if (statutes.some(statute => start >= statute.start && start < statute.end)) continue;
+
+    const articles = expandArticleList(match[1]);
+    const rest = text.slice(end);
+    const connector = rest.match(ARTICLE_TO_ACT);
+    const statute = statuteAt.get(end + (connector?.[0].length ?? 0));
+
+    // "aux articles 5 et 6 de la loi du 8 décembre 1992"
+    if (statute && !statute.article) {
+      consumed.add(statute);
+      const written = text.slice(start, statute.end);
+      const resolution = resolveStatute(index, statute, source.language);
+      if ('reason' in resolution) {
+        addUnresolved(written, resolution.reason);
+      } else {
+        for (const article of articles) addReference(resolution.document, article, written, 'references');
+      }
+      continue;
+    }
+    if (EU_ACT.test(rest)) continue;
+    if (!SAME_ACT.test(rest) && OTHER_ACT.test(rest)) {
+      addUnresolved(match[0], 'unknown_act');
+      continue;
+    }
+
+    for (const article of articles) addReference(source, article, match[0], 'references');
+  }
+
+  for (const statute of statutes) {
+    if (consumed.has(statute)) continue;
+    const resolution = resolveStatute(index, statute, source.language);
+    if ('reason' in resolution) {
+      addUnresolved(statute.text, resolution.reason);
+    } else {
+      addReference(resolution.document, statute.article, statute.text, 'references');
+    }
+  }
+
+  // Amending acts outside the corpus are expected and not reported
+  for (const amendment of provision.amendments ?? []) {
+    const act = AMENDING_ACT.exec(amendment.amending_act);
+    const type = act ? AMENDING_INSTRUMENTS[act[1]] : undefined;
+    if (!act || !type) continue;
+
+    const resolution = resolveDatedAct(index, act[2], type, undefined, source.language);
+    if ('document' in resolution) {
+      const article = amendment.amending_article?.replace(/^art(?:ikel|icle)?\.?\s*/i, '') || undefined;
+      addReference(resolution.document, article, amendment.amending_act, 'amended_by');
+    }
+  }
+
+  return { references, unresolved };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Resolution
+// ─────────────────────────────────────────────────────────────────────────────
+
+function resolveStatute(
+  index: CrossReferenceIndex,
+  statute: ExtractedStatuteReference,
+  language: string | undefined
+): ActResolution {
+  const parsed = parseCitation(statute.citation);
+  const title = parsed.title?.trim() ?? '';
+
+  if (STATUTE_ID.test(title)) {
+    const document = index.byId.get(title.toLowerCase());
+    return document ? { document } : { reason: 'unknown_act' };
+  }
+
+  if (NUMAC.test(title)) {
+    const document = preferLanguage(index.byNumac.get(title) ?? [], language);
+    return document ? { document } : { reason: 'unknown_act' };
+  }
+
+  if (parsed.type === 'code') {
+    const code = findCode(title);
+    const versions = code ? index.documents.filter(doc => titleIsCode(doc.title, code.code)) : [];
+    return oneAct(versions, language);
+  }
+
+  const date = parseBelgianDate(title);
+  if (!date || parsed.type === 'unknown') return { reason: 'unknown_act' };
+  return resolveDatedAct(index, date, parsed.type, parsed.region, language);
+}
+
+/**
+ * The act of this date and instrument type. Ingest gives every Justel act a
+ * loi-/wet- id, so the id only identifies a statute whose title names no
+ * other instrument (e.g. a title without "Loi").
+ */
+function resolveDatedAct(
+  index: CrossReferenceIndex,
+  date: string,
+  type: CitationInstrument,
+  region: CitationRegion | undefined,
+  language: string | undefined
+): ActResolution {
+  const candidates = (index.byDate.get(date) ?? []).filter(doc =>
+    (titleHasInstrument(doc.title, type)
+      || (type === 'statute' && ID_DATE.test(doc.id) && !titleInstrument(doc.title)))
+    && (!region || titleRegion(doc.title) === region)
+  );
+  return oneAct(candidates, language);
+}
+
+/** Language versions of a single act (one NUMAC) resolve to the version in `language`. */
+function oneAct(candidates: CrossReferenceDocument[], language: string | undefined): ActResolution {
+  if (candidates.length === 0) return { reason: 'unknown_act' };
+
+  const acts = new Set(candidates.map(doc => doc.numac ?? doc.id));
+  if (acts.size > 1) return { reason: 'ambiguous' };
+
+  return { document: preferLanguage(candidates, language) ?? candidates[0] };
+}
+
+function preferLanguage(
+  documents: CrossReferenceDocument[],
+  language: string | undefined
+): CrossReferenceDocument | undefined {
+  return documents.find(doc => doc.language === language)
+    ?? documents.find(doc => doc.language === 'fr')
+    ?? documents[0];
+}
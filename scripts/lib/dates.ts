@@ -0,0 +1,64 @@
+/**
+ * Date helpers for Justel texts.
+ */
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Belgian month names
+// ─────────────────────────────────────────────────────────────────────────────
+
+const FRENCH_MONTHS: Record<string, string> = {
+  'JANVIER': '01', 'FEVRIER': '02', 'MARS': '03', 'AVRIL': '04',
+  'MAI': '05', 'JUIN': '06', 'JUILLET': '07', 'AOUT': '08',
+  'SEPTEMBRE': '09', 'OCTOBRE': '10', 'NOVEMBRE': '11', 'DECEMBRE': '12',
+};
+
+const DUTCH_MONTHS: Record<string, string> = {
+  'JANUARI': '01', 'FEBRUARI': '02', 'MAART': '03', 'APRIL': '04',
+  'MEI': '05', 'JUNI': '06', 'JULI': '07', 'AUGUSTUS': '08',
+  'SEPTEMBER': '09', 'OKTOBER': '10', 'NOVEMBER': '11', 'DECEMBER': '12',
+};
+
+const ALL_MONTHS: Record<string, string> = { ...FRENCH_MONTHS, ...DUTCH_MONTHS };
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Parsers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Convert a Justel DD-MM-YYYY date to YYYY-MM-DD.
+ */
+export function parseJustelDate(value: string): string | null {
+  const match = value.match(/(\d{2})-(\d{2})-(\d{4})/);
+  if (!match) return null;
+  return isoDate(match[3], match[2], match[1]);
+}
+
+/**
+ * Normalize a date as written in Justel headers to YYYY-MM-DD.
+ *
+ * Accepts DD-MM-YYYY, YYYY-MM-DD and written dates in French or Dutch
+ * ("1er mars 1994", "15 februari 2018"). Returns null for anything else,
+ * such as "indéterminée" or "onbepaald".
+ */
+export function parseBelgianDate(value: string): string | null {
+  const justel = parseJustelDate(value);
+  if (justel) return justel;
+
+  const iso = value.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+  if (iso) return isoDate(iso[1], iso[2], iso[3]);
+
+  const plain = value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toUpperCase();
+  const written = plain.match(/\b(\d{1,2})(?:ER)?\s+([A-Z]+)\s+(\d{4})\b/);
+  if (!written) return null;
+
+  const month = ALL_MONTHS[written[2]];
+  if (!month) return null;
+  return isoDate(written[3], month, written[1].padStart(2, '0'));
+}
+
+/** YYYY-MM-DD, or null when the day does not exist in that month (31-02-2019). */
+function isoDate(year: string, month: string, day: string): string | null {
+  const date = `${year}-${month}-${day}`;
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().startsWith(date) ? date : null;
+}
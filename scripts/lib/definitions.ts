@@ -0,0 +1,234 @@
+/**
+ * Definition extraction from Belgian definition articles.
+ *
+ * Acts define their terms in an article opened by a fixed phrase, usually
+ * followed by a numbered list:
+ *
+ *   Pour l'application de la présente loi, on entend par :
+ *   1° « données à caractère personnel » : toute information se rapportant à ...;
+ *   2° « traitement » : toute opération ...
+ *
+ *   Voor de toepassing van deze wet wordt verstaan onder :
+ *   1° "persoonsgegevens": alle informatie over ...;
+ *
+ * A single definition may follow the phrase directly: "on entend par
+ * « consommateur » toute personne physique ...". List items whose term cannot
+ * be told apart from its definition, and terms an act defines twice with
+ * different wording, are reported as ambiguities instead of guessed.
+ */
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface ExtractedDefinition {
+  term: string;
+  definition: string;
+  /** provision_ref of the defining article */
+  source_provision: string;
+}
+
+/**
+ * unparsed_item: a list item or definition whose term could not be isolated.
+ * conflicting_definitions: the act defines the same term twice, differently; the first is kept.
+ * no_items: a definition phrase with no definition after it.
+ */
+export type DefinitionAmbiguityReason = 'unparsed_item' | 'conflicting_definitions' | 'no_items';
+
+export interface DefinitionAmbiguity {
+  provision_ref: string;
+  reason: DefinitionAmbiguityReason;
+  /** The text that could not be used, shortened */
+  text: string;
+}
+
+export interface DefinitionExtraction {
+  definitions: ExtractedDefinition[];
+  ambiguities: DefinitionAmbiguity[];
+}
+
+interface ProvisionText {
+  provision_ref: string;
+  content: string;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Patterns
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** "on entend par", "il faut entendre par", "wordt verstaan onder", "verstaat men onder" */
+const DEFINITION_PHRASE =
+  /\b(?:on\s+entend\s+par|il\s+(?:faut|y\s+a\s+lieu\s+d['’])\s*entendre\s+par|(?:wordt|worden)\s+(?:verstaan|begrepen)\s+onder|verstaat\s+men\s+onder|moet\s+(?:worden\s+)?verstaan\s+worden\s+onder)\s*:?\s*/giu;
+
+/** "1°", "2bis°", "12°/1" at the start of a line or after the previous item's ";" */
+const NUMBERED_ITEM = /(?:^|\n|;\s*|:\s*)(\d+(?:\s?(?:bis|ter|quater|quinquies|sexies|septies|octies|novies|decies))?°(?:\/\d+)?)\s*/gu;
+/** "a)", "b)" when the list is lettered */
+const LETTERED_ITEM = /(?:^|\n|;\s*|:\s*)([a-z]\))\s*/gu;
+
+/**
+ * « terme », “term”, „term”, "term": each opening quote with its own closing
+ * one, so apostrophes inside a term ("« l'autorité de contrôle »") are kept.
+ */
+const QUOTED = String.raw`(?:«\s*([^«»]+?)\s*»|“\s*([^“”]+?)\s*”|„\s*([^„“”]+?)\s*[“”]|"\s*([^"]+?)\s*")`;
+
+/** « terme » : définition, "term", definitie, le « terme » - définition */
+const QUOTED_TERM = new RegExp(
+  String.raw`^(?:(?:le|la|les|l['’]|de|het)\s*)?${QUOTED}\s*(?:[:,–-]\s*)?([\s\S]+)$`,
+  'iu'
+);
+
+/** terme : définition (no quotes; the term is a short phrase) */
+const UNQUOTED_TERM = /^(?:(?:le|la|les|l['’]|de|het)\s+)?([^:;,.]{1,80}?)\s*:\s*([\s\S]+)$/iu;
+const MAX_TERM_WORDS = 8;
+
+/** A new paragraph ends the definition list: "§ 2.", "Art. 3." */
+const LIST_END = /\n(?:§\s*\d|art(?:icle|ikel)?\.?\s*\d)/iu;
+
+const EXCERPT_LENGTH = 120;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Extraction
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Definitions of an act from its provisions, one per term, in article order. */
+export function extractDefinitions(provisions: ProvisionText[]): DefinitionExtraction {
+  const definitions: ExtractedDefinition[] = [];
+  const ambiguities: DefinitionAmbiguity[] = [];
+  const byTerm = new Map<string, ExtractedDefinition>();
+
+  for (const provision of provisions) {
+    const found = definitionsIn(provision.content);
+
+    for (const text of found.unparsed) {
+      ambiguities.push({ provision_ref: provision.provision_ref, reason: 'unparsed_item', text: excerpt(text) });
+    }
+    for (const phrase of found.empty) {
+      ambiguities.push({ provision_ref: provision.provision_ref, reason: 'no_items', text: excerpt(phrase) });
+    }
+
+    for (const { term, definition } of found.definitions) {
+      const key = foldTerm(term);
+      const existing = byTerm.get(key);
+      if (existing) {
+        if (foldTerm(existing.definition) !== foldTerm(definition)) {
+          ambiguities.push({
+            provision_ref: provision.provision_ref,
+            reason: 'conflicting_definitions',
+            text: excerpt(`${term}: ${definition} (already defined in ${existing.source_provision})`),
+          });
+        }
+        continue;
+      }
+      const extracted = { term, definition, source_provision: provision.provision_ref };
+      byTerm.set(key, extracted);
+      definitions.push(extracted);
+    }
+  }
+
+  return { definitions, ambiguities };
+}
+
+/** Every definition introduced by a definition phrase in one article. */
+function definitionsIn(content: string): {
+  definitions: Array<{ term: string; definition: string }>;
+  unparsed: string[];
+  empty: string[];
+} {
+  const definitions: Array<{ term: string; definition: string }> = [];
+  const unparsed: string[] = [];
+  const empty: string[] = [];
+
+  const phrases = [...content.matchAll(DEFINITION_PHRASE)];
+  phrases.forEach((phrase, i) => {
+    const start = (phrase.index ?? 0) + phrase[0].length;
+    const end = i + 1 < phrases.length ? phrases[i + 1].index ?? content.length : content.length;
+    let rest = content.slice(start, end);
+    const listEnd = rest.search(LIST_END);
+    if (listEnd > 0) rest = rest.slice(0, listEnd);
+
+    const items = listItems(rest);
+    const candidates = items ?? [rest];
+    if (candidates.every(candidate => !candidate.trim())) {
+      empty.push(phrase[0]);
+      return;
+    }
+
+    for (const candidate of candidates) {
+      const parsed = splitTerm(candidate, items !== null);
+      if (parsed) definitions.push(parsed);
+      else unparsed.push(candidate);
+    }
+  });
+
+  return { definitions, unparsed, empty };
+}
+
+/**
+ * Item texts of a numbered (1°, 2°) or lettered (a), b)) list, or null when
+ * `text` does not open with one. Only the kind of marker the list opens with
+ * splits it, so the a), b) points of a numbered item stay in its definition.
+ */
+function listItems(text: string): string[] | null {
+  for (const pattern of [NUMBERED_ITEM, LETTERED_ITEM]) {
+    const markers = [...text.matchAll(pattern)];
+    if (markers.length === 0 || text.slice(0, markers[0].index ?? 0).trim()) continue;
+
+    const items = markers.map((marker, i) => {
+      const start = (marker.index ?? 0) + marker[0].length;
+      const end = i + 1 < markers.length ? markers[i + 1].index ?? text.length : text.length;
+      return text.slice(start, end);
+    });
+
+    // Text after the last item's closing sentence is no longer part of the list
+    const last = items[items.length - 1];
+    const close = last.search(/\.\s*\n/);
+    if (close >= 0) items[items.length - 1] = last.slice(0, close + 1);
+    return items;
+  }
+  return null;
+}
+
+/** Term and definition of one item; unquoted terms are only accepted in lists. */
+function splitTerm(item: string, inList: boolean): { term: string; definition: string } | null {
+  const text = item.trim();
+
+  const quoted = QUOTED_TERM.exec(text);
+  if (quoted) {
+    const term = quoted[1] ?? quoted[2] ?? quoted[3] ?? quoted[4];
+    const definition = cleanDefinition(inList ? quoted[5] : firstSentence(quoted[5]));
+    return definition ? { term: cleanTerm(term), definition } : null;
+  }
+
+  if (!inList) return null;
+  const unquoted = UNQUOTED_TERM.exec(text);
+  if (!unquoted || unquoted[1].trim().split(/\s+/).length > MAX_TERM_WORDS) return null;
+  const definition = cleanDefinition(unquoted[2]);
+  return definition ? { term: cleanTerm(unquoted[1]), definition } : null;
+}
+
+function firstSentence(text: string): string {
+  const end = text.search(/\.(?:\s|$)/);
+  return end >= 0 ? text.slice(0, end + 1) : text;
+}
+
+function cleanTerm(term: string): string {
+  return term.replace(/\s+/g, ' ').replace(/[\s,:]+$/, '').trim();
+}
+
+/** Trailing list punctuation, full stop and conjunctions ("; et", "; en") removed. */
+function cleanDefinition(definition: string): string {
+  return definition
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/(?:[;,.]\s*(?:et|en|ou|of)?|\s(?:et|en|ou|of))$/iu, '')
+    .trim();
+}
+
+function foldTerm(value: string): string {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function excerpt(text: string): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > EXCERPT_LENGTH ? `${flat.slice(0, EXCERPT_LENGTH - 1)}…` : flat;
+}
@@ -86,6 +86,17 @@ export async function fetchLawContent(
   return rateLimitedFetch(url);
 }
 
+/**
+ * Fetch an archived consolidated version of a law.
+ * @param href - Archive link as found on the law page (relative or absolute)
+ * @param pageUrl - URL of the page the link was found on, used to resolve relative links
+ */
+export async function fetchArchivedVersion(href: string, pageUrl: string = BASE_URL): Promise<string> {
+  const url = new URL(href, pageUrl).toString();
+  console.log(`  Fetching archived version: ${url}`);
+  return rateLimitedFetch(url);
+}
+
 /**
  * Build the Justel URL for a law.
  */
@@ -0,0 +1,166 @@
+/**
+ * Point-in-time history builder for Belgian legislation.
+ *
+ * Turns a series of consolidated snapshots of one law (archived Justel
+ * versions plus the current text) into dated versions per article.
+ * Consecutive snapshots with identical article text are merged into a
+ * single validity window.
+ */
+
+import type { Amendment } from './amendments.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface SnapshotProvision {
+  provision_ref: string;
+  section: string;
+  title?: string;
+  content: string;
+  chapter?: string;
+  amendments?: Amendment[];
+}
+
+export interface LawSnapshot {
+  /** First day this consolidated text applied (YYYY-MM-DD), null if unknown */
+  validFrom: string | null;
+  /** First day it no longer applied (exclusive, YYYY-MM-DD), null for the current text */
+  validTo: string | null;
+  /** Articles of the law as they read in this snapshot */
+  provisions: SnapshotProvision[];
+}
+
+export interface ProvisionVersion {
+  provision_ref: string;
+  section: string;
+  title?: string;
+  content: string;
+  chapter?: string;
+  amendments?: Amendment[];
+  valid_from?: string;
+  valid_to?: string;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Return the calendar day after an ISO date. Justel states archive windows
+ * with an inclusive end date; versions use an exclusive `valid_to`.
+ */
+export function nextDay(isoDate: string): string {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + 1);
+  return date.toISOString().slice(0, 10);
+}
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Sort snapshots chronologically and clamp each window so it ends where the
+ * next one starts. Snapshots left with an empty window are dropped. A snapshot
+ * without a start date sorts after dated ones, and on equal starts the
+ * open-ended current text comes last, so it is never cut short by an archive.
+ */
+function orderSnapshots(snapshots: LawSnapshot[]): LawSnapshot[] {
+  const sorted = [...snapshots].sort((a, b) => {
+    if (a.validFrom !== b.validFrom) {
+      if (!a.validFrom) return 1;
+      if (!b.validFrom) return -1;
+      return a.validFrom.localeCompare(b.validFrom);
+    }
+    return Number(!a.validTo) - Number(!b.validTo);
+  });
+  const ordered: LawSnapshot[] = [];
+
+  for (let i = 0; i < sorted.length; i++) {
+    const snapshot = sorted[i];
+    const nextFrom = sorted[i + 1]?.validFrom ?? null;
+    let validTo = snapshot.validTo;
+    if (nextFrom && (!validTo || validTo > nextFrom)) {
+      validTo = nextFrom;
+    }
+    if (snapshot.validFrom && validTo && validTo <= snapshot.validFrom) {
+      continue;
+    }
+    ordered.push({ ...snapshot, validTo });
+  }
+
+  return ordered;
+}
+
+/**
+ * First day of the current consolidated text: the end of the last archived
+ * version, or the start of the latest one when Justel states no end date.
+ */
+export function currentTextStart(archives: LawSnapshot[]): string | null {
+  return archives
+    .flatMap(snapshot => [snapshot.validFrom, snapshot.validTo])
+    .filter((date): date is string => !!date)
+    .sort()
+    .pop() ?? null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// History Builder
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Build dated versions per provision_ref from consolidated snapshots.
+ *
+ * An article missing from a snapshot closes its current window; if it comes
+ * back later it starts a new version.
+ */
+export function buildProvisionHistory(snapshots: LawSnapshot[]): Map<string, ProvisionVersion[]> {
+  const ordered = orderSnapshots(snapshots);
+  const history = new Map<string, ProvisionVersion[]>();
+  const open = new Map<string, ProvisionVersion>();
+
+  for (const snapshot of ordered) {
+    const seen = new Set<string>();
+
+    for (const provision of snapshot.provisions) {
+      const ref = provision.provision_ref;
+      if (seen.has(ref)) continue;
+      seen.add(ref);
+
+      const current = open.get(ref);
+      if (current && normalizeWhitespace(current.content) === normalizeWhitespace(provision.content)) {
+        if (snapshot.validTo) {
+          current.valid_to = snapshot.validTo;
+        } else {
+          delete current.valid_to;
+        }
+        continue;
+      }
+
+      const version: ProvisionVersion = {
+        provision_ref: ref,
+        section: provision.section,
+        content: provision.content,
+        ...(provision.title ? { title: provision.title } : {}),
+        ...(provision.chapter ? { chapter: provision.chapter } : {}),
+        ...(provision.amendments?.length ? { amendments: provision.amendments } : {}),
+        ...(snapshot.validFrom ? { valid_from: snapshot.validFrom } : {}),
+        ...(snapshot.validTo ? { valid_to: snapshot.validTo } : {}),
+      };
+
+      const list = history.get(ref) ?? [];
+      list.push(version);
+      history.set(ref, list);
+      open.set(ref, version);
+    }
+
+    for (const ref of [...open.keys()]) {
+      if (!seen.has(ref)) {
+        open.delete(ref);
+      }
+    }
+  }
+
+  return history;
+}
@@ -6,6 +6,19 @@
  */
 
 import { JSDOM } from 'jsdom';
+import { parseBelgianDate, parseJustelDate } from './dates.js';
+import { extractAmendments } from './amendments.js';
+import type { Amendment } from './amendments.js';
+import { parseArticleStatus } from './article-status.js';
+import {
+  addHeading,
+  createOutline,
+  currentChapter,
+  currentNode,
+  findHeadings,
+  splitTrailingHeadings,
+} from './structure.js';
+import type { StructureNode } from './structure.js';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Types
@@ -45,6 +58,16 @@ export interface ParsedProvision {
   content: string;
   /** Chapter name if known */
   chapter?: string;
+  /** Innermost heading governing the article (StructureNode id) */
+  structure_id?: number;
+  /** Amendments flagged by Justel markers, in marker order */
+  amendments?: Amendment[];
+  /** Article-specific entry into force (YYYY-MM-DD) */
+  in_force_date?: string;
+  /** Article repeal date (YYYY-MM-DD) */
+  repealed_date?: string;
+  /** Entry into force still undetermined */
+  in_force_pending?: boolean;
 }
 
 export interface ParsedLaw {
@@ -52,31 +75,35 @@ export interface ParsedLaw {
   title: string;
   /** NUMAC number */
   numac: string;
-  /** Entry into force date if found, otherwise null */
+  /** Entry into force as written in the header, otherwise null */
   entryIntoForce: string | null;
+  /** Entry into force normalized to YYYY-MM-DD, null if absent or undetermined */
+  inForceDate: string | null;
+  /** First day the law no longer applies (YYYY-MM-DD), null if not repealed */
+  repealedDate: string | null;
+  /** Repealing act as cited by Justel (e.g., 'L 2017-03-12/05, art. 10') */
+  repealedBy: string | null;
   /** Source/ministry */
   source: string | null;
   /** Parsed provisions */
   provisions: ParsedProvision[];
+  /** Heading tree (Livre, Titre, Chapitre, ...), in document order */
+  structure: StructureNode[];
 }
 
-// ─────────────────────────────────────────────────────────────────────────────
-// Belgian month names for date parsing
-// ─────────────────────────────────────────────────────────────────────────────
-
-const FRENCH_MONTHS: Record<string, string> = {
-  'JANVIER': '01', 'FEVRIER': '02', 'MARS': '03', 'AVRIL': '04',
-  'MAI': '05', 'JUIN': '06', 'JUILLET': '07', 'AOUT': '08',
-  'SEPTEMBRE': '09', 'OCTOBRE': '10', 'NOVEMBRE': '11', 'DECEMBRE': '12',
-};
-
-const DUTCH_MONTHS: Record<string, string> = {
-  'JANUARI': '01', 'FEBRUARI': '02', 'MAART': '03', 'APRIL': '04',
-  'MEI': '05', 'JUNI': '06', 'JULI': '07', 'AUGUSTUS': '08',
-  'SEPTEMBER': '09', 'OKTOBER': '10', 'NOVEMBER': '11', 'DECEMBER': '12',
-};
-
-const ALL_MONTHS: Record<string, string> = { ...FRENCH_MONTHS, ...DUTCH_MONTHS };
+/** Status of a law on a given day, from its header dates */
+export type LawStatus = 'in_force' | 'repealed' | 'not_yet_in_force';
+
+export interface ArchivedVersionLink {
+  /** Archive sequence number as shown by Justel (e.g., 3 for "n° 003") */
+  number: number;
+  /** Link target (relative or absolute) */
+  href: string;
+  /** First day the archived text applied, as YYYY-MM-DD */
+  validFrom: string | null;
+  /** Last day the archived text applied (inclusive), as YYYY-MM-DD */
+  validUntil: string | null;
+}
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Year Index Parser
@@ -235,6 +262,19 @@ export function parseLawContent(html: string, numac: string): ParsedLaw {
     }
   }
 
+  const inForceDate = entryIntoForce ? parseBelgianDate(entryIntoForce) : null;
+
+  // Extract repeal
+  let repealedDate: string | null = null;
+  let repealedBy: string | null = null;
+  for (const el of plainTexts) {
+    const repeal = parseRepeal(el.textContent || '');
+    if (repeal) {
+      ({ repealedDate, repealedBy } = repeal);
+      break;
+    }
+  }
+
   // Extract source
   let source: string | null = null;
   for (const el of plainTexts) {
@@ -251,28 +291,110 @@ export function parseLawContent(html: string, numac: string): ParsedLaw {
   const textSection = document.querySelector('#list-title-3');
   if (!textSection) {
     console.warn(`  Warning: No text section found for ${numac}`);
-    return { title, numac, entryIntoForce, source, provisions: [] };
+    return { title, numac, entryIntoForce, inForceDate, repealedDate, repealedBy, source, provisions: [], structure: [] };
   }
 
   // Get the raw HTML of the text section
   const textHtml = textSection.innerHTML;
 
-  // Parse articles from the HTML
-  const provisions = parseArticles(textHtml);
+  // Parse articles and their heading tree from the HTML
+  const { provisions, structure } = parseArticles(textHtml);
+
+  return { title, numac, entryIntoForce, inForceDate, repealedDate, repealedBy, source, provisions, structure };
+}
+
+/**
+ * Parse a Justel repeal notice such as
+ *   "Abrogé par L 2017-03-12/05, art. 10; En vigueur : 01-04-2017"
+ *   "Opgeheven bij W 2017-03-12/05, art. 10; Inwerkingtreding : 01-04-2017"
+ *
+ * The repeal date is the entry into force of the repealing provision when
+ * stated, otherwise the date of the repealing act.
+ */
+export function parseRepeal(text: string): { repealedDate: string | null; repealedBy: string } | null {
+  const match = text.match(/(?:Abrog[e\u00e9]e?|Opgeheven)\s+(?:par|bij|door)\s*:?\s*(.+?)(?:\n|$)/i);
+  if (!match) return null;
+
+  const line = match[1];
+  const repealedBy = line.split(/;|\s(?:En vigueur|Inwerkingtreding)\b/i)[0].replace(/[\s.,]+$/, '').trim();
+  const inForce = line.match(/(?:En vigueur|Inwerkingtreding)\s*:\s*(\d{2}-\d{2}-\d{4})/i);
+  const repealedDate = inForce
+    ? parseJustelDate(inForce[1])
+    : parseBelgianDate(repealedBy);
+
+  return repealedBy ? { repealedDate, repealedBy } : null;
+}
+
+/**
+ * Status of a parsed law today, from its header dates. A repeal that has not
+ * yet taken effect leaves the law in force.
+ */
+export function documentStatus(
+  parsed: Pick<ParsedLaw, 'inForceDate' | 'repealedDate' | 'repealedBy'>,
+  today = new Date().toISOString().slice(0, 10)
+): LawStatus {
+  if (parsed.repealedDate ? parsed.repealedDate <= today : parsed.repealedBy !== null) {
+    return 'repealed';
+  }
+  if (parsed.inForceDate && parsed.inForceDate > today) {
+    return 'not_yet_in_force';
+  }
+  return 'in_force';
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Archived Versions
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Extract the archived consolidated versions listed on a Justel law page.
+ *
+ * Archive links carry an `arch=NNN` parameter; the link text (or its row)
+ * states the validity window, e.g.
+ *   "Version archivée n° 003 en vigueur du 01-03-1994 au 31-12-2004"
+ *   "Gearchiveerde versie nr 003 van kracht van 01-03-1994 tot 31-12-2004"
+ */
+export function parseArchivedVersionLinks(html: string): ArchivedVersionLink[] {
+  const dom = new JSDOM(html);
+  const document = dom.window.document;
+  const byNumber = new Map<number, ArchivedVersionLink>();
+
+  for (const link of document.querySelectorAll('a[href]')) {
+    const href = (link.getAttribute('href') || '').trim();
+    const archMatch = href.match(/[?&]arch=(\d+)/i);
+    if (!archMatch) continue;
+
+    const number = parseInt(archMatch[1], 10);
+    if (byNumber.has(number)) continue;
+
+    const context = link.closest('tr, li, p') ?? link.parentElement;
+    // The row includes the link text, so it is read once
+    const text = context?.textContent || link.textContent || '';
+    const dates = text.match(/\d{2}-\d{2}-\d{4}/g) ?? [];
+
+    byNumber.set(number, {
+      number,
+      href,
+      validFrom: dates[0] ? parseJustelDate(dates[0]) : null,
+      validUntil: dates[1] ? parseJustelDate(dates[1]) : null,
+    });
+  }
 
-  return { title, numac, entryIntoForce, source, provisions };
+  return [...byNumber.values()].sort((a, b) => a.number - b.number);
 }
 
 /**
  * Parse articles from the text section HTML.
  *
- * Articles are delimited by <A NAME='Art.N'> anchors.
+ * Articles are delimited by <A NAME='Art.N'> anchors. Headings printed
+ * between two articles are split off the end of the first and open the
+ * outline nodes that govern the second.
  */
-function parseArticles(html: string): ParsedProvision[] {
+function parseArticles(html: string): { provisions: ParsedProvision[]; structure: StructureNode[] } {
   const provisions: ParsedProvision[] = [];
 
-  // Split on article anchors: <A NAME='Art.XXX'>
-  const articlePattern = /<A\s+NAME='Art\.([^']+)'[^>]*>/gi;
+  // Split on article anchors: <A NAME='Art.XXX'> (serialized as name="Art.XXX")
+  const articlePattern = /<A\s+NAME=['"]Art\.([^'"]+)['"][^>]*>/gi;
   const matches: Array<{ ref: string; startIndex: number }> = [];
 
   let match: RegExpExecArray | null;
@@ -287,36 +409,29 @@ function parseArticles(html: string): ParsedProvision[] {
     return parseArticlesFallback(html);
   }
 
-  let currentChapter: string | undefined;
+  const outline = createOutline();
+  for (const heading of findHeadings(cleanArticleHtml(html.substring(0, matches[0].startIndex)))) {
+    addHeading(outline, heading);
+  }
 
   for (let i = 0; i < matches.length; i++) {
     const current = matches[i];
     const nextStart = i + 1 < matches.length ? matches[i + 1].startIndex : html.length;
     const articleHtml = html.substring(current.startIndex, nextStart);
 
-    // Check for chapter markers before this article
-    const chapterBefore = html.substring(
-      i > 0 ? matches[i - 1].startIndex : 0,
-      current.startIndex
-    );
-    const chapterMatch = chapterBefore.match(
-      /(?:CHAPITRE|HOOFDSTUK)\s+([IVXLCDM\d]+(?:er)?)\.\s*-\s*([^<\n]+)/i
-    );
-    if (chapterMatch) {
-      currentChapter = `${chapterMatch[1]}. ${chapterMatch[2].trim()}`;
+    // Headings at the end of the fragment belong to the next article
+    const { body: rawText, headings } = splitTrailingHeadings(cleanArticleHtml(articleHtml));
+    const structureId = currentNode(outline)?.id;
+    const chapter = currentChapter(outline);
+    for (const heading of headings) {
+      addHeading(outline, heading);
     }
 
-    // Also check within the article HTML for inline chapter markers
-    const inlineChapterMatch = articleHtml.match(
-      /(?:CHAPITRE|HOOFDSTUK)\s+([IVXLCDM\d]+(?:er)?)\.\s*-\s*([^<\n]+)/i
-    );
-    if (inlineChapterMatch) {
-      currentChapter = `${inlineChapterMatch[1]}. ${inlineChapterMatch[2].trim()}`;
-    }
-
-    // Extract the article text
-    const text = cleanArticleHtml(articleHtml);
+    // Extract the article text, its amendment markers and its own in-force status
+    const extraction = extractAmendments(rawText);
+    const { content: text, amendments } = extraction;
     if (!text.trim()) continue;
+    const articleStatus = parseArticleStatus(rawText, extraction);
 
     // Determine article reference and title
     const ref = current.ref.toLowerCase().replace(/\./g, '');
@@ -336,39 +451,60 @@ function parseArticles(html: string): ParsedProvision[] {
       section: sectionNum,
       title: artTitle,
       content: text.trim(),
-      chapter: currentChapter,
+      chapter,
+      ...(structureId ? { structure_id: structureId } : {}),
+      ...(amendments.length > 0 ? { amendments } : {}),
+      ...articleStatus,
     });
   }
 
-  return provisions;
+  return { provisions, structure: outline.nodes };
 }
 
 /**
  * Fallback parser when no <A NAME='Art.N'> anchors are found.
  */
-function parseArticlesFallback(html: string): ParsedProvision[] {
+function parseArticlesFallback(html: string): { provisions: ParsedProvision[]; structure: StructureNode[] } {
   const provisions: ParsedProvision[] = [];
+  const outline = createOutline();
   const cleanText = cleanArticleHtml(html);
 
   const parts = cleanText.split(/(?=(?:Article|Art\.)\s+\d+)/i);
 
   for (const part of parts) {
     const artMatch = part.match(/^(?:Article|Art\.)\s+(\d+(?:er)?)/i);
-    if (!artMatch) continue;
+    if (!artMatch) {
+      for (const heading of findHeadings(part)) {
+        addHeading(outline, heading);
+      }
+      continue;
+    }
+
+    const { body, headings } = splitTrailingHeadings(part.trim());
+    const structureId = currentNode(outline)?.id;
+    const chapter = currentChapter(outline);
+    for (const heading of headings) {
+      addHeading(outline, heading);
+    }
 
     const num = artMatch[1];
     const ref = `art${num.toLowerCase()}`;
-    const content = part.trim();
+    const extraction = extractAmendments(body);
+    const { content, amendments } = extraction;
 
     provisions.push({
       provision_ref: ref,
       section: num.replace(/er$/i, ''),
       title: `Article ${num}`,
       content,
+      ...(chapter ? { chapter } : {}),
+      ...(structureId ? { structure_id: structureId } : {}),
+      ...(amendments.length > 0 ? { amendments } : {}),
+      ...parseArticleStatus(body, extraction),
     });
   }
 
-  return provisions;
+  return { provisions, structure: outline.nodes };
 }
 
 /**
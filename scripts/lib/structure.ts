@@ -0,0 +1,157 @@
+/**
+ * Heading structure of Justel texts.
+ *
+ * Codes and long acts group their articles under nested headings:
+ *
+ *   LIVRE Ier. - Des personnes                 BOEK I. - Personen
+ *   TITRE II. - De la nationalité              TITEL II. - Nationaliteit
+ *   CHAPITRE III. - Dispositions générales     HOOFDSTUK III. - Algemene bepalingen
+ *   Section 1re. - Champ d'application         Afdeling 1. - Toepassingsgebied
+ *   Sous-section 2. - Définitions              Onderafdeling 2. - Definities
+ *
+ * Justel prints each heading on its own line just before the first article
+ * it governs. The outline keeps every heading seen, with its parent, and the
+ * path of headings that governs the current article.
+ */
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type StructureLevel = 'partie' | 'livre' | 'titre' | 'chapitre' | 'section' | 'sous_section';
+
+export interface Heading {
+  level: StructureLevel;
+  /** Number as printed (e.g., 'Ier', '2', '3bis') */
+  number: string;
+  /** Heading text after the number, null when the heading has none */
+  heading: string | null;
+}
+
+export interface StructureNode extends Heading {
+  /** 1-based position of the heading in the document */
+  id: number;
+  /** Enclosing heading, null at the top level */
+  parent_id: number | null;
+}
+
+export interface Outline {
+  nodes: StructureNode[];
+  /** Headings governing the current article, outermost first */
+  path: StructureNode[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Patterns
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Levels from outermost to innermost, with their French and Dutch keywords. */
+const LEVELS: Array<{ level: StructureLevel; keywords: string }> = [
+  { level: 'partie', keywords: 'PARTIE|DEEL' },
+  { level: 'livre', keywords: 'LIVRE|BOEK' },
+  { level: 'titre', keywords: 'TITRE|TITEL' },
+  { level: 'chapitre', keywords: 'CHAPITRE|HOOFDSTUK' },
+  { level: 'sous_section', keywords: 'SOUS-SECTION|ONDERAFDELING' },
+  { level: 'section', keywords: 'SECTION|AFDELING' },
+];
+
+const DEPTH: Record<StructureLevel, number> = {
+  partie: 0,
+  livre: 1,
+  titre: 2,
+  chapitre: 3,
+  section: 4,
+  sous_section: 5,
+};
+
+const NUMBER = String.raw`(?:[IVXLCDM]+|\d+)(?:er|re|[eè]re)?(?:\/\d+)?(?:\s?(?:bis|ter|quater|quinquies|sexies|septies|octies|novies|decies))?`;
+
+const HEADING_PATTERNS = LEVELS.map(({ level, keywords }) => ({
+  level,
+  pattern: new RegExp(`^(?:${keywords})\\s+(${NUMBER})\\.?(?:\\s*[-–]\\s*(.+))?$`, 'i'),
+}));
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Parser
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Parse one line of cleaned text as a heading, or return null. */
+export function parseHeading(line: string): Heading | null {
+  const text = line.trim();
+  for (const { level, pattern } of HEADING_PATTERNS) {
+    const match = text.match(pattern);
+    if (!match) continue;
+    // A bare number is only a heading when it is written "TITRE II." on its own line.
+    if (!match[2] && !/\.$/.test(text)) continue;
+    return {
+      level,
+      number: match[1].replace(/\s+/g, ''),
+      heading: match[2]?.trim() || null,
+    };
+  }
+  return null;
+}
+
+/** Every heading line of a text, in order. */
+export function findHeadings(text: string): Heading[] {
+  return text
+    .split('\n')
+    .map(parseHeading)
+    .filter((heading): heading is Heading => heading !== null);
+}
+
+/**
+ * Split the headings that follow an article's text off its end. They govern
+ * the next article, not this one.
+ */
+export function splitTrailingHeadings(text: string): { body: string; headings: Heading[] } {
+  const lines = text.split('\n');
+  const headings: Heading[] = [];
+
+  while (lines.length > 1) {
+    const heading = parseHeading(lines[lines.length - 1]);
+    if (!heading) break;
+    headings.unshift(heading);
+    lines.pop();
+  }
+
+  return { body: lines.join('\n'), headings };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Outline
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function createOutline(): Outline {
+  return { nodes: [], path: [] };
+}
+
+/** Record a heading; it closes every open heading at its level or deeper. */
+export function addHeading(outline: Outline, heading: Heading): StructureNode {
+  const depth = DEPTH[heading.level];
+  while (outline.path.length > 0 && DEPTH[outline.path[outline.path.length - 1].level] >= depth) {
+    outline.path.pop();
+  }
+
+  const parent = outline.path[outline.path.length - 1];
+  const node: StructureNode = {
+    id: outline.nodes.length + 1,
+    parent_id: parent ? parent.id : null,
+    ...heading,
+  };
+  outline.nodes.push(node);
+  outline.path.push(node);
+  return node;
+}
+
+/** Innermost heading governing the current article. */
+export function currentNode(outline: Outline): StructureNode | undefined {
+  return outline.path[outline.path.length - 1];
+}
+
+/** Current chapter in the legacy `chapter` column format ("III. Dispositions générales"). */
+export function currentChapter(outline: Outline): string | undefined {
+  const chapter = outline.path.find(node => node.level === 'chapitre');
+  if (!chapter) return undefined;
+  return chapter.heading ? `${chapter.number}. ${chapter.heading}` : `${chapter.number}.`;
+}
@@ -0,0 +1,165 @@
+/**
+ * Provision versions from seed files.
+ *
+ * Groups the dated versions of each article and checks that they form a
+ * consistent timeline before the database builder stores them.
+ */
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface AmendmentSeed {
+  marker: number | null;
+  amending_act: string;
+  amending_article?: string | null;
+  date: string | null;
+  in_force_date?: string | null;
+  type: 'inserted' | 'replaced' | 'amended' | 'repealed';
+}
+
+export interface ProvisionVersionSeed {
+  valid_from?: string;
+  valid_to?: string;
+  chapter?: string;
+  section?: string;
+  title?: string;
+  content: string;
+  amendments?: AmendmentSeed[];
+}
+
+/** Version of a provision that is no longer part of the current text (e.g. a repealed article). */
+export interface DocumentVersionSeed extends ProvisionVersionSeed {
+  provision_ref: string;
+  section: string;
+}
+
+/** The fields of a seed provision its versions are collected from. */
+export interface VersionedProvisionSeed {
+  provision_ref: string;
+  chapter?: string;
+  section: string;
+  title?: string;
+  content: string;
+  amendments?: AmendmentSeed[];
+  versions?: ProvisionVersionSeed[];
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Versions
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Group provision versions by provision_ref, sorted chronologically.
+ *
+ * Versions come from two places: `provisions[].versions` for articles in the
+ * current text, and the document-level `versions` array for articles that no
+ * longer exist in it. When a document carries any history, provisions without
+ * recorded versions get a single open-ended version mirroring the current text
+ * so point-in-time listings of the document stay complete.
+ */
+export function collectVersions(
+  provisions: VersionedProvisionSeed[],
+  documentVersions: DocumentVersionSeed[] = [],
+): Map<string, DocumentVersionSeed[]> {
+  const byRef = new Map<string, DocumentVersionSeed[]>();
+  const add = (version: DocumentVersionSeed) => {
+    const list = byRef.get(version.provision_ref) ?? [];
+    list.push(version);
+    byRef.set(version.provision_ref, list);
+  };
+
+  for (const prov of provisions) {
+    for (const version of prov.versions ?? []) {
+      add({
+        ...version,
+        provision_ref: prov.provision_ref,
+        section: version.section ?? prov.section,
+        chapter: version.chapter ?? prov.chapter,
+        title: version.title ?? prov.title,
+      });
+    }
+  }
+
+  for (const version of documentVersions) {
+    add({ ...version, provision_ref: version.provision_ref.trim() });
+  }
+
+  if (byRef.size > 0) {
+    for (const prov of provisions) {
+      if (!byRef.has(prov.provision_ref)) {
+        add({
+          provision_ref: prov.provision_ref,
+          section: prov.section,
+          chapter: prov.chapter,
+          title: prov.title,
+          content: prov.content,
+          amendments: prov.amendments,
+        });
+      }
+    }
+  }
+
+  for (const list of byRef.values()) {
+    list.sort((a, b) => (a.valid_from ?? '').localeCompare(b.valid_from ?? ''));
+  }
+
+  return byRef;
+}
+
+/**
+ * Check that the versions of one provision form a consistent timeline:
+ * well-formed dates, no overlapping windows, and a latest version that is
+ * open-ended exactly when the provision is part of the current text, with
+ * matching content.
+ */
+export function validateVersionWindows(
+  ref: string,
+  versions: DocumentVersionSeed[],
+  current: VersionedProvisionSeed | undefined,
+): string[] {
+  const issues: string[] = [];
+
+  for (const version of versions) {
+    for (const date of [version.valid_from, version.valid_to]) {
+      if (date !== undefined && !ISO_DATE.test(date)) {
+        issues.push(`${ref}: invalid date "${date}" (expected YYYY-MM-DD)`);
+      }
+    }
+    if (version.valid_from && version.valid_to && version.valid_from >= version.valid_to) {
+      issues.push(`${ref}: version starting ${version.valid_from} ends on or before it (${version.valid_to})`);
+    }
+  }
+
+  for (let i = 1; i < versions.length; i++) {
+    const previous = versions[i - 1];
+    const next = versions[i];
+    if (!next.valid_from) {
+      issues.push(`${ref}: only the earliest version may omit valid_from`);
+    } else if (!previous.valid_to || previous.valid_to > next.valid_from) {
+      issues.push(
+        `${ref}: version from ${previous.valid_from ?? 'origin'} to ${previous.valid_to ?? 'open end'} ` +
+        `overlaps version starting ${next.valid_from}`
+      );
+    }
+  }
+
+  const latest = versions[versions.length - 1];
+  if (current) {
+    if (latest.valid_to) {
+      issues.push(`${ref}: latest version ends ${latest.valid_to} but the provision is still in the current text`);
+    } else if (normalizeWhitespace(latest.content) !== normalizeWhitespace(current.content)) {
+      issues.push(`${ref}: latest open-ended version does not match the current provision text`);
+    }
+  } else if (!latest.valid_to) {
+    issues.push(`${ref}: open-ended version for a provision that is not in the current text`);
+  }
+
+  return issues;
+}
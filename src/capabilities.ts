@@ -9,13 +9,19 @@ export type Capability =
   | 'core_legislation'
   | 'eu_references'
   | 'case_law'
-  | 'preparatory_works';
+  | 'preparatory_works'
+  | 'stemmed_search'
+  | 'document_structure'
+  | 'cross_references';
 
 const TABLE_MAP: Record<Capability, string[]> = {
   core_legislation: ['legal_documents', 'legal_provisions', 'provisions_fts'],
   eu_references: ['eu_documents', 'eu_references'],
   case_law: ['case_law'],
   preparatory_works: ['preparatory_works'],
+  stemmed_search: ['provisions_stem_fts', 'provision_versions_stem_fts'],
+  document_structure: ['document_structure'],
+  cross_references: ['cross_references'],
 };
 
 export function detectCapabilities(db: InstanceType<typeof Database>): Set<Capability> {
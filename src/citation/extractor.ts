@@ -0,0 +1,336 @@
+/**
+ * Belgian legal citation extractor.
+ *
+ * Finds every legal reference in free text (a contract, an opinion, a draft)
+ * with its character offsets. Recognized references:
+ *   "article 5, § 2, de la loi du 8 décembre 1992"
+ *   "articles 2 et 10 de la loi du ...", "artikelen 4 tot 7 van de wet van ..." (one reference per article)
+ *   "Loi du 8 décembre 1992, art. 5"
+ *   "A.R. du 1er juillet 2011", "décret flamand du 18 juillet 2008", "ordonnance du 5 mars 2009"
+ *   "article 1382 du Code civil", "art. 1382 C. civ.", "art. XII.1 CDE"
+ *   "loi-1992-12-08-1992009783-fr", "NUMAC 1992009783"
+ *   "http://www.ejustice.just.fgov.be/eli/loi/1992/12/08/1992009783/justel"
+ *   "Directive 95/46/CE", "Règlement (UE) 2016/679", "Verordening (EU) 2016/679"
+ *
+ * Offsets are JavaScript string indexes (UTF-16 code units), end exclusive.
+ * An article mentioned without its statute ("l'article 5") is not reported:
+ * it cannot be checked.
+ */
+
+import { CODES, findCode } from './instruments.js';
+
+export interface ExtractedStatuteReference {
+  kind: 'statute';
+  /** Matched text, text.slice(start, end) */
+  text: string;
+  start: number;
+  end: number;
+  /** Citation string for parseCitation / validateCitation */
+  citation: string;
+  /** How the statute was named */
+  statute_form: 'title' | 'statute_id' | 'numac' | 'eli';
+  /** Article number, absent for a reference to the whole statute */
+  article?: string;
+  /** Pinpoint below the article as written (e.g., '§ 2, al. 3') */
+  pinpoint?: string;
+}
+
+export interface ExtractedEUReference {
+  kind: 'eu';
+  text: string;
+  start: number;
+  end: number;
+  type: 'directive' | 'regulation';
+  year: number;
+  number: number;
+}
+
+export type ExtractedReference = ExtractedStatuteReference | ExtractedEUReference;
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+interface StatuteMention extends Span {
+  form: ExtractedStatuteReference['statute_form'];
+  /** Statute as written in a citation string: title, statute id or NUMAC */
+  reference: string;
+}
+
+interface ArticleMention extends Span {
+  /** Articles in the order written, ranges expanded */
+  articles: string[];
+  /** Pinpoint after the (last) article */
+  pinpoint?: string;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Patterns
+// ─────────────────────────────────────────────────────────────────────────────
+
+const MONTHS = [
+  'janvier', 'f[ée]vrier', 'mars', 'avril', 'mai', 'juin', 'juillet', 'ao[ûu]t',
+  'septembre', 'octobre', 'novembre', 'd[ée]cembre',
+  'januari', 'februari', 'maart', 'april', 'mei', 'juni', 'juli', 'augustus',
+  'september', 'oktober', 'november', 'december',
+].join('|');
+
+const INSTRUMENT = [
+  'loi', 'wet', 'arr[êe]t[ée]\\s+royal', 'arr[êe]t[ée]\\s+minist[ée]riel', 'A\\.\\s?R\\.', 'A\\.\\s?M\\.',
+  'koninklijk\\s+besluit', 'K\\.\\s?B\\.', 'ministerieel\\s+besluit', 'M\\.\\s?B\\.(?=\\s+van)',
+  'd[ée]cret', '(?:vlaams\\s+|waals\\s+)?decreet', 'ordonnance', '(?:brusselse\\s+)?ordonnantie',
+].join('|');
+
+const ISSUER = [
+  'flamand', 'wallon', 'bruxellois(?:e)?',
+  'de\\s+la\\s+Communaut[ée]\\s+(?:fran[çc]aise|germanophone)',
+  'de\\s+la\\s+R[ée]gion\\s+(?:wallonne|flamande|de\\s+Bruxelles-Capitale)',
+  'van\\s+de\\s+(?:Vlaamse|Franse|Duitstalige)\\s+Gemeenschap', 'van\\s+het\\s+(?:Vlaamse|Waalse|Brusselse\\s+Hoofdstedelijke)\\s+Gewest',
+].join('|');
+
+const STATUTE_TITLE = String.raw`\b(?:${INSTRUMENT})(?:\s+(?:${ISSUER}))?\s+(?:du|van)\s+\d{1,2}(?:er)?\s+(?:${MONTHS})\s+\d{4}`;
+
+/** Accent-insensitive pattern for a code title ("Code pénal" also matches "Code penal"). */
+function loosePattern(name: string): string {
+  return name
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/[ée]/g, '[ée]')
+    .replace(/['’]/g, "['’]")
+    .replace(/\s+/g, '\\s+');
+}
+
+const CODE_NAME = `\\b(?:${CODES.flatMap(code => [code.fr, code.nl])
+  .sort((a, b) => b.length - a.length)
+  .map(loosePattern)
+  .join('|')})(?![\\p{L}])`;
+
+const STATUTE_ID = String.raw`\b(?:loi|wet)-\d{4}-\d{2}-\d{2}-\d{10}-(?:fr|nl)\b`;
+const NUMAC = String.raw`\bnumac\s*:?\s*(\d{10})\b`;
+const ELI = String.raw`https?:\/\/(?:www\.)?ejustice\.just\.fgov\.be\/eli\/[a-z]+\/\d{4}\/\d{2}\/\d{2}\/(\d{10})(?:\/[a-z]+)*`;
+
+const STATUTE_PATTERN = new RegExp(`(${STATUTE_TITLE}|${CODE_NAME})|(${STATUTE_ID})|${NUMAC}|${ELI}`, 'giu');
+
+const ARTICLE_NUMBER = String.raw`(?:[IVXLC]+\.)?\d+(?:\.\d+)*(?:er)?(?:\s?(?:bis|ter|quater|quinquies|sexies|septies|octies|novies|decies))?(?:\/\d+)?(?![\w°\/])`;
+const LIST_SEPARATOR = String.raw`\s*(?:,|-|–|(?<!\p{L})(?:et|en|à|tot)(?!\p{L}))\s*`;
+const RANGE_SEPARATOR = /^(?:-|–|à|tot)$/u;
+const LIST_SPLIT = new RegExp(String.raw`\s*(,|-|–|(?<!\p{L})(?:et|en|à|tot)(?!\p{L}))\s*`, 'u');
+
+/** "l'article 4", "aux articles 5 et 6", "artikelen 4 tot 7", "art. 3bis"; group 1 is the list */
+export const ARTICLE_LIST_PATTERN = new RegExp(
+  String.raw`\b(?:articles?|artikelen|artikel|artt?\.?)\s*(${ARTICLE_NUMBER}(?:${LIST_SEPARATOR}${ARTICLE_NUMBER})*)`,
+  'giu'
+);
+
+/** Expand "articles 4 à 7" only for short ranges of plain numbers. */
+const MAX_RANGE = 20;
+
+const PINPOINT = String.raw`(?:\s*,?\s*(?:§\s*\d+(?:er)?|(?:al(?:in[ée]a)?\.?|lid)\s*\d+|\d+\s*°|[a-z]\)))*`;
+const ARTICLE_PATTERN = new RegExp(`${ARTICLE_LIST_PATTERN.source}(${PINPOINT})`, 'giu');
+
+/** Between an article and its statute: "article 5 de la loi ...", "artikel 5 van de wet ...". */
+const ARTICLE_TO_STATUTE = /^\s*,?\s*(?:(?:de\s+la|de\s+l['’]|du|van\s+de|van\s+het|der)\s*)?/iu;
+/** Between an article and a code abbreviation: "art. 1382 C. civ.", "artikel 1382 van het BW". */
+const ARTICLE_TO_CODE = /^\s+(?:(?:du|de\s+la|van\s+het|van\s+de)\s+)?/iu;
+const ABBREVIATION_TOKEN = /[\p{L}\d]+\.?/uy;
+const MAX_ABBREVIATION_TOKENS = 4;
+/** Between a statute and its article: "Loi du 8 décembre 1992, art. 5". */
+const STATUTE_TO_ARTICLE = /^\s*,\s*/;
+
+const EU_COMMUNITY = '(?:UE|EU|CE|EG|CEE|EEG|Euratom)';
+const EU_PATTERN = new RegExp(
+  String.raw`\b(directive|richtlijn|r[èe]glement|verordening|regulation)\s*(?:\(${EU_COMMUNITY}\)\s*)?(?:n[°or]\.?\s*)?(\d{2,4})\/(\d{1,4})(?:\/${EU_COMMUNITY})?(?![\d/])`,
+  'giu'
+);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Extraction
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Every Belgian statute, article and EU reference in `text`, in order of appearance. */
+export function extractCitations(text: string): ExtractedReference[] {
+  const statutes = findStatutes(text);
+  const articles = findArticles(text);
+  const statuteAt = new Map(statutes.map(statute => [statute.start, statute]));
+  const articleAt = new Map(articles.map(article => [article.start, article]));
+  const paired = new Set<StatuteMention>();
+  const references: ExtractedReference[] = [];
+
+  // "article 5 de la loi du ...", "art. 1382 C. civ."
+  for (const article of articles) {
+    const connector = text.slice(article.end).match(ARTICLE_TO_STATUTE);
+    const statute = statuteAt.get(article.end + (connector?.[0].length ?? 0));
+    if (statute && !paired.has(statute)) {
+      paired.add(statute);
+      references.push(...articleReferences(text, { start: article.start, end: statute.end }, statute, article));
+      continue;
+    }
+    const code = codeAbbreviationAfter(text, article.end);
+    if (code) {
+      references.push(...articleReferences(text, { start: article.start, end: code.end }, code, article));
+    }
+  }
+
+  for (const statute of statutes) {
+    if (paired.has(statute)) continue;
+    // "Loi du ..., art. 5"
+    const connector = text.slice(statute.end).match(STATUTE_TO_ARTICLE);
+    const article = connector ? articleAt.get(statute.end + connector[0].length) : undefined;
+    if (article) {
+      references.push(...articleReferences(text, { start: statute.start, end: article.end }, statute, article));
+    } else {
+      references.push(statuteReference(text, statute, statute));
+    }
+  }
+
+  references.push(...findEUReferences(text));
+  return references.sort((a, b) => a.start - b.start);
+}
+
+function findStatutes(text: string): StatuteMention[] {
+  return [...text.matchAll(STATUTE_PATTERN)].map(match => {
+    const start = match.index ?? 0;
+    const span = { start, end: start + match[0].length };
+    if (match[1]) return { ...span, form: 'title' as const, reference: match[1].replace(/\s+/g, ' ') };
+    if (match[2]) return { ...span, form: 'statute_id' as const, reference: match[2].toLowerCase() };
+    if (match[3]) return { ...span, form: 'numac' as const, reference: match[3] };
+    return { ...span, form: 'eli' as const, reference: match[4] };
+  });
+}
+
+function findArticles(text: string): ArticleMention[] {
+  return [...text.matchAll(ARTICLE_PATTERN)].map(match => {
+    const start = match.index ?? 0;
+    // The pinpoint pattern may swallow a trailing comma that belongs to the sentence
+    const pinpoint = match[2].replace(/[\s,]+$/, '');
+    return {
+      start,
+      end: start + match[0].length - (match[2].length - pinpoint.length),
+      articles: expandArticleList(match[1]),
+      pinpoint: pinpoint.replace(/^[\s,]+/, '') || undefined,
+    };
+  });
+}
+
+/** "5 et 6" -> ['5', '6']; "4 à 7" -> ['4', '5', '6', '7']. */
+export function expandArticleList(list: string): string[] {
+  const parts = list.split(LIST_SPLIT);
+  const articles: string[] = [normalizeArticle(parts[0])];
+
+  for (let i = 1; i + 1 < parts.length; i += 2) {
+    const next = normalizeArticle(parts[i + 1]);
+    const previous = articles[articles.length - 1];
+    if (RANGE_SEPARATOR.test(parts[i]) && /^\d+$/.test(previous) && /^\d+$/.test(next)) {
+      const from = Number(previous);
+      const to = Number(next);
+      if (to > from && to - from <= MAX_RANGE) {
+        for (let n = from + 1; n < to; n++) articles.push(String(n));
+      }
+    }
+    articles.push(next);
+  }
+  return articles;
+}
+
+/** "1er" -> "1", "4 bis" -> "4bis"; the book of a code article stays in capitals ("XII.1"). */
+export function normalizeArticle(value: string): string {
+  return value
+    .replace(/\s+/g, '')
+    .toLowerCase()
+    .replace(/^(\d+)er$/, '$1')
+    .replace(/^([ivxlc]+)\./, (_match, book: string) => `${book.toUpperCase()}.`);
+}
+
+/** A code abbreviation ("C. civ.", "Ger.W.", "CIR 92") following an article, as a statute mention. */
+function codeAbbreviationAfter(text: string, position: number): StatuteMention | undefined {
+  const connector = text.slice(position).match(ARTICLE_TO_CODE);
+  if (!connector) return undefined;
+
+  const start = position + connector[0].length;
+  const ends: number[] = [];
+  let cursor = start;
+  while (ends.length < MAX_ABBREVIATION_TOKENS) {
+    ABBREVIATION_TOKEN.lastIndex = cursor;
+    const token = ABBREVIATION_TOKEN.exec(text);
+    if (!token) break;
+    ends.push(cursor + token[0].length);
+    cursor = ends[ends.length - 1];
+    if (text[cursor] === ' ') cursor++;
+  }
+
+  // Longest run of tokens that is a known abbreviation: "C. civ." before "C."
+  for (const end of ends.reverse()) {
+    const reference = text.slice(start, end);
+    if (findCode(reference)) {
+      return { start, end, form: 'title', reference };
+    }
+  }
+  return undefined;
+}
+
+/** One reference per listed article, all spanning the whole mention; the pinpoint goes with the last. */
+function articleReferences(
+  text: string,
+  span: Span,
+  statute: StatuteMention,
+  mention: ArticleMention
+): ExtractedStatuteReference[] {
+  return mention.articles.map((article, i) =>
+    statuteReference(text, span, statute, article, i === mention.articles.length - 1 ? mention.pinpoint : undefined)
+  );
+}
+
+function statuteReference(
+  text: string,
+  span: Span,
+  statute: StatuteMention,
+  article?: string,
+  pinpoint?: string
+): ExtractedStatuteReference {
+  const parts = [statute.reference];
+  if (article) parts.push(`art. ${article}`);
+  if (pinpoint) parts.push(pinpoint);
+
+  return {
+    kind: 'statute',
+    text: text.slice(span.start, span.end),
+    start: span.start,
+    end: span.end,
+    citation: parts.join(', '),
+    statute_form: statute.form,
+    ...(article ? { article } : {}),
+    ...(pinpoint ? { pinpoint } : {}),
+  };
+}
+
+function findEUReferences(text: string): ExtractedEUReference[] {
+  return [...text.matchAll(EU_PATTERN)].map(match => {
+    const start = match.index ?? 0;
+    const type = /^(?:directive|richtlijn)$/i.test(match[1]) ? 'directive' : 'regulation';
+    const { year, number } = euYearAndNumber(type, match[2], match[3]);
+    return { kind: 'eu', text: match[0], start, end: start + match[0].length, type, year, number };
+  });
+}
+
+function expandYear(value: string): number {
+  const year = Number(value);
+  if (value.length !== 2) return year;
+  return year >= 57 ? 1900 + year : 2000 + year;
+}
+
+function isYear(value: string): boolean {
+  const year = Number(value);
+  return value.length === 4 && year >= 1957 && year <= 2100;
+}
+
+/**
+ * Directives are numbered year/number ("95/46/CE", "2016/680"). Regulations
+ * were numbered number/year until 2015 ("(CE) n° 45/2001") and year/number
+ * since ("(UE) 2016/679").
+ */
+function euYearAndNumber(type: 'directive' | 'regulation', first: string, second: string): { year: number; number: number } {
+  if (type === 'directive' || (isYear(first) && !isYear(second))) {
+    return { year: expandYear(first), number: Number(second) };
+  }
+  return { year: expandYear(second), number: Number(first) };
+}
@@ -1,50 +1,154 @@
 /**
  * Belgian legal citation formatter.
+ *
+ * Follows the usual Belgian conventions:
+ *   full         Loi du 30 juillet 2018 relative à …, M.B., 5 septembre 2018, art. 5, § 2, al. 1er
+ *                Wet van 30 juli 2018 betreffende …, B.S. 5 september 2018, art. 5, § 2, eerste lid
+ *   short_title  Loi du 30 juillet 2018, art. 5, § 2, al. 1er
+ *   short        art. 5, § 2, al. 1er Loi du 30 juillet 2018
+ *   pinpoint     art. 5, § 2, al. 1er
+ *
+ * The gazette reference and the full title need the cited document; without
+ * it the title is taken from the citation as written.
  */
 
 import type { ParsedCitation, CitationFormat } from '../types/index.js';
+import { detectInstrument } from './instruments.js';
+
+export type CitationLanguage = 'fr' | 'nl';
+
+/** The cited act as stored, from legal_documents. */
+export interface CitationDocument {
+  title: string;
+  /** Publication date in the Moniteur belge / Belgisch Staatsblad (YYYY-MM-DD) */
+  publication_date?: string | null;
+  language?: string | null;
+}
+
+export interface FormatCitationOptions {
+  /** Output language; defaults to the document's, then to the language of the cited title */
+  language?: CitationLanguage;
+  document?: CitationDocument;
+}
+
+const MONTHS: Record<CitationLanguage, string[]> = {
+  fr: ['janvier', 'février', 'mars', 'avril', 'mai', 'juin', 'juillet', 'août', 'septembre', 'octobre', 'novembre', 'décembre'],
+  nl: ['januari', 'februari', 'maart', 'april', 'mei', 'juni', 'juli', 'augustus', 'september', 'oktober', 'november', 'december'],
+};
+
+const DUTCH_ORDINALS = ['eerste', 'tweede', 'derde', 'vierde', 'vijfde', 'zesde', 'zevende', 'achtste', 'negende', 'tiende'];
+
+/** Instrument names that open a Justel title after its date ("30 JUILLET 2018. - Loi relative à ..."). */
+const INSTRUMENT_NAME = new RegExp(
+  '^(?:' + [
+    'loi[- ]programme', 'loi sp[ée]ciale', 'loi', 'arr[êe]t[ée] royal', 'arr[êe]t[ée] minist[ée]riel', 'arr[êe]t[ée]',
+    'd[ée]cret', 'ordonnance',
+    'programmawet', 'bijzondere wet', 'wet', 'koninklijk besluit', 'ministerieel besluit', 'besluit', 'decreet', 'ordonnantie',
+  ].join('|') + ')(?=\\s|,|$)',
+  'iu'
+);
+
+const JUSTEL_TITLE = /^(\d{1,2})(?:er)?\s+(\p{L}+)\s+(\d{4})\s*\.?\s*[-–]\s*(.+)$/u;
+const DATED_TITLE = /^(.*?\b(?:du|van)\s+\d{1,2}(?:er)?\s+\p{L}+\s+\d{4})\b/u;
 
 export function formatCitation(
   parsed: ParsedCitation,
-  format: CitationFormat = 'full'
+  format: CitationFormat = 'full',
+  options: FormatCitationOptions = {}
 ): string {
-  if (!parsed.valid || !parsed.section) {
+  if (!parsed.valid || (!parsed.section && !options.document)) {
     return '';
   }
 
-  const pinpoint = buildPinpoint(parsed);
+  const language = options.language ?? documentLanguage(options.document) ?? titleLanguage(parsed.title) ?? 'fr';
+  const article = parsed.section ? `art. ${buildPinpoint(parsed, language)}` : '';
+  const title = options.document ? citationTitle(options.document.title, language) : parsed.title?.trim() ?? '';
+  const shortTitle = options.document ? shortenTitle(title) : title;
+  const join = (...parts: string[]) => parts.filter(Boolean).join(', ');
 
   switch (format) {
-    case 'full':
-      if (parsed.title?.trim()) {
-        return `${parsed.title.trim()}, art. ${pinpoint}`;
-      }
-      return `art. ${pinpoint}`;
-
     case 'short':
-      if (parsed.title?.trim()) {
-        return `art. ${pinpoint} ${parsed.title.trim()}`;
-      }
-      return `art. ${pinpoint}`;
+      return [article, shortTitle].filter(Boolean).join(' ');
+
+    case 'short_title':
+      return join(shortTitle, article);
 
     case 'pinpoint':
-      return `art. ${pinpoint}`;
+      return article || shortTitle;
 
+    case 'full':
     default:
-      if (parsed.title?.trim()) {
-        return `${parsed.title.trim()}, art. ${pinpoint}`;
-      }
-      return `art. ${pinpoint}`;
+      return join(title, gazetteReference(options.document?.publication_date, language), article);
   }
 }
 
-function buildPinpoint(parsed: ParsedCitation): string {
-  let ref = parsed.section ?? '';
+/** "M.B., 5 septembre 2018" or "B.S. 5 september 2018". */
+export function gazetteReference(publicationDate: string | null | undefined, language: CitationLanguage): string {
+  const date = publicationDate ? formatDate(publicationDate, language) : null;
+  if (!date) return '';
+  return language === 'nl' ? `B.S. ${date}` : `M.B., ${date}`;
+}
+
+/** "1er septembre 2018" / "1 september 2018" from an ISO date. */
+function formatDate(isoDate: string, language: CitationLanguage): string | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(isoDate);
+  if (!match) return null;
+  const day = Number(match[3]);
+  const month = MONTHS[language][Number(match[2]) - 1];
+  if (!month) return null;
+  return `${day === 1 && language === 'fr' ? '1er' : day} ${month} ${match[1]}`;
+}
+
+/**
+ * A stored title in citation order: Justel's "30 JUILLET 2018. - Loi relative
+ * à ..." becomes "Loi du 30 juillet 2018 relative à ...". Titles already in
+ * that order, and titles without a known instrument name, are kept.
+ */
+export function citationTitle(title: string, language: CitationLanguage): string {
+  const trimmed = title.trim();
+  const match = JUSTEL_TITLE.exec(trimmed);
+  if (!match) return trimmed;
+
+  const [, day, month, year, rest] = match;
+  const instrument = INSTRUMENT_NAME.exec(rest);
+  if (!instrument) return trimmed;
+
+  const dayLabel = day === '1' && language === 'fr' ? '1er' : String(Number(day));
+  const date = `${dayLabel} ${month.toLowerCase()} ${year}`;
+  return `${instrument[0]} ${language === 'nl' ? 'van' : 'du'} ${date}${rest.slice(instrument[0].length)}`;
+}
+
+/** The title up to the date of the act ("Loi du 30 juillet 2018"), or the whole title (codes). */
+function shortenTitle(title: string): string {
+  return DATED_TITLE.exec(title)?.[1] ?? title;
+}
+
+function documentLanguage(document: CitationDocument | undefined): CitationLanguage | undefined {
+  return document?.language === 'fr' || document?.language === 'nl' ? document.language : undefined;
+}
+
+function titleLanguage(title: string | undefined): CitationLanguage | undefined {
+  return title ? detectInstrument(title)?.language : undefined;
+}
+
+/**
+ * "5", or "5, § 2, al. 1er, 4°, b)" when the citation goes below article level.
+ * Dutch alinéas read "eerste lid", "tweede lid", ...
+ */
+function buildPinpoint(parsed: ParsedCitation, language: CitationLanguage): string {
+  const parts: string[] = [parsed.section ?? ''];
   if (parsed.subsection) {
-    ref += `(${parsed.subsection})`;
+    parts.push(`§ ${parsed.subsection === '1' && language === 'fr' ? '1er' : parsed.subsection}`);
   }
   if (parsed.paragraph) {
-    ref += `(${parsed.paragraph})`;
+    const alinea = Number(parsed.paragraph);
+    if (language === 'nl') {
+      parts.push(DUTCH_ORDINALS[alinea - 1] ? `${DUTCH_ORDINALS[alinea - 1]} lid` : `lid ${alinea}`);
+    } else {
+      parts.push(`al. ${alinea === 1 ? '1er' : alinea}`);
+    }
   }
-  return ref;
+  if (parsed.point) parts.push(parsed.point);
+  if (parsed.subpoint) parts.push(parsed.subpoint);
+  return parts.join(', ');
 }
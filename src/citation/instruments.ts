@@ -0,0 +1,172 @@
+/**
+ * Belgian instrument types and code abbreviations used in citations.
+ *
+ *   Loi / Wet                              statute
+ *   Arrêté royal (A.R.) / Koninklijk besluit (K.B.)            royal_decree
+ *   Arrêté ministériel (A.M.) / Ministerieel besluit (M.B.)    ministerial_decree
+ *   Décret / Decreet (Communities and Regions)                 decree
+ *   Ordonnance / Ordonnantie (Brussels-Capital Region)         ordinance
+ *   Code civil (C. civ.) / Burgerlijk Wetboek (BW), ...        code
+ */
+
+import type { CitationInstrument, CitationRegion } from '../types/index.js';
+import { foldDiacritics } from '../utils/stemmer.js';
+
+export interface CodeDefinition {
+  /** Title in French, as in Justel */
+  fr: string;
+  /** Title in Dutch, as in Justel */
+  nl: string;
+  /** Usual abbreviations per language, matched without dots, spaces or case ("C. civ." = "cciv") */
+  abbreviations: { fr: string[]; nl: string[] };
+}
+
+export const CODES: CodeDefinition[] = [
+  { fr: 'Constitution', nl: 'Grondwet', abbreviations: { fr: ['const'], nl: ['gw'] } },
+  { fr: 'Code civil', nl: 'Burgerlijk Wetboek', abbreviations: { fr: ['cciv', 'cc'], nl: ['bw'] } },
+  { fr: 'Code judiciaire', nl: 'Gerechtelijk Wetboek', abbreviations: { fr: ['cjud'], nl: ['gerw'] } },
+  { fr: 'Code pénal', nl: 'Strafwetboek', abbreviations: { fr: ['cpen', 'cp'], nl: ['sw', 'swb'] } },
+  {
+    fr: "Code d'instruction criminelle",
+    nl: 'Wetboek van strafvordering',
+    abbreviations: { fr: ['cicr', 'cic'], nl: ['sv'] },
+  },
+  { fr: 'Code de droit économique', nl: 'Wetboek van economisch recht', abbreviations: { fr: ['cde'], nl: ['wer'] } },
+  {
+    fr: 'Code des sociétés et des associations',
+    nl: 'Wetboek van vennootschappen en verenigingen',
+    abbreviations: { fr: ['csa'], nl: ['wvv'] },
+  },
+  {
+    fr: 'Code des sociétés',
+    nl: 'Wetboek van vennootschappen',
+    abbreviations: { fr: ['csoc'], nl: ['wvenn', 'wgvenn'] },
+  },
+  {
+    fr: 'Code de droit international privé',
+    nl: 'Wetboek van internationaal privaatrecht',
+    abbreviations: { fr: ['codip'], nl: ['wipr'] },
+  },
+  {
+    fr: 'Code des impôts sur les revenus 1992',
+    nl: 'Wetboek van de inkomstenbelastingen 1992',
+    abbreviations: { fr: ['cir', 'cir92', 'cir1992'], nl: ['wib', 'wib92', 'wib1992'] },
+  },
+  {
+    fr: 'Code de la taxe sur la valeur ajoutée',
+    nl: 'Wetboek van de belasting over de toegevoegde waarde',
+    abbreviations: { fr: ['ctva'], nl: ['wbtw'] },
+  },
+];
+
+interface InstrumentPattern {
+  type: Exclude<CitationInstrument, 'code'>;
+  language: 'fr' | 'nl';
+  /** Matched at the start of a folded, lowercased citation title */
+  pattern: RegExp;
+}
+
+/** Most specific first: "arrêté royal" before "loi", "decreet" before "wet". */
+const INSTRUMENTS: InstrumentPattern[] = [
+  { type: 'royal_decree', language: 'fr', pattern: /^(?:arrete\s+royal|a\.\s?r\.)/ },
+  { type: 'royal_decree', language: 'nl', pattern: /^(?:koninklijk\s+besluit|k\.\s?b\.)/ },
+  { type: 'ministerial_decree', language: 'fr', pattern: /^(?:arrete\s+ministeriel|a\.\s?m\.)/ },
+  // "M.B." is also the French abbreviation of the Moniteur belge; only "M.B. van" is a decree.
+  { type: 'ministerial_decree', language: 'nl', pattern: /^(?:ministerieel\s+besluit|m\.\s?b\.(?=\s+van\b))/ },
+  { type: 'decree', language: 'fr', pattern: /^decret\b/ },
+  { type: 'decree', language: 'nl', pattern: /^(?:(?:vlaams|waals)\s+)?decreet\b/ },
+  { type: 'ordinance', language: 'fr', pattern: /^ordonnance\b/ },
+  { type: 'ordinance', language: 'nl', pattern: /^(?:brusselse\s+)?ordonnantie\b/ },
+  { type: 'statute', language: 'fr', pattern: /^loi\b/ },
+  { type: 'statute', language: 'nl', pattern: /^wet\b/ },
+];
+
+const REGIONS: Array<{ region: CitationRegion; pattern: RegExp }> = [
+  { region: 'flemish', pattern: /\b(?:flamand|flamande|vlaams|vlaamse)\b/ },
+  { region: 'walloon', pattern: /\b(?:wallon|wallonne|waals|waalse)\b/ },
+  { region: 'brussels', pattern: /\b(?:bruxellois|bruxelloise|bruxelles-capitale|brusselse|brussel|brussels)\b/ },
+  { region: 'french_community', pattern: /\b(?:communaute francaise|franse gemeenschap)\b/ },
+  { region: 'german_community', pattern: /\b(?:communaute germanophone|duitstalige gemeenschap)\b/ },
+];
+
+export interface InstrumentInfo {
+  type: CitationInstrument;
+  /** Language of the instrument name as cited */
+  language?: 'fr' | 'nl';
+  /** Issuing Region or Community of a decree or ordinance */
+  region?: CitationRegion;
+  /** The code, when the title names or abbreviates one */
+  code?: CodeDefinition;
+}
+
+function fold(value: string): string {
+  return foldDiacritics(value.toLowerCase()).replace(/\s+/g, ' ').trim();
+}
+
+function compact(value: string): string {
+  return fold(value).replace(/[\s.'’]/g, '');
+}
+
+/** The code named or abbreviated by `title` ("C. civ.", "Code civil", "BW"), with the language used. */
+export function findCode(title: string): { code: CodeDefinition; language: 'fr' | 'nl' } | undefined {
+  const key = compact(title);
+  for (const code of CODES) {
+    for (const language of ['fr', 'nl'] as const) {
+      if (compact(code[language]) === key || code.abbreviations[language].includes(key)) {
+        return { code, language };
+      }
+    }
+  }
+  return undefined;
+}
+
+/** Instrument type, language and region of a citation title such as "A.R. du 1er juillet 2011". */
+export function detectInstrument(title: string): InstrumentInfo | undefined {
+  const code = findCode(title);
+  if (code) {
+    return { type: 'code', code: code.code, language: code.language };
+  }
+
+  const folded = fold(title);
+  const instrument = INSTRUMENTS.find(candidate => candidate.pattern.test(folded));
+  if (!instrument) return undefined;
+
+  const region = instrument.type === 'ordinance' ? 'brussels' : titleRegion(title);
+
+  return {
+    type: instrument.type,
+    language: instrument.language,
+    ...(region && (instrument.type === 'decree' || instrument.type === 'ordinance') ? { region } : {}),
+  };
+}
+
+/** Region or Community named anywhere in a title ("décret flamand", "Brusselse ordonnantie"). */
+export function titleRegion(title: string): CitationRegion | undefined {
+  const folded = fold(title);
+  return REGIONS.find(candidate => candidate.pattern.test(folded))?.region;
+}
+
+/** A stored title without the Justel date prefix ("1er JUILLET 2011. - Arrêté royal ..."), folded. */
+function titleHead(title: string): string {
+  return fold(title).replace(/^\d{1,2}(?:er)?\s+\p{L}+\s+\d{4}\.?\s*-\s*/u, '');
+}
+
+/**
+ * Whether a stored document title is an instrument of `type`: the instrument
+ * name opens the title, possibly after the Justel date prefix.
+ */
+export function titleHasInstrument(title: string, type: CitationInstrument): boolean {
+  const head = titleHead(title);
+  return INSTRUMENTS.some(candidate => candidate.type === type && candidate.pattern.test(head));
+}
+
+/** Instrument type a stored document title opens with, after the Justel date prefix. */
+export function titleInstrument(title: string): CitationInstrument | undefined {
+  return detectInstrument(titleHead(title))?.type;
+}
+
+/** Whether a stored document title is the code itself, not an act amending it. */
+export function titleIsCode(title: string, code: CodeDefinition): boolean {
+  const head = titleHead(title);
+  return [code.fr, code.nl].some(name => head.startsWith(fold(name)));
+}
@@ -6,18 +6,42 @@
  *   "Wet van 2 februari 1994, art. 1"
  *   "loi-1994-02-02-1994009284-fr, art. 1"
  *   "art. 1, loi-1994-02-02-1994009284-fr"
+ *   "Loi du 2 fevrier 1994, art. 5, § 2, alinéa 3, 4°"
+ *   "A.R. du 1er juillet 2011, art. 3", "K.B. van 1 juli 2011, art. 3"
+ *   "Code civil, art. 1382", "art. 1382 C. civ.", "art. XII.1 CDE"
+ *   "décret flamand du 18 juillet 2008, art. 2", "ordonnance du 5 mars 2009, art. 4"
+ *
+ * A statute on its own ("Loi du 2 fevrier 1994", "loi-1994-02-02-1994009284-fr"
+ * or its NUMAC "1994009284") parses as a citation without article.
  */
 
 import type { ParsedCitation } from '../types/index.js';
+import { parsePinpoint } from '../utils/pinpoint.js';
+import { detectInstrument } from './instruments.js';
 
-const ARTICLE_NUMBER = '(\\d+(?:\\s*[a-z]+)?(?:er)?)';
+const ARTICLE_WORD = '(?:art(?:icle|ikel)?\\.?)';
+const LATIN_SUFFIX = 'bis|ter|quater|quinquies|sexies|septies|octies|novies|decies';
+/** "1", "1er", "4bis", "5 a", "12/1", and book-prefixed code articles such as "XII.1" or "I.1.2". */
+const ARTICLE_NUMBER = `((?:[IVXLC]+\\.)?\\d+(?:er)?(?:\\.\\d+)*(?:\\/\\d+)?(?:\\s?(?:${LATIN_SUFFIX})|\\s?[a-z](?![\\p{L}.]))?)`;
 const STATUTE_ID = '((?:loi|wet)-\\d{4}-\\d{2}-\\d{2}-\\d{10}-(?:fr|nl))';
 
-const ID_FIRST_PATTERN = new RegExp(`^${STATUTE_ID}\\s*,?\\s*(?:art\\.?|article)\\s*${ARTICLE_NUMBER}$`, 'i');
-const ARTICLE_FIRST_ID_PATTERN = new RegExp(`^(?:art\\.?|article)\\s*${ARTICLE_NUMBER}\\s*,?\\s*${STATUTE_ID}$`, 'i');
+/** Optional "§ 2, alinéa 3, 4°" after the article number; validated by parsePinpoint. */
+const PINPOINT = '((?:\\s*,?\\s*(?:§\\s*\\d+\\w*|(?:al(?:in[ée]a)?\\.?|lid)\\s*\\d+\\w*|[\\p{L}\\d]+\\s+(?:al(?:in[ée]a)?\\.?|lid)(?![\\p{L}])|\\d+\\w*\\s*°|[a-z]\\)))*)';
+
+const ID_FIRST_PATTERN = new RegExp(`^${STATUTE_ID}\\s*,?\\s*${ARTICLE_WORD}\\s*${ARTICLE_NUMBER}${PINPOINT}$`, 'iu');
+const ARTICLE_FIRST_ID_PATTERN = new RegExp(`^${ARTICLE_WORD}\\s*${ARTICLE_NUMBER}${PINPOINT}\\s*,?\\s*${STATUTE_ID}$`, 'iu');
+
+const TITLE_FIRST_PATTERN = new RegExp(`^(.+?)\\s*,\\s*${ARTICLE_WORD}\\s*${ARTICLE_NUMBER}${PINPOINT}$`, 'iu');
+const ARTICLE_FIRST_TITLE_PATTERN = new RegExp(`^${ARTICLE_WORD}\\s*${ARTICLE_NUMBER}${PINPOINT}\\s*,\\s*(.+?)$`, 'iu');
+
+/** "art. 1382 C. civ.", "art. 3 de l'A.R. du ...", "artikel 1382 van het BW": only for recognized instruments. */
+const ARTICLE_FIRST_INSTRUMENT_PATTERN = new RegExp(
+  `^${ARTICLE_WORD}\\s*${ARTICLE_NUMBER}${PINPOINT}\\s+(?:(?:du|de\\s+la|de\\s+l['’]|van\\s+het|van\\s+de)\\s*)?(.+?)$`,
+  'iu'
+);
 
-const TITLE_FIRST_PATTERN = new RegExp(`^(.+?)\\s*,\\s*(?:art\\.?|article)\\s*${ARTICLE_NUMBER}$`, 'i');
-const ARTICLE_FIRST_TITLE_PATTERN = new RegExp(`^(?:art\\.?|article)\\s*${ARTICLE_NUMBER}\\s*,\\s*(.+?)$`, 'i');
+const STATUTE_ONLY_PATTERN = new RegExp(`^(${STATUTE_ID}|\\d{10})$`, 'iu');
+const DATED_TITLE_PATTERN = /\s(?:du|van)\s+\d{1,2}(?:er)?\s+\p{L}+\s+\d{4}(?:\s+\p{L}.*)?$/iu;
 
 const YEAR_PATTERN = /(19|20)\d{2}/;
 
@@ -33,54 +57,38 @@ export function parseCitation(citation: string): ParsedCitation {
 
   let match = trimmed.match(ID_FIRST_PATTERN);
   if (match) {
-    const documentId = match[1];
-    const section = normalizeArticleNumber(match[2]);
-    return {
-      valid: true,
-      type: 'statute',
-      title: documentId,
-      year: extractYear(documentId),
-      section,
-    };
+    return statuteCitation(match[1], match[2], match[3]);
   }
 
   match = trimmed.match(ARTICLE_FIRST_ID_PATTERN);
   if (match) {
-    const section = normalizeArticleNumber(match[1]);
-    const documentId = match[2];
-    return {
-      valid: true,
-      type: 'statute',
-      title: documentId,
-      year: extractYear(documentId),
-      section,
-    };
+    return statuteCitation(match[3], match[1], match[2]);
   }
 
   match = trimmed.match(TITLE_FIRST_PATTERN);
   if (match) {
-    const title = match[1].trim();
-    const section = normalizeArticleNumber(match[2]);
-    return {
-      valid: true,
-      type: 'statute',
-      title,
-      year: extractYear(title),
-      section,
-    };
+    return statuteCitation(match[1].trim(), match[2], match[3]);
   }
 
   match = trimmed.match(ARTICLE_FIRST_TITLE_PATTERN);
   if (match) {
-    const section = normalizeArticleNumber(match[1]);
-    const title = match[2].trim();
-    return {
-      valid: true,
-      type: 'statute',
-      title,
-      year: extractYear(title),
-      section,
-    };
+    return statuteCitation(match[3].trim(), match[1], match[2]);
+  }
+
+  match = trimmed.match(ARTICLE_FIRST_INSTRUMENT_PATTERN);
+  if (match && detectInstrument(match[3])) {
+    return statuteCitation(match[3].trim(), match[1], match[2]);
+  }
+
+  match = trimmed.match(STATUTE_ONLY_PATTERN);
+  if (match) {
+    return { valid: true, type: 'statute', title: match[1], year: extractYear(match[1]) };
+  }
+
+  // "Loi du 2 fevrier 1994", "A.R. du 1er juillet 2011 relatif à ...", "Code civil"
+  const instrument = detectInstrument(trimmed);
+  if (instrument && (instrument.type === 'code' || DATED_TITLE_PATTERN.test(trimmed))) {
+    return instrumentCitation(trimmed);
   }
 
   return {
@@ -90,6 +98,41 @@ export function parseCitation(citation: string): ParsedCitation {
   };
 }
 
+/** Citation of a whole act, typed by its instrument; codes get their full title. */
+function instrumentCitation(title: string): ParsedCitation {
+  const instrument = detectInstrument(title);
+  const citation: ParsedCitation = {
+    valid: true,
+    type: instrument?.type ?? 'statute',
+    title: instrument?.code ? instrument.code[instrument.language ?? 'fr'] : title,
+    year: extractYear(title),
+  };
+  if (instrument?.region) citation.region = instrument.region;
+  return citation;
+}
+
+function statuteCitation(title: string, article: string, pinpointText: string | undefined): ParsedCitation {
+  const citation: ParsedCitation = {
+    ...instrumentCitation(title),
+    section: normalizeArticleNumber(article),
+  };
+
+  const text = pinpointText?.replace(/^[\s,]+/, '') ?? '';
+  if (!text) {
+    return citation;
+  }
+
+  const pinpoint = parsePinpoint(text);
+  if (!pinpoint) {
+    return { valid: false, type: 'unknown', error: `Could not parse pinpoint "${text}"` };
+  }
+  if (pinpoint.paragraph) citation.subsection = pinpoint.paragraph;
+  if (pinpoint.alinea) citation.paragraph = String(pinpoint.alinea);
+  if (pinpoint.point) citation.point = pinpoint.point;
+  if (pinpoint.subpoint) citation.subpoint = pinpoint.subpoint;
+  return citation;
+}
+
 function extractYear(value: string): number | undefined {
   const match = value.match(YEAR_PATTERN);
   if (!match) {
@@ -98,7 +141,10 @@ function extractYear(value: string): number | undefined {
   return Number(match[0]);
 }
 
+/** "1er" -> "1", "4 bis" -> "4bis"; the book of a code article stays in capitals ("XII.1"). */
 function normalizeArticleNumber(value: string): string {
   const compact = value.replace(/\s+/g, '').toLowerCase();
-  return compact.replace(/^(\d+)er$/, '$1');
+  return compact
+    .replace(/^(\d+)er$/, '$1')
+    .replace(/^([ivxlc]+)\./, (_match, book: string) => `${book.toUpperCase()}.`);
 }
@@ -5,17 +5,49 @@
  */
 
 import type { Database } from '@ansvar/mcp-sqlite';
-import type { ValidationResult } from '../types/index.js';
+import type { CitationCandidate, CitationSuggestion, ParsedCitation, ValidationResult } from '../types/index.js';
 import { parseCitation } from './parser.js';
+import { lookupDocumentEli } from '../utils/eli.js';
+import { foldDiacritics } from '../utils/stemmer.js';
+import { detectInstrument, findCode, titleHasInstrument, titleInstrument, titleIsCode, titleRegion } from './instruments.js';
 
 interface DocumentRow {
   id: string;
   title: string;
   url?: string | null;
   status: string;
+  language?: string | null;
+  numac?: string | null;
 }
 
+interface ScoredDocument extends DocumentRow {
+  confidence: number;
+  provision_exists?: boolean;
+  /** Language the citation named, when only another language version was found */
+  cited_language?: 'fr' | 'nl';
+}
+
+const DOCUMENT_COLUMNS = 'id, title, url, status, language, numac';
+
 const STATUTE_ID_PATTERN = /^(?:loi|wet)-\d{4}-\d{2}-\d{2}-\d{10}-(?:fr|nl)$/i;
+const NUMAC_PATTERN = /^\d{10}$/;
+
+const MAX_CANDIDATES = 5;
+const MAX_SUGGESTIONS = 5;
+/** A runner-up this close to the best match makes the citation ambiguous. */
+const AMBIGUITY_MARGIN = 0.05;
+/** Confidence lost by a dated candidate for each mismatch with the citation. */
+const LANGUAGE_PENALTY = 0.3;
+const REGION_PENALTY = 0.4;
+const SUBJECT_PENALTY = 0.3;
+const MISSING_ARTICLE_PENALTY = 0.2;
+/** A statute found only from the date in its id. */
+const DATE_ONLY_CONFIDENCE = 0.5;
+
+const SUBJECT_STOP_WORDS = new Set([
+  'relative', 'relatif', 'portant', 'concernant', 'visant', 'modifiant',
+  'betreffende', 'houdende', 'inzake', 'wijziging',
+]);
 
 const FRENCH_MONTHS: Record<string, string> = {
   JANVIER: '01',
@@ -62,94 +94,372 @@ export function validateCitation(db: Database, citation: string): ValidationResu
     };
   }
 
-  const document = resolveDocument(db, parsed.title ?? '');
-  if (!document) {
+  const candidates = resolveCandidates(db, parsed);
+  if (candidates.length === 0) {
+    const suggestions = suggestDocuments(db, parsed);
     return {
       citation: parsed,
       document_exists: false,
       provision_exists: false,
+      ...(suggestions.length > 0 ? { suggestions } : {}),
       warnings: [`Document "${parsed.title ?? 'unknown'}" not found in database`],
     };
   }
 
+  // Between several documents, the one that has the cited article fits best.
+  if (parsed.section && candidates.length > 1) {
+    for (const candidate of candidates) {
+      candidate.provision_exists = hasProvision(db, candidate.id, parsed.section);
+      if (!candidate.provision_exists) {
+        candidate.confidence = round(Math.max(candidate.confidence - MISSING_ARTICLE_PENALTY, 0));
+      }
+    }
+    candidates.sort(compareCandidates);
+  }
+
+  const document = candidates[0];
+  const ambiguous = candidates.length > 1 && candidates[1].confidence >= document.confidence - AMBIGUITY_MARGIN;
+  if (ambiguous) {
+    warnings.push(
+      `Ambiguous citation: ${candidates.length} documents match "${parsed.title}"; ` +
+      'using the closest match, check the candidates'
+    );
+  }
+
+  if (document.cited_language) {
+    warnings.push(
+      `No ${document.cited_language.toUpperCase()} version of "${parsed.title}" in database; ` +
+      `using the ${(document.language ?? 'other').toUpperCase()} version "${document.title}"`
+    );
+  }
+
   if (document.status === 'repealed') {
     warnings.push('This statute has been repealed');
   }
 
-  let provisionExists = false;
+  let provisionExists = true;
+  let suggestions: CitationSuggestion[] = [];
   if (parsed.section) {
-    const sectionA = parsed.section;
-    const sectionB = parsed.section.replace(/\s+/g, '');
-    const refA = `art${sectionA}`;
-    const refB = `art${sectionB}`;
-
-    const provision = db.prepare(
-      `SELECT 1
-       FROM legal_provisions
-       WHERE document_id = ?
-         AND (
-           section = ? OR section = ?
-           OR provision_ref = ? OR provision_ref = ?
-         )
-       LIMIT 1`
-    ).get(document.id, sectionA, sectionB, refA, refB);
-
-    provisionExists = !!provision;
+    provisionExists = document.provision_exists ?? hasProvision(db, document.id, parsed.section);
 
     if (!provisionExists) {
       warnings.push(`Article ${parsed.section} not found in ${document.title}`);
+      suggestions = suggestArticle(db, document.id, parsed.section);
     }
-  } else {
-    provisionExists = true;
   }
 
   return {
     citation: parsed,
     document_exists: true,
     provision_exists: provisionExists,
+    document_id: document.id,
     document_title: document.title,
     document_url: document.url ?? undefined,
+    document_eli: lookupDocumentEli(db, document.id) ?? undefined,
     status: document.status,
+    ambiguous,
+    ...(candidates.length > 1 ? { candidates: candidates.map(toCandidate) } : {}),
+    ...(suggestions.length > 0 ? { suggestions } : {}),
     warnings,
   };
 }
 
-function resolveDocument(db: Database, reference: string): DocumentRow | undefined {
-  const trimmed = reference.trim();
+function hasProvision(db: Database, documentId: string, section: string): boolean {
+  const sectionA = section;
+  const sectionB = section.replace(/\s+/g, '');
+  const refA = `art${sectionA}`;
+  const refB = `art${sectionB}`;
+
+  const provision = db.prepare(
+    `SELECT 1
+     FROM legal_provisions
+     WHERE document_id = ?
+       AND (
+         section = ? COLLATE NOCASE OR section = ? COLLATE NOCASE
+         OR provision_ref = ? COLLATE NOCASE OR provision_ref = ? COLLATE NOCASE
+       )
+     LIMIT 1`
+  ).get(documentId, sectionA, sectionB, refA, refB);
+
+  return !!provision;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function compareCandidates(a: ScoredDocument, b: ScoredDocument): number {
+  return b.confidence - a.confidence || a.id.localeCompare(b.id);
+}
+
+function toCandidate(document: ScoredDocument): CitationCandidate {
+  return {
+    document_id: document.id,
+    title: document.title,
+    status: document.status,
+    confidence: document.confidence,
+    ...(document.provision_exists !== undefined ? { provision_exists: document.provision_exists } : {}),
+  };
+}
+
+function certain(document: DocumentRow | undefined, confidence = 1): ScoredDocument[] {
+  return document ? [{ ...document, confidence }] : [];
+}
+
+/**
+ * Language versions of one act (same NUMAC) are a single match: only the
+ * best-scoring version is kept.
+ */
+function oneVersionPerAct(documents: ScoredDocument[]): ScoredDocument[] {
+  const seen = new Set<string>();
+  return documents.filter(document => {
+    const key = document.numac ?? document.id;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/** Stored documents that fit the citation, best first, with a confidence between 0 and 1. */
+function resolveCandidates(db: Database, parsed: ParsedCitation): ScoredDocument[] {
+  const trimmed = (parsed.title ?? '').trim();
   if (!trimmed) {
-    return undefined;
+    return [];
   }
 
   if (STATUTE_ID_PATTERN.test(trimmed)) {
-    return db.prepare(
-      'SELECT id, title, url, status FROM legal_documents WHERE id = ? LIMIT 1'
-    ).get(trimmed) as DocumentRow | undefined;
+    return certain(db.prepare(
+      `SELECT ${DOCUMENT_COLUMNS} FROM legal_documents WHERE id = ? LIMIT 1`
+    ).get(trimmed) as DocumentRow | undefined);
+  }
+
+  if (NUMAC_PATTERN.test(trimmed)) {
+    return certain(db.prepare(
+      `SELECT ${DOCUMENT_COLUMNS} FROM legal_documents WHERE numac = ? ORDER BY id LIMIT 1`
+    ).get(trimmed) as DocumentRow | undefined);
+  }
+
+  if (parsed.type === 'code') {
+    return resolveCode(db, trimmed);
   }
 
   const date = extractBelgianDate(trimmed);
   if (date) {
-    const langPrefix = detectLanguagePrefix(trimmed);
-    if (langPrefix) {
-      const byPrefix = db.prepare(
-        'SELECT id, title, url, status FROM legal_documents WHERE id LIKE ? ORDER BY id LIMIT 1'
-      ).get(`${langPrefix}-${date}-%`) as DocumentRow | undefined;
-      if (byPrefix) return byPrefix;
-    }
-
-    const byDate = db.prepare(
-      "SELECT id, title, url, status FROM legal_documents WHERE id LIKE ? OR id LIKE ? ORDER BY id LIMIT 1"
-    ).get(`loi-${date}-%`, `wet-${date}-%`) as DocumentRow | undefined;
+    const dated = resolveDatedInstrument(db, parsed, date);
+    if (dated.length > 0 || parsed.type !== 'statute') return dated;
 
-    if (byDate) return byDate;
+    const byDate = resolveDateOnly(db, trimmed, date);
+    if (byDate.length > 0) return byDate;
   }
 
-  return db.prepare(
-    `SELECT id, title, url, status
+  return resolveTitle(db, trimmed);
+}
+
+/**
+ * Statutes of the cited date whose stored title names no instrument, found by
+ * id; those in another language than cited score lower.
+ */
+function resolveDateOnly(db: Database, title: string, date: string): ScoredDocument[] {
+  const langPrefix = detectLanguagePrefix(title);
+  const rows = (db.prepare(
+    `SELECT ${DOCUMENT_COLUMNS} FROM legal_documents WHERE id LIKE ? OR id LIKE ? ORDER BY id`
+  ).all(`loi-${date}-%`, `wet-${date}-%`) as DocumentRow[])
+    .filter(row => !titleInstrument(row.title));
+
+  const scored = rows.map(row => ({
+    ...row,
+    confidence: langPrefix && !row.id.startsWith(`${langPrefix}-`)
+      ? round(DATE_ONLY_CONFIDENCE - LANGUAGE_PENALTY)
+      : DATE_ONLY_CONFIDENCE,
+  }));
+
+  return oneVersionPerAct(scored.sort(compareCandidates)).slice(0, MAX_CANDIDATES);
+}
+
+/** Documents whose title contains the cited title; the more of the title it covers, the better. */
+function resolveTitle(db: Database, title: string): ScoredDocument[] {
+  const rows = db.prepare(
+    `SELECT ${DOCUMENT_COLUMNS}
      FROM legal_documents
      WHERE title LIKE ?
      ORDER BY CASE WHEN title = ? THEN 0 ELSE 1 END, LENGTH(title)
-     LIMIT 1`
-  ).get(`%${trimmed}%`, trimmed) as DocumentRow | undefined;
+     LIMIT ?`
+  ).all(`%${title}%`, title, MAX_CANDIDATES) as DocumentRow[];
+
+  return oneVersionPerAct(rows.map(row => ({
+    ...row,
+    confidence: row.title === title ? 1 : round(0.5 + 0.5 * title.length / row.title.length),
+  })));
+}
+
+/**
+ * The code itself, never an act that amends it: in the language it was cited
+ * in, else its other language version.
+ */
+function resolveCode(db: Database, title: string): ScoredDocument[] {
+  const match = findCode(title);
+  if (!match) return [];
+
+  const otherLanguage: 'fr' | 'nl' = match.language === 'fr' ? 'nl' : 'fr';
+  for (const language of [match.language, otherLanguage]) {
+    const candidates = db.prepare(
+      `SELECT ${DOCUMENT_COLUMNS}
+       FROM legal_documents
+       WHERE title LIKE ?
+       ORDER BY LENGTH(title), id`
+    ).all(`%${match.code[language]}%`) as DocumentRow[];
+
+    const code = candidates.find(candidate => titleIsCode(candidate.title, match.code));
+    if (code) {
+      return [{ ...code, confidence: 1, ...(language !== match.language ? { cited_language: match.language } : {}) }];
+    }
+  }
+  return [];
+}
+
+/**
+ * Acts of the given date and instrument type. Documents of the same date that
+ * are another kind of act (e.g., the loi an arrêté implements) are skipped;
+ * the others score lower for another language or region than cited and for
+ * subject words of the citation missing from their title.
+ */
+function resolveDatedInstrument(db: Database, parsed: ParsedCitation, date: string): ScoredDocument[] {
+  const type = parsed.type;
+  if (type === 'unknown') return [];
+
+  const candidates = (db.prepare(
+    `SELECT ${DOCUMENT_COLUMNS}
+     FROM legal_documents
+     WHERE issued_date = ? OR id LIKE ? OR id LIKE ?
+     ORDER BY id`
+  ).all(date, `loi-${date}-%`, `wet-${date}-%`) as DocumentRow[])
+    .filter(candidate => titleHasInstrument(candidate.title, type));
+
+  const language = detectInstrument(parsed.title ?? '')?.language;
+  const subject = subjectWords(parsed.title ?? '');
+
+  const scored = candidates.map(candidate => {
+    let confidence = 1;
+    if (language && candidate.language !== language) {
+      confidence -= LANGUAGE_PENALTY;
+    }
+    if (parsed.region && titleRegion(candidate.title) !== parsed.region) {
+      confidence -= REGION_PENALTY;
+    }
+    if (subject.length > 0) {
+      const title = foldTitle(candidate.title);
+      const found = subject.filter(word => title.includes(word)).length;
+      confidence -= SUBJECT_PENALTY * (1 - found / subject.length);
+    }
+    return { ...candidate, confidence: round(Math.max(confidence, 0)) };
+  });
+
+  return oneVersionPerAct(scored.sort(compareCandidates)).slice(0, MAX_CANDIDATES);
+}
+
+function foldTitle(title: string): string {
+  return foldDiacritics(title.toLowerCase());
+}
+
+/**
+ * Significant words of a cited title after its date: "loi du 8 décembre 1992
+ * relative à la vie privée" gives ["privee"] (short words and connectors dropped).
+ */
+function subjectWords(title: string): string[] {
+  const afterDate = title.replace(/^.*?\b\d{4}\b/u, '');
+  return foldTitle(afterDate)
+    .split(/[^\p{L}\d]+/u)
+    .filter(word => word.length >= 5 && !SUBJECT_STOP_WORDS.has(word));
+}
+
+/**
+ * Documents close to a citation that matched nothing: acts of the same date
+ * (another instrument or language version) and titles sharing its words.
+ */
+function suggestDocuments(db: Database, parsed: ParsedCitation): CitationSuggestion[] {
+  const title = (parsed.title ?? '').trim();
+  const suggestions = new Map<string, CitationSuggestion>();
+
+  const date = title ? extractBelgianDate(title) : null;
+  if (date) {
+    const language = detectInstrument(title)?.language;
+    const sameDate = db.prepare(
+      `SELECT ${DOCUMENT_COLUMNS}
+       FROM legal_documents
+       WHERE issued_date = ? OR id LIKE ? OR id LIKE ?
+       ORDER BY id
+       LIMIT ?`
+    ).all(date, `loi-${date}-%`, `wet-${date}-%`, MAX_SUGGESTIONS) as DocumentRow[];
+
+    for (const row of sameDate) {
+      suggestions.set(row.id, {
+        document_id: row.id,
+        title: row.title,
+        reason: language && row.language && row.language !== language ? 'other_language' : 'same_date',
+      });
+    }
+  }
+
+  const words = date ? subjectWords(title) : subjectWords(`0000 ${title}`);
+  if (words.length > 0 && suggestions.size < MAX_SUGGESTIONS) {
+    const rows = db.prepare(
+      `SELECT ${DOCUMENT_COLUMNS}
+       FROM legal_documents
+       WHERE ${words.map(() => 'title LIKE ?').join(' OR ')}
+       LIMIT 200`
+    ).all(...words.map(word => `%${word}%`)) as DocumentRow[];
+
+    const ranked = rows
+      .map(row => {
+        const folded = foldTitle(row.title);
+        return { row, shared: words.filter(word => folded.includes(word)).length };
+      })
+      .filter(entry => entry.shared > 0)
+      .sort((a, b) => b.shared - a.shared || a.row.id.localeCompare(b.row.id));
+
+    for (const { row } of ranked) {
+      if (suggestions.size >= MAX_SUGGESTIONS) break;
+      if (!suggestions.has(row.id)) {
+        suggestions.set(row.id, { document_id: row.id, title: row.title, reason: 'similar_title' });
+      }
+    }
+  }
+
+  return [...suggestions.values()];
+}
+
+/**
+ * Where a missing article does exist: another language version of the act
+ * (same NUMAC) or another act of the same date.
+ */
+function suggestArticle(db: Database, documentId: string, section: string): CitationSuggestion[] {
+  const document = db.prepare(
+    'SELECT numac, issued_date FROM legal_documents WHERE id = ?'
+  ).get(documentId) as { numac: string | null; issued_date: string | null };
+  const compact = section.replace(/\s+/g, '');
+
+  const rows = db.prepare(
+    `SELECT ld.id, ld.title, ld.numac, lp.provision_ref
+     FROM legal_documents ld
+     JOIN legal_provisions lp ON lp.document_id = ld.id
+     WHERE ld.id != ?
+       AND (ld.numac = ? OR ld.issued_date = ?)
+       AND (lp.section = ? COLLATE NOCASE OR lp.provision_ref = ? COLLATE NOCASE)
+     ORDER BY ld.id
+     LIMIT ?`
+  ).all(documentId, document.numac, document.issued_date, compact, `art${compact}`, MAX_SUGGESTIONS) as Array<{
+    id: string;
+    title: string;
+    numac: string | null;
+    provision_ref: string;
+  }>;
+
+  return rows.map(row => ({
+    document_id: row.id,
+    title: row.title,
+    reason: document.numac && row.numac === document.numac ? 'other_language' : 'article_in_related_act',
+    provision_ref: row.provision_ref,
+  }));
 }
 
 function detectLanguagePrefix(value: string): 'loi' | 'wet' | null {
@@ -165,7 +475,7 @@ function extractBelgianDate(value: string): string | null {
     return `${isoMatch[1]}-${isoMatch[2]}-${isoMatch[3]}`;
   }
 
-  const textualMatch = value.match(/(\d{1,2})\s+([\p{L}.-]+)\s+(\d{4})/iu);
+  const textualMatch = value.match(/(\d{1,2})(?:er|e)?\s+([\p{L}.-]+)\s+(\d{4})/iu);
   if (!textualMatch) {
     return null;
   }
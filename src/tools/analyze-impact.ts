@@ -0,0 +1,372 @@
+/**
+ * analyze_impact — What is affected if a provision changes or is annulled.
+ *
+ * Walks, for the provision and its other language versions:
+ *   - inbound cross_references, up to `depth` links away (provisions citing it,
+ *     provisions citing those, ...)
+ *   - definitions sourced from the provision, and the provisions of the act
+ *     that use the defined terms
+ *   - eu_references tied to the provision (EU obligations it implements)
+ *   - case law citing it (cross_references from case law documents, with the
+ *     court and date from case_law when that table exists)
+ *
+ * Affected provisions are ranked by a score in [0, 1]: a direct citation
+ * scores 1, a citation n links away 1/n, use of a defined term 0.6; scores
+ * from several reasons are combined as independent probabilities.
+ * Sources whose table is missing from the database are listed in
+ * unavailable_sources.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import { detectCapabilities } from '../capabilities.js';
+import type { CrossReferenceType, ProvisionRef } from '../types/index.js';
+import { createDocumentEliLookup } from '../utils/eli.js';
+import { sanitizeFtsInput } from '../utils/fts-query.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { resolveExistingStatuteId } from '../utils/statute-id.js';
+import { getCrossReferences } from './get-cross-references.js';
+
+export interface AnalyzeImpactInput {
+  document_id: string;
+  provision_ref: string;
+  /** Citation links to follow away from the provision (default 2) */
+  depth?: number;
+  limit?: number;
+}
+
+export type ImpactSource = 'cross_references' | 'definitions' | 'eu_references' | 'case_law';
+
+export interface ImpactReason {
+  source: 'cross_reference' | 'definition';
+  /** Citation links between this provision and the analyzed one */
+  depth?: number;
+  ref_type?: CrossReferenceType;
+  /** The provision this one cites (cross_reference) */
+  via?: ProvisionRef;
+  /** The defined term this provision uses (definition) */
+  term?: string;
+}
+
+export interface AffectedProvision {
+  document_id: string;
+  document_title: string;
+  document_eli: string | null;
+  provision_ref: string;
+  score: number;
+  reasons: ImpactReason[];
+}
+
+export interface AffectedDocument {
+  document_id: string;
+  document_title: string;
+  document_eli: string | null;
+  affected_provisions: number;
+  /** Highest score among its affected provisions */
+  max_score: number;
+}
+
+export interface AffectedDefinition {
+  document_id: string;
+  term: string;
+  definition: string;
+  source_provision: string;
+  /** Provisions of the act using the term */
+  used_in: string[];
+}
+
+export interface AffectedEUReference {
+  eu_document_id: string;
+  eu_article: string | null;
+  reference_type: string;
+  is_primary_implementation: boolean;
+  implementation_status: string | null;
+}
+
+export interface AffectedCaseLaw {
+  document_id: string;
+  title: string;
+  court: string | null;
+  case_number: string | null;
+  decision_date: string | null;
+}
+
+export interface ImpactAnalysisResult {
+  document_id: string;
+  document_title: string;
+  document_eli: string | null;
+  provision_ref: string;
+  /** Ranked, highest score first */
+  affected_provisions: AffectedProvision[];
+  affected_documents: AffectedDocument[];
+  definitions: AffectedDefinition[];
+  eu_references: AffectedEUReference[];
+  case_law: AffectedCaseLaw[];
+  unavailable_sources: ImpactSource[];
+  /** Whether affected_provisions was cut at `limit` or the citation walk hit its link limit */
+  truncated: boolean;
+}
+
+interface ProvisionRow {
+  id: number;
+  document_id: string;
+  provision_ref: string;
+  section: string;
+}
+
+interface DefinitionRow {
+  document_id: string;
+  term: string;
+  definition: string;
+  source_provision: string;
+}
+
+interface EUReferenceRow {
+  eu_document_id: string;
+  eu_article: string | null;
+  reference_type: string;
+  is_primary_implementation: number;
+  implementation_status: string | null;
+}
+
+const DEFAULT_DEPTH = 2;
+const MAX_DEPTH = 3;
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+const MAX_TERM_USES = 50;
+
+const REF_TYPE_WEIGHTS: Record<CrossReferenceType, number> = {
+  references: 1,
+  amended_by: 1,
+  implements: 1,
+  see_also: 0.5,
+};
+const DEFINITION_WEIGHT = 0.6;
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/** "art. 5", "Article 5", "artikel 5" and "5" all name section 5. */
+function provisionSection(value: string): string {
+  return value.trim().toLowerCase().replace(/^art(?:icle|ikel)?\.?\s*/, '').replace(/^(\d+)er$/, '$1');
+}
+
+function hasTable(db: Database, table: string): boolean {
+  return db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?").get(table) !== undefined;
+}
+
+export async function analyzeImpact(
+  db: Database,
+  input: AnalyzeImpactInput
+): Promise<ToolResponse<ImpactAnalysisResult>> {
+  if (!input.document_id) {
+    throw new Error('document_id is required');
+  }
+  if (!input.provision_ref?.trim()) {
+    throw new Error('provision_ref is required');
+  }
+  const depth = Math.min(Math.max(Math.trunc(input.depth ?? DEFAULT_DEPTH), 1), MAX_DEPTH);
+  const limit = Math.min(Math.max(input.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+  const resolvedId = resolveExistingStatuteId(db, input.document_id);
+  if (!resolvedId) {
+    throw new Error(`Document "${input.document_id}" not found in database`);
+  }
+
+  const provision = db.prepare(
+    'SELECT id, document_id, provision_ref, section FROM legal_provisions WHERE document_id = ? AND (provision_ref = ? OR section = ?) LIMIT 1'
+  ).get(resolvedId, input.provision_ref.trim(), input.provision_ref.trim()) as ProvisionRow | undefined;
+  if (!provision) {
+    throw new Error(`Provision ${input.provision_ref} not found in ${resolvedId}`);
+  }
+
+  // The same article in the other language versions of the act, by section ("art1er" is "art1" in Dutch)
+  const versions = db.prepare(`
+    SELECT lp.id, lp.document_id, lp.provision_ref, lp.section
+    FROM legal_documents doc
+    JOIN legal_documents other ON other.id = doc.id OR (doc.numac IS NOT NULL AND other.numac = doc.numac)
+    JOIN legal_provisions lp ON lp.document_id = other.id AND lp.section = ?
+    WHERE doc.id = ?
+    ORDER BY lp.document_id
+  `).all(provision.section, resolvedId) as ProvisionRow[];
+  const isAnalyzed = (documentId: string, ref: string) =>
+    versions.some(version => version.document_id === documentId && version.provision_ref === ref);
+
+  const capabilities = detectCapabilities(db);
+  const unavailable: ImpactSource[] = [];
+  const affected = new Map<string, { ref: ProvisionRef; reasons: ImpactReason[] }>();
+  const addReason = (ref: ProvisionRef, reason: ImpactReason) => {
+    if (isAnalyzed(ref.document_id, ref.provision_ref)) return;
+    const key = `${ref.document_id}|${ref.provision_ref}`;
+    const entry = affected.get(key) ?? { ref, reasons: [] };
+    entry.reasons.push(reason);
+    affected.set(key, entry);
+  };
+
+  // Inbound citations; those made by case law are reported separately
+  let walkTruncated = false;
+  const citingCases = new Set<string>();
+  if (capabilities.has('cross_references')) {
+    const graph = await getCrossReferences(db, {
+      document_id: resolvedId,
+      provision_ref: provision.provision_ref,
+      direction: 'cited_by',
+      depth,
+    });
+    walkTruncated = graph.results.truncated;
+    const caseDocuments = new Set(
+      (db.prepare("SELECT id FROM legal_documents WHERE type = 'case_law'").all() as { id: string }[]).map(row => row.id)
+    );
+
+    for (const link of graph.results.cited_by) {
+      if (caseDocuments.has(link.source.document_id)) {
+        if (link.depth === 1) citingCases.add(link.source.document_id);
+        continue;
+      }
+      if (!link.source.provision_ref) continue;
+      addReason(
+        { document_id: link.source.document_id, provision_ref: link.source.provision_ref },
+        {
+          source: 'cross_reference',
+          depth: link.depth,
+          ref_type: link.ref_type,
+          via: { document_id: link.target.document_id, provision_ref: link.target.provision_ref ?? '' },
+        }
+      );
+    }
+  } else {
+    unavailable.push('cross_references', 'case_law');
+  }
+
+  // Terms defined by the provision, and the provisions of the act that use them
+  const definitions: AffectedDefinition[] = [];
+  if (hasTable(db, 'definitions')) {
+    const documentIds = versions.map(version => version.document_id);
+    const rows = db.prepare(`
+      SELECT document_id, term, definition, source_provision
+      FROM definitions
+      WHERE document_id IN (${documentIds.map(() => '?').join(', ')}) AND source_provision IS NOT NULL
+      ORDER BY document_id, term
+    `).all(...documentIds) as DefinitionRow[];
+
+    for (const row of rows) {
+      const version = versions.find(candidate => candidate.document_id === row.document_id);
+      if (!version || provisionSection(row.source_provision) !== provisionSection(version.section)) continue;
+
+      const term = sanitizeFtsInput(row.term);
+      const uses = term
+        ? db.prepare(`
+            SELECT lp.provision_ref
+            FROM provisions_fts
+            JOIN legal_provisions lp ON lp.id = provisions_fts.rowid
+            WHERE provisions_fts MATCH ? AND lp.document_id = ?
+            ORDER BY lp.sort_key, lp.id
+            LIMIT ?
+          `).all(`"${term}"`, row.document_id, MAX_TERM_USES) as { provision_ref: string }[]
+        : [];
+      const usedIn = uses.map(use => use.provision_ref).filter(ref => ref !== version.provision_ref);
+
+      for (const ref of usedIn) {
+        addReason({ document_id: row.document_id, provision_ref: ref }, { source: 'definition', term: row.term });
+      }
+      definitions.push({ ...row, used_in: usedIn });
+    }
+  } else {
+    unavailable.push('definitions');
+  }
+
+  // EU obligations implemented by the provision
+  const euReferences: AffectedEUReference[] = [];
+  if (capabilities.has('eu_references')) {
+    const rows = db.prepare(`
+      SELECT eu_document_id, eu_article, reference_type, is_primary_implementation, implementation_status
+      FROM eu_references
+      WHERE provision_id IN (${versions.map(() => '?').join(', ')})
+      ORDER BY is_primary_implementation DESC, eu_document_id, eu_article
+    `).all(...versions.map(version => version.id)) as EUReferenceRow[];
+    euReferences.push(...rows.map(row => ({ ...row, is_primary_implementation: row.is_primary_implementation === 1 })));
+  } else {
+    unavailable.push('eu_references');
+  }
+
+  // Court decisions citing the provision
+  const caseLaw: AffectedCaseLaw[] = [];
+  for (const documentId of citingCases) {
+    const doc = db.prepare('SELECT title, issued_date FROM legal_documents WHERE id = ?')
+      .get(documentId) as { title: string; issued_date: string | null };
+    const decision = capabilities.has('case_law')
+      ? db.prepare('SELECT court, case_number, decision_date FROM case_law WHERE document_id = ?').get(documentId) as
+        { court: string | null; case_number: string | null; decision_date: string | null } | undefined
+      : undefined;
+    caseLaw.push({
+      document_id: documentId,
+      title: doc.title,
+      court: decision?.court ?? null,
+      case_number: decision?.case_number ?? null,
+      decision_date: decision?.decision_date ?? doc.issued_date,
+    });
+  }
+  caseLaw.sort((a, b) => (b.decision_date ?? '').localeCompare(a.decision_date ?? ''));
+
+  // Rank
+  const eliOf = createDocumentEliLookup(db);
+  const titleOf = (documentId: string) =>
+    (db.prepare('SELECT title FROM legal_documents WHERE id = ?').get(documentId) as { title: string } | undefined)?.title
+    ?? documentId;
+
+  const ranked = [...affected.values()]
+    .map(({ ref, reasons }): AffectedProvision => {
+      const miss = reasons.reduce((product, reason) => {
+        const weight = reason.source === 'definition'
+          ? DEFINITION_WEIGHT
+          : REF_TYPE_WEIGHTS[reason.ref_type ?? 'references'] / (reason.depth ?? 1);
+        return product * (1 - weight);
+      }, 1);
+      return {
+        document_id: ref.document_id,
+        document_title: titleOf(ref.document_id),
+        document_eli: eliOf(ref.document_id),
+        provision_ref: ref.provision_ref,
+        score: round(1 - miss),
+        reasons,
+      };
+    })
+    .sort((a, b) =>
+      b.score - a.score
+      || a.document_id.localeCompare(b.document_id)
+      || a.provision_ref.localeCompare(b.provision_ref, undefined, { numeric: true })
+    );
+
+  const documents = new Map<string, AffectedDocument>();
+  for (const entry of ranked) {
+    const summary = documents.get(entry.document_id) ?? {
+      document_id: entry.document_id,
+      document_title: entry.document_title,
+      document_eli: entry.document_eli,
+      affected_provisions: 0,
+      max_score: 0,
+    };
+    summary.affected_provisions++;
+    summary.max_score = Math.max(summary.max_score, entry.score);
+    documents.set(entry.document_id, summary);
+  }
+
+  return {
+    results: {
+      document_id: resolvedId,
+      document_title: titleOf(resolvedId),
+      document_eli: eliOf(resolvedId),
+      provision_ref: provision.provision_ref,
+      affected_provisions: ranked.slice(0, limit),
+      affected_documents: [...documents.values()].sort((a, b) =>
+        b.max_score - a.max_score || b.affected_provisions - a.affected_provisions
+      ),
+      definitions,
+      eu_references: euReferences,
+      case_law: caseLaw,
+      unavailable_sources: unavailable,
+      truncated: walkTruncated || ranked.length > limit,
+    },
+    _metadata: generateResponseMetadata(db),
+  };
+}
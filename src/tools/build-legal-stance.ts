@@ -5,7 +5,11 @@
 import type { Database } from '@ansvar/mcp-sqlite';
 import { buildFtsQueryVariants, sanitizeFtsInput } from '../utils/fts-query.js';
 import { normalizeAsOfDate } from '../utils/as-of-date.js';
+import { createDocumentEliLookup } from '../utils/eli.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { resolveExistingStatuteId } from '../utils/statute-id.js';
+import { stemSnippet } from '../utils/stemmer.js';
+import { detectCapabilities } from '../capabilities.js';
 
 export interface BuildLegalStanceInput {
   query: string;
@@ -19,12 +23,17 @@ export interface BuildLegalStanceInput {
 interface ProvisionHit {
   document_id: string;
   document_title: string;
+  /** Canonical ELI URI of the act on Justel */
+  document_eli: string | null;
   provision_ref: string;
   title: string | null;
   snippet: string;
   relevance: number;
 }
 
+type ProvisionMatch = Omit<ProvisionHit, 'document_eli'>;
+type ProvisionRow = ProvisionMatch & { language: string | null };
+
 export interface LegalStanceResult {
   query: string;
   provisions: ProvisionHit[];
@@ -49,73 +58,96 @@ export async function buildLegalStance(
   const limit = Math.min(Math.max(input.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
   const queryVariants = buildFtsQueryVariants(sanitizeFtsInput(input.query));
   const asOfDate = normalizeAsOfDate(input.as_of_date);
+  const documentId = input.document_id
+    ? resolveExistingStatuteId(db, input.document_id) ?? input.document_id
+    : undefined;
+
+  const stems = new Set(queryVariants.stems ?? []);
+
+  // Stemmed indexes hold no original text, so their snippets are built here.
+  const toHits = (rows: ProvisionRow[], stemmed: boolean): ProvisionMatch[] =>
+    rows.map(({ language, ...hit }) =>
+      stemmed ? { ...hit, snippet: stemSnippet(hit.snippet, language, stems) } : hit
+    );
 
-  const runCurrentProvisionQuery = (ftsQuery: string): ProvisionHit[] => {
+  const runCurrentProvisionQuery = (ftsQuery: string, stemmed = false): ProvisionMatch[] => {
+    const fts = stemmed ? 'provisions_stem_fts' : 'provisions_fts';
     let provSql = `
       SELECT
         lp.document_id,
         ld.title as document_title,
         lp.provision_ref,
         lp.title,
-        snippet(provisions_fts, 0, '>>>', '<<<', '...', 32) as snippet,
-        bm25(provisions_fts) as relevance
-      FROM provisions_fts
-      JOIN legal_provisions lp ON lp.id = provisions_fts.rowid
+        lp.language,
+        ${stemmed ? 'lp.content' : `snippet(provisions_fts, 0, '>>>', '<<<', '...', 32)`} as snippet,
+        bm25(${fts}) as relevance
+      FROM ${fts}
+      JOIN legal_provisions lp ON lp.id = ${fts}.rowid
       JOIN legal_documents ld ON ld.id = lp.document_id
-      WHERE provisions_fts MATCH ?
+      WHERE ${fts} MATCH ?
     `;
     const provParams: (string | number)[] = [ftsQuery];
 
-    if (input.document_id) {
+    if (documentId) {
       provSql += ` AND lp.document_id = ?`;
-      provParams.push(input.document_id);
+      provParams.push(documentId);
     }
 
     provSql += ` ORDER BY relevance LIMIT ?`;
     provParams.push(limit);
 
-    return db.prepare(provSql).all(...provParams) as ProvisionHit[];
+    return toHits(db.prepare(provSql).all(...provParams) as ProvisionRow[], stemmed);
   };
 
-  const runHistoricalProvisionQuery = (ftsQuery: string): ProvisionHit[] => {
+  const runHistoricalProvisionQuery = (ftsQuery: string, stemmed = false): ProvisionMatch[] => {
     if (!asOfDate) {
       return [];
     }
 
+    const fts = stemmed ? 'provision_versions_stem_fts' : 'provision_versions_fts';
     let provSql = `
-      WITH ranked_versions AS (
+      WITH version_hits AS (
         SELECT
+          lpv.id,
           lpv.document_id,
           ld.title as document_title,
           lpv.provision_ref,
           lpv.title,
-          substr(lpv.content, 1, 320) as snippet,
-          0.0 as relevance,
-          row_number() OVER (
-            PARTITION BY lpv.document_id, lpv.provision_ref
-            ORDER BY COALESCE(lpv.valid_from, '0000-01-01') DESC, lpv.id DESC
-          ) as version_rank
-        FROM provision_versions_fts
-        JOIN legal_provision_versions lpv ON lpv.id = provision_versions_fts.rowid
+          lpv.language,
+          ${stemmed ? 'lpv.content' : `snippet(provision_versions_fts, 0, '>>>', '<<<', '...', 32)`} as snippet,
+          bm25(${fts}) as relevance,
+          lpv.valid_from
+        FROM ${fts}
+        JOIN legal_provision_versions lpv ON lpv.id = ${fts}.rowid
         JOIN legal_documents ld ON ld.id = lpv.document_id
-        WHERE provision_versions_fts MATCH ?
+        WHERE ${fts} MATCH ?
           AND (lpv.valid_from IS NULL OR lpv.valid_from <= ?)
           AND (lpv.valid_to IS NULL OR lpv.valid_to > ?)
     `;
     const provParams: (string | number)[] = [ftsQuery, asOfDate, asOfDate];
 
-    if (input.document_id) {
+    if (documentId) {
       provSql += ` AND lpv.document_id = ?`;
-      provParams.push(input.document_id);
+      provParams.push(documentId);
     }
 
     provSql += `
+      ),
+      ranked_versions AS (
+        SELECT
+          *,
+          row_number() OVER (
+            PARTITION BY document_id, provision_ref
+            ORDER BY COALESCE(valid_from, '0000-01-01') DESC, id DESC
+          ) as version_rank
+        FROM version_hits
       )
       SELECT
         document_id,
         document_title,
         provision_ref,
         title,
+        language,
         snippet,
         relevance
       FROM ranked_versions
@@ -125,26 +157,36 @@ export async function buildLegalStance(
     `;
     provParams.push(limit);
 
-    return db.prepare(provSql).all(...provParams) as ProvisionHit[];
+    return toHits(db.prepare(provSql).all(...provParams) as ProvisionRow[], stemmed);
   };
 
-  const runProvisionQuery = (ftsQuery: string): ProvisionHit[] => {
+  const runProvisionQuery = (ftsQuery: string, stemmed = false): ProvisionMatch[] => {
     if (!asOfDate) {
-      return runCurrentProvisionQuery(ftsQuery);
+      return runCurrentProvisionQuery(ftsQuery, stemmed);
     }
 
-    const historicalResults = runHistoricalProvisionQuery(ftsQuery);
+    const historicalResults = runHistoricalProvisionQuery(ftsQuery, stemmed);
     if (historicalResults.length > 0) {
       return historicalResults;
     }
 
-    return runCurrentProvisionQuery(ftsQuery);
+    return runCurrentProvisionQuery(ftsQuery, stemmed);
   };
 
-  let provisions = runProvisionQuery(queryVariants.primary);
-  if (provisions.length === 0 && queryVariants.fallback) {
-    provisions = runProvisionQuery(queryVariants.fallback);
+  // Exact terms first, then stemmed terms (other inflections), then any term.
+  const stemmedQuery = queryVariants.stemmed && detectCapabilities(db).has('stemmed_search')
+    ? queryVariants.stemmed
+    : undefined;
+  let hits = runProvisionQuery(queryVariants.primary);
+  if (hits.length === 0 && stemmedQuery) {
+    hits = runProvisionQuery(stemmedQuery, true);
   }
+  if (hits.length === 0 && queryVariants.fallback) {
+    hits = runProvisionQuery(queryVariants.fallback);
+  }
+
+  const eliOf = createDocumentEliLookup(db);
+  const provisions = hits.map(hit => ({ ...hit, document_eli: eliOf(hit.document_id) }));
 
   return {
     results: {
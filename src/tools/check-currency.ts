@@ -4,7 +4,9 @@
 
 import type { Database } from '@ansvar/mcp-sqlite';
 import { normalizeAsOfDate } from '../utils/as-of-date.js';
+import { documentEli } from '../utils/eli.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { resolveExistingStatuteId } from '../utils/statute-id.js';
 
 export interface CheckCurrencyInput {
   document_id: string;
@@ -12,18 +14,32 @@ export interface CheckCurrencyInput {
   as_of_date?: string;
 }
 
+type CurrencyStatus = 'in_force' | 'repealed' | 'not_yet_in_force';
+
 export interface CurrencyResult {
   document_id: string;
   title: string;
+  /** Canonical ELI URI of the act on Justel */
+  eli: string | null;
   status: string;
   type: string;
   issued_date: string | null;
   in_force_date: string | null;
+  repealed_date: string | null;
+  repealed_by: string | null;
   is_current: boolean;
   as_of_date?: string;
-  status_as_of?: 'in_force' | 'repealed' | 'not_yet_in_force';
+  /** Status on as_of_date; the article's own status when provision_ref is given. */
+  status_as_of?: CurrencyStatus;
   is_in_force_as_of?: boolean;
+  /** Document status on as_of_date, reported alongside an article's status. */
+  document_status_as_of?: CurrencyStatus;
   provision_exists?: boolean;
+  /** The article's status today. */
+  provision_status?: CurrencyStatus;
+  provision_in_force_date?: string | null;
+  provision_repealed_date?: string | null;
+  provision_in_force_pending?: boolean;
   warnings: string[];
 }
 
@@ -34,6 +50,44 @@ interface DocumentRow {
   type: string;
   issued_date: string | null;
   in_force_date: string | null;
+  repealed_date: string | null;
+  repealed_by: string | null;
+  url: string | null;
+  numac: string | null;
+  language: string | null;
+}
+
+interface ProvisionStatusRow {
+  provision_ref: string;
+  in_force_date: string | null;
+  repealed_date: string | null;
+  in_force_pending: number;
+}
+
+function documentStatusAsOf(doc: DocumentRow, date: string): CurrencyStatus {
+  if (doc.in_force_date && doc.in_force_date > date) {
+    return 'not_yet_in_force';
+  }
+  const repealed = doc.repealed_date ? doc.repealed_date <= date : doc.status === 'repealed';
+  return repealed ? 'repealed' : 'in_force';
+}
+
+/**
+ * An article follows its own entry-into-force and repeal dates, falling back
+ * to the document's in-force date; a repeal of the whole act repeals it too.
+ */
+function provisionStatusAsOf(doc: DocumentRow, prov: ProvisionStatusRow, date: string): CurrencyStatus {
+  if (documentStatusAsOf(doc, date) === 'repealed') {
+    return 'repealed';
+  }
+  if (prov.repealed_date && prov.repealed_date <= date) {
+    return 'repealed';
+  }
+  if (prov.in_force_pending) {
+    return 'not_yet_in_force';
+  }
+  const start = prov.in_force_date ?? doc.in_force_date;
+  return start && start > date ? 'not_yet_in_force' : 'in_force';
 }
 
 export async function checkCurrency(
@@ -44,12 +98,14 @@ export async function checkCurrency(
     throw new Error('document_id is required');
   }
 
-  const doc = db.prepare(`
-    SELECT id, title, status, type, issued_date, in_force_date
-    FROM legal_documents
-    WHERE id = ? OR title LIKE ?
-    LIMIT 1
-  `).get(input.document_id, `%${input.document_id}%`) as DocumentRow | undefined;
+  const resolvedId = resolveExistingStatuteId(db, input.document_id);
+  const doc = resolvedId
+    ? db.prepare(`
+        SELECT id, title, status, type, issued_date, in_force_date, repealed_date, repealed_by, url, numac, language
+        FROM legal_documents
+        WHERE id = ?
+      `).get(resolvedId) as DocumentRow | undefined
+    : undefined;
 
   if (!doc) {
     return {
@@ -66,21 +122,22 @@ export async function checkCurrency(
     warnings.push('This statute has been repealed');
   }
 
-  let statusAsOf: 'in_force' | 'repealed' | 'not_yet_in_force' | undefined;
+  let statusAsOf: CurrencyStatus | undefined;
   let isInForceAsOf: boolean | undefined;
   if (asOfDate) {
-    const started = !doc.in_force_date || doc.in_force_date <= asOfDate;
-    statusAsOf = !started ? 'not_yet_in_force' : doc.status === 'repealed' ? 'repealed' : 'in_force';
+    statusAsOf = documentStatusAsOf(doc, asOfDate);
     isInForceAsOf = statusAsOf === 'in_force';
 
-    if (doc.status === 'repealed') {
+    if (doc.status === 'repealed' && !doc.repealed_date) {
       warnings.push(
-        'Historical repeal date is not tracked in this dataset; status_as_of uses current repeal status.'
+        'Repeal date is unknown for this statute; status_as_of uses current repeal status.'
       );
     }
   }
 
   let provisionExists: boolean | undefined;
+  let documentStatus: CurrencyStatus | undefined;
+  let provisionFields: Partial<CurrencyResult> = {};
   if (input.provision_ref) {
     const prov = asOfDate
       ? db.prepare(
@@ -92,35 +149,61 @@ export async function checkCurrency(
              AND (valid_to IS NULL OR valid_to > ?)
            LIMIT 1`
         ).get(doc.id, input.provision_ref, input.provision_ref, asOfDate, asOfDate)
-      : db.prepare(
-          'SELECT 1 FROM legal_provisions WHERE document_id = ? AND (provision_ref = ? OR section = ?)'
-        ).get(doc.id, input.provision_ref, input.provision_ref);
+      : undefined;
 
-    const fallbackProv = (!prov && asOfDate)
-      ? db.prepare(
-          'SELECT 1 FROM legal_provisions WHERE document_id = ? AND (provision_ref = ? OR section = ?)'
-        ).get(doc.id, input.provision_ref, input.provision_ref)
-      : prov;
-    provisionExists = !!fallbackProv;
+    const current = db.prepare(
+      `SELECT provision_ref, in_force_date, repealed_date, in_force_pending
+       FROM legal_provisions
+       WHERE document_id = ? AND (provision_ref = ? OR section = ?)`
+    ).get(doc.id, input.provision_ref, input.provision_ref) as ProvisionStatusRow | undefined;
+    provisionExists = !!(prov || current);
 
     if (!provisionExists) {
       warnings.push(`Provision "${input.provision_ref}" not found in this document`);
     }
+
+    if (current) {
+      const today = new Date().toISOString().slice(0, 10);
+      const provisionStatus = provisionStatusAsOf(doc, current, today);
+      provisionFields = {
+        provision_status: provisionStatus,
+        provision_in_force_date: current.in_force_date,
+        provision_repealed_date: current.repealed_date,
+        provision_in_force_pending: current.in_force_pending === 1,
+      };
+
+      if (current.in_force_pending) {
+        warnings.push(`Provision "${input.provision_ref}" has not been brought into force (entry into force undetermined)`);
+      } else if (provisionStatus === 'repealed' && doc.status !== 'repealed') {
+        warnings.push(`Provision "${input.provision_ref}" has been repealed`);
+      }
+
+      if (asOfDate) {
+        documentStatus = statusAsOf;
+        statusAsOf = provisionStatusAsOf(doc, current, asOfDate);
+        isInForceAsOf = statusAsOf === 'in_force';
+      }
+    }
   }
 
   return {
     results: {
       document_id: doc.id,
       title: doc.title,
+      eli: documentEli(doc),
       status: doc.status,
       type: doc.type,
       issued_date: doc.issued_date,
       in_force_date: doc.in_force_date,
+      repealed_date: doc.repealed_date,
+      repealed_by: doc.repealed_by,
       is_current: isCurrent,
       as_of_date: asOfDate,
       status_as_of: statusAsOf,
       is_in_force_as_of: isInForceAsOf,
+      document_status_as_of: documentStatus,
       provision_exists: provisionExists,
+      ...provisionFields,
       warnings,
     },
     _metadata: generateResponseMetadata(db)
@@ -0,0 +1,214 @@
+/**
+ * compare_provision_versions — Structured diff of a provision or a whole
+ * statute between two dates.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import { normalizeAsOfDate } from '../utils/as-of-date.js';
+import { lookupDocumentEli } from '../utils/eli.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { resolveExistingStatuteId } from '../utils/statute-id.js';
+import { compareArticleNumbers } from '../utils/article-order.js';
+import { diffStats, diffWords, type DiffSegment, type DiffStats } from '../utils/text-diff.js';
+import {
+  findCurrentProvision,
+  findProvisionAsOf,
+  listCurrentProvisions,
+  listProvisionsAsOf,
+  type ProvisionRow,
+} from './get-provision.js';
+
+export interface CompareProvisionVersionsInput {
+  document_id: string;
+  /** Omit to compare every article of the statute. */
+  provision_ref?: string;
+  date_a: string;
+  date_b: string;
+}
+
+export type ProvisionChangeType = 'added' | 'repealed' | 'modified' | 'unchanged';
+
+export interface ComparedVersion {
+  valid_from: string | null;
+  valid_to: string | null;
+  content: string;
+}
+
+export interface ProvisionComparison {
+  provision_ref: string;
+  section: string;
+  title: string | null;
+  change_type: ProvisionChangeType;
+  /** Text in force on date_a; null if the provision was not in force. */
+  version_a: ComparedVersion | null;
+  /** Text in force on date_b; null if the provision was not in force. */
+  version_b: ComparedVersion | null;
+  changes: DiffSegment[];
+  change_stats: DiffStats;
+}
+
+export interface CompareProvisionVersionsResult {
+  document_id: string;
+  document_title: string;
+  /** Canonical ELI URI of the act on Justel */
+  document_eli: string | null;
+  date_a: string;
+  date_b: string;
+  /** Single-provision comparison, or only the changed articles of the statute. */
+  provisions: ProvisionComparison[];
+  summary: Record<ProvisionChangeType, number>;
+  note?: string;
+}
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function toComparedVersion(row: ProvisionRow | undefined): ComparedVersion | null {
+  return row ? { valid_from: row.valid_from, valid_to: row.valid_to, content: row.content } : null;
+}
+
+function compareRows(a: ProvisionRow | undefined, b: ProvisionRow | undefined): ProvisionComparison {
+  const reference = (b ?? a) as ProvisionRow;
+  const changeType: ProvisionChangeType = !a
+    ? 'added'
+    : !b
+      ? 'repealed'
+      : normalizeWhitespace(a.content) === normalizeWhitespace(b.content) ? 'unchanged' : 'modified';
+  const changes = diffWords(a?.content ?? '', b?.content ?? '');
+
+  return {
+    provision_ref: reference.provision_ref,
+    section: reference.section,
+    title: reference.title,
+    change_type: changeType,
+    version_a: toComparedVersion(a),
+    version_b: toComparedVersion(b),
+    changes,
+    change_stats: diffStats(changes),
+  };
+}
+
+function compareProvision(
+  db: Database,
+  documentId: string,
+  provisionRef: string,
+  dateA: string,
+  dateB: string
+): { comparison: ProvisionComparison | null; historyTracked: boolean } {
+  const versioned = db.prepare(`
+    SELECT 1 FROM legal_provision_versions
+    WHERE document_id = ? AND (provision_ref = ? OR section = ?)
+    LIMIT 1
+  `).get(documentId, provisionRef, provisionRef);
+
+  if (!versioned) {
+    const current = findCurrentProvision(db, documentId, provisionRef);
+    if (!current) {
+      throw new Error(`Provision ${provisionRef} not found in ${documentId}`);
+    }
+    return { comparison: compareRows(current, current), historyTracked: false };
+  }
+
+  const a = findProvisionAsOf(db, documentId, provisionRef, dateA);
+  const b = findProvisionAsOf(db, documentId, provisionRef, dateB);
+  return { comparison: a || b ? compareRows(a, b) : null, historyTracked: true };
+}
+
+/**
+ * Diff every article of a statute. Provisions without recorded versions are
+ * treated as unchanged on both dates, matching the implicit open-ended
+ * version the database builder assumes for them.
+ */
+function compareStatute(
+  db: Database,
+  documentId: string,
+  dateA: string,
+  dateB: string
+): ProvisionComparison[] {
+  const versionedRefs = new Set(
+    (db.prepare(
+      'SELECT DISTINCT provision_ref FROM legal_provision_versions WHERE document_id = ?'
+    ).all(documentId) as { provision_ref: string }[]).map(row => row.provision_ref)
+  );
+
+  const rowsA = new Map(listProvisionsAsOf(db, documentId, dateA).map(row => [row.provision_ref, row]));
+  const rowsB = new Map(listProvisionsAsOf(db, documentId, dateB).map(row => [row.provision_ref, row]));
+  for (const row of listCurrentProvisions(db, documentId)) {
+    if (!versionedRefs.has(row.provision_ref)) {
+      rowsA.set(row.provision_ref, row);
+      rowsB.set(row.provision_ref, row);
+    }
+  }
+
+  const sectionOf = (ref: string) => (rowsB.get(ref) ?? rowsA.get(ref))?.section ?? ref;
+  const refs = [...new Set([...rowsA.keys(), ...rowsB.keys()])]
+    .sort((x, y) => compareArticleNumbers(sectionOf(x), sectionOf(y)));
+
+  return refs.map(ref => compareRows(rowsA.get(ref), rowsB.get(ref)));
+}
+
+export async function compareProvisionVersions(
+  db: Database,
+  input: CompareProvisionVersionsInput
+): Promise<ToolResponse<CompareProvisionVersionsResult>> {
+  if (!input.document_id) {
+    throw new Error('document_id is required');
+  }
+
+  const dateA = normalizeAsOfDate(input.date_a, 'date_a');
+  const dateB = normalizeAsOfDate(input.date_b, 'date_b');
+  if (!dateA || !dateB) {
+    throw new Error('date_a and date_b are required');
+  }
+
+  const resolvedId = resolveExistingStatuteId(db, input.document_id);
+  if (!resolvedId) {
+    throw new Error(`Document "${input.document_id}" not found in database`);
+  }
+
+  const doc = db.prepare(
+    'SELECT id, title FROM legal_documents WHERE id = ?'
+  ).get(resolvedId) as { id: string; title: string };
+
+  let compared: ProvisionComparison[];
+  let note: string | undefined;
+
+  const provisionRef = input.provision_ref?.trim();
+  if (provisionRef) {
+    const { comparison, historyTracked } = compareProvision(db, resolvedId, provisionRef, dateA, dateB);
+    compared = comparison ? [comparison] : [];
+    if (!historyTracked) {
+      note = 'No historical versions are recorded for this provision; the current text was used for both dates.';
+    } else if (!comparison) {
+      note = `Provision ${provisionRef} was not in force on either date.`;
+    }
+  } else {
+    compared = compareStatute(db, resolvedId, dateA, dateB);
+    if (compared.length === 0) {
+      note = 'No provisions were in force on either date.';
+    }
+  }
+
+  const summary: Record<ProvisionChangeType, number> = { added: 0, repealed: 0, modified: 0, unchanged: 0 };
+  for (const comparison of compared) {
+    summary[comparison.change_type]++;
+  }
+  const provisions = provisionRef
+    ? compared
+    : compared.filter(comparison => comparison.change_type !== 'unchanged');
+
+  return {
+    results: {
+      document_id: resolvedId,
+      document_title: doc.title,
+      document_eli: lookupDocumentEli(db, resolvedId),
+      date_a: dateA,
+      date_b: dateB,
+      provisions,
+      summary,
+      ...(note ? { note } : {}),
+    },
+    _metadata: generateResponseMetadata(db),
+  };
+}
@@ -0,0 +1,127 @@
+/**
+ * extract_citations — Find and check every legal reference in free text.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import { extractCitations, type ExtractedEUReference, type ExtractedReference } from '../citation/extractor.js';
+import { validateCitation } from '../citation/validator.js';
+import { detectCapabilities } from '../capabilities.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export interface ExtractCitationsInput {
+  text: string;
+}
+
+const MAX_TEXT_LENGTH = 200_000;
+
+/**
+ * existing: the statute (and article) or EU act is in the database and in force.
+ * repealed: it is in the database but repealed.
+ * unknown: it could not be found; treat as a possible error or hallucination.
+ */
+export type CitationStatus = 'existing' | 'repealed' | 'unknown';
+
+export interface ExtractedCitationResult {
+  kind: 'statute' | 'eu';
+  /** Matched text, text.slice(start, end) */
+  text: string;
+  start: number;
+  end: number;
+  status: CitationStatus;
+  /** Citation as checked, e.g. "Loi du 8 décembre 1992, art. 5" or "regulation:2016/679" */
+  citation: string;
+  document_id?: string;
+  document_title?: string;
+  /** Canonical ELI URI of the Belgian act */
+  document_eli?: string;
+  article?: string;
+  pinpoint?: string;
+  warnings: string[];
+}
+
+export interface ExtractCitationsResult {
+  citations: ExtractedCitationResult[];
+  counts: Record<CitationStatus, number>;
+}
+
+interface EUDocumentRow {
+  id: string;
+  title: string | null;
+  in_force: number | null;
+}
+
+function checkEUReference(db: Database, reference: ExtractedEUReference, hasEUTables: boolean): ExtractedCitationResult {
+  const citation = `${reference.type}:${reference.year}/${reference.number}`;
+  const base = { kind: 'eu' as const, text: reference.text, start: reference.start, end: reference.end, citation };
+
+  if (!hasEUTables) {
+    return { ...base, status: 'unknown', warnings: ['EU documents are not available in this database'] };
+  }
+
+  const row = db.prepare(
+    'SELECT id, title, in_force FROM eu_documents WHERE type = ? AND year = ? AND number = ? LIMIT 1'
+  ).get(reference.type, reference.year, reference.number) as EUDocumentRow | undefined;
+
+  if (!row) {
+    return { ...base, status: 'unknown', warnings: [`EU ${reference.type} ${reference.year}/${reference.number} not found in database`] };
+  }
+
+  const repealed = row.in_force === 0;
+  return {
+    ...base,
+    status: repealed ? 'repealed' : 'existing',
+    document_id: row.id,
+    document_title: row.title ?? undefined,
+    warnings: repealed ? [`This EU ${reference.type} is no longer in force`] : [],
+  };
+}
+
+function checkReference(db: Database, reference: ExtractedReference, hasEUTables: boolean): ExtractedCitationResult {
+  if (reference.kind === 'eu') {
+    return checkEUReference(db, reference, hasEUTables);
+  }
+
+  const validation = validateCitation(db, reference.citation);
+  const found = validation.citation.valid && validation.document_exists && validation.provision_exists;
+  const status: CitationStatus = !found ? 'unknown' : validation.status === 'repealed' ? 'repealed' : 'existing';
+
+  return {
+    kind: 'statute',
+    text: reference.text,
+    start: reference.start,
+    end: reference.end,
+    status,
+    citation: reference.citation,
+    document_id: validation.document_id,
+    document_title: validation.document_title,
+    document_eli: validation.document_eli,
+    article: reference.article,
+    pinpoint: reference.pinpoint,
+    warnings: validation.warnings,
+  };
+}
+
+export async function extractCitationsTool(
+  db: Database,
+  input: ExtractCitationsInput
+): Promise<ToolResponse<ExtractCitationsResult>> {
+  if (!input.text || input.text.trim().length === 0) {
+    throw new Error('text is required');
+  }
+  if (input.text.length > MAX_TEXT_LENGTH) {
+    throw new Error(`text is too long (${input.text.length} characters, max ${MAX_TEXT_LENGTH}); split the document`);
+  }
+
+  const hasEUTables = detectCapabilities(db).has('eu_references');
+  const citations = extractCitations(input.text).map(reference => checkReference(db, reference, hasEUTables));
+
+  const counts: Record<CitationStatus, number> = { existing: 0, repealed: 0, unknown: 0 };
+  for (const citation of citations) {
+    counts[citation.status]++;
+  }
+
+  return {
+    results: { citations, counts },
+    _metadata: generateResponseMetadata(db),
+  };
+}
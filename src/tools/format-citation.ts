@@ -1,15 +1,23 @@
 /**
  * format_citation — Format a Belgian legal citation per standard conventions.
+ *
+ * The cited act is looked up so the citation carries its full title and
+ * Moniteur belge / Belgisch Staatsblad publication date; the other language
+ * version (same NUMAC) supplies the title when another language is requested.
  */
 
+import type { Database } from '@ansvar/mcp-sqlite';
 import { parseCitation } from '../citation/parser.js';
-import { formatCitation } from '../citation/formatter.js';
+import { formatCitation, type CitationDocument, type CitationLanguage } from '../citation/formatter.js';
+import { validateCitation } from '../citation/validator.js';
 import type { CitationFormat } from '../types/index.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
 
 export interface FormatCitationInput {
   citation: string;
   format?: CitationFormat;
+  /** Output language: "fr" (M.B.) or "nl" (B.S.); defaults to the language of the cited act. */
+  language?: CitationLanguage;
 }
 
 export interface FormatCitationResult {
@@ -17,18 +25,49 @@ export interface FormatCitationResult {
   formatted: string;
   type: string;
   valid: boolean;
+  language?: CitationLanguage;
+  /** The act the citation was formatted from, when found in the database */
+  document_id?: string;
+  numac?: string | null;
+  publication_date?: string | null;
+  warnings?: string[];
   error?: string;
 }
 
+const LANGUAGES: CitationLanguage[] = ['fr', 'nl'];
+
+interface DocumentRow extends CitationDocument {
+  id: string;
+  numac: string | null;
+}
+
+function getDocument(db: Database, documentId: string): DocumentRow | undefined {
+  return db.prepare(
+    'SELECT id, title, publication_date, numac, language FROM legal_documents WHERE id = ?'
+  ).get(documentId) as DocumentRow | undefined;
+}
+
+/** The language version of the act with the same NUMAC. */
+function findLanguageVersion(db: Database, doc: DocumentRow, language: CitationLanguage): DocumentRow | undefined {
+  if (!doc.numac) return undefined;
+  return db.prepare(
+    'SELECT id, title, publication_date, numac, language FROM legal_documents WHERE numac = ? AND language = ? ORDER BY id LIMIT 1'
+  ).get(doc.numac, language) as DocumentRow | undefined;
+}
+
 export async function formatCitationTool(
+  db: Database,
   input: FormatCitationInput
 ): Promise<ToolResponse<FormatCitationResult>> {
   if (!input.citation || input.citation.trim().length === 0) {
     return {
       results: { input: '', formatted: '', type: 'unknown', valid: false, error: 'Empty citation' },
-      _metadata: generateResponseMetadata()
+      _metadata: generateResponseMetadata(db)
     };
   }
+  if (input.language && !LANGUAGES.includes(input.language)) {
+    throw new Error(`language must be one of: ${LANGUAGES.join(', ')}`);
+  }
 
   const parsed = parseCitation(input.citation);
 
@@ -41,11 +80,30 @@ export async function formatCitationTool(
         valid: false,
         error: parsed.error,
       },
-      _metadata: generateResponseMetadata()
+      _metadata: generateResponseMetadata(db)
     };
   }
 
-  const formatted = formatCitation(parsed, input.format ?? 'full');
+  const warnings: string[] = [];
+  const validation = validateCitation(db, input.citation);
+  let doc = validation.document_id ? getDocument(db, validation.document_id) : undefined;
+  if (!doc) {
+    warnings.push('Cited act not found in database; the title is taken from the citation as written');
+  } else if (input.language && doc.language !== input.language) {
+    const version = findLanguageVersion(db, doc, input.language);
+    if (version) {
+      doc = version;
+    } else {
+      warnings.push(`No ${input.language === 'fr' ? 'French' : 'Dutch'} version of this act is in the database; its title is given as published`);
+    }
+  }
+  const format = input.format ?? 'full';
+  if (doc && !doc.publication_date && format === 'full') {
+    warnings.push('Publication date unknown; the Moniteur belge reference is omitted');
+  }
+
+  const formatted = formatCitation(parsed, format, { language: input.language, document: doc });
+  const language = input.language ?? (doc?.language === 'nl' ? 'nl' : doc?.language === 'fr' ? 'fr' : undefined);
 
   return {
     results: {
@@ -53,7 +111,10 @@ export async function formatCitationTool(
       formatted,
       type: parsed.type,
       valid: true,
+      ...(language ? { language } : {}),
+      ...(doc ? { document_id: doc.id, numac: doc.numac, publication_date: doc.publication_date ?? null } : {}),
+      warnings,
     },
-    _metadata: generateResponseMetadata()
+    _metadata: generateResponseMetadata(db)
   };
 }
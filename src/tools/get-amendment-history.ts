@@ -0,0 +1,129 @@
+/**
+ * get_amendment_history — Chronological timeline of changes to a provision.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import type { ProvisionAmendment } from '../types/index.js';
+import { lookupDocumentEli } from '../utils/eli.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { parseAmendments } from '../utils/provision-metadata.js';
+import { resolveExistingStatuteId } from '../utils/statute-id.js';
+import { diffStats, diffWords, type DiffSegment, type DiffStats } from '../utils/text-diff.js';
+
+export interface GetAmendmentHistoryInput {
+  document_id: string;
+  provision_ref: string;
+}
+
+export interface AmendmentHistoryEntry {
+  version: number;
+  valid_from: string | null;
+  valid_to: string | null;
+  content: string;
+  /** Amendments first recorded in this version (all known amendments for the first version). */
+  amendments: ProvisionAmendment[];
+  /** Word-level diff against the previous version; null for the first version. */
+  changes: DiffSegment[] | null;
+  change_stats: DiffStats | null;
+}
+
+export interface AmendmentHistoryResult {
+  document_id: string;
+  document_title: string;
+  /** Canonical ELI URI of the act on Justel */
+  document_eli: string | null;
+  provision_ref: string;
+  history_tracked: boolean;
+  version_count: number;
+  timeline: AmendmentHistoryEntry[];
+  note?: string;
+}
+
+interface VersionRow {
+  provision_ref: string;
+  content: string;
+  metadata: string | null;
+  valid_from: string | null;
+  valid_to: string | null;
+}
+
+function amendmentKey(amendment: ProvisionAmendment): string {
+  return `${amendment.marker ?? ''}|${amendment.amending_act}|${amendment.amending_article ?? ''}`;
+}
+
+export async function getAmendmentHistory(
+  db: Database,
+  input: GetAmendmentHistoryInput
+): Promise<ToolResponse<AmendmentHistoryResult>> {
+  if (!input.document_id) {
+    throw new Error('document_id is required');
+  }
+  if (!input.provision_ref?.trim()) {
+    throw new Error('provision_ref is required');
+  }
+
+  const resolvedId = resolveExistingStatuteId(db, input.document_id);
+  if (!resolvedId) {
+    throw new Error(`Document "${input.document_id}" not found in database`);
+  }
+
+  const doc = db.prepare(
+    'SELECT id, title FROM legal_documents WHERE id = ?'
+  ).get(resolvedId) as { id: string; title: string };
+
+  const versions = db.prepare(`
+    SELECT provision_ref, content, metadata, valid_from, valid_to
+    FROM legal_provision_versions
+    WHERE document_id = ? AND (provision_ref = ? OR section = ?)
+    ORDER BY COALESCE(valid_from, '0000-01-01'), id
+  `).all(resolvedId, input.provision_ref, input.provision_ref) as VersionRow[];
+
+  const historyTracked = versions.length > 0;
+  const rows = historyTracked
+    ? versions
+    : db.prepare(`
+        SELECT provision_ref, content, metadata, NULL as valid_from, NULL as valid_to
+        FROM legal_provisions
+        WHERE document_id = ? AND (provision_ref = ? OR section = ?)
+      `).all(resolvedId, input.provision_ref, input.provision_ref) as VersionRow[];
+
+  if (rows.length === 0) {
+    throw new Error(`Provision ${input.provision_ref} not found in ${resolvedId}`);
+  }
+
+  const seen = new Set<string>();
+  const timeline = rows.map((row, index): AmendmentHistoryEntry => {
+    const amendments = parseAmendments(row.metadata).filter(a => !seen.has(amendmentKey(a)));
+    for (const amendment of amendments) {
+      seen.add(amendmentKey(amendment));
+    }
+
+    const changes = index > 0 ? diffWords(rows[index - 1].content, row.content) : null;
+
+    return {
+      version: index + 1,
+      valid_from: row.valid_from,
+      valid_to: row.valid_to,
+      content: row.content,
+      amendments,
+      changes,
+      change_stats: changes ? diffStats(changes) : null,
+    };
+  });
+
+  return {
+    results: {
+      document_id: resolvedId,
+      document_title: doc.title,
+      document_eli: lookupDocumentEli(db, resolvedId),
+      provision_ref: rows[0].provision_ref,
+      history_tracked: historyTracked,
+      version_count: timeline.length,
+      timeline,
+      ...(historyTracked ? {} : {
+        note: 'No historical versions are recorded for this provision; only the current text is available.',
+      }),
+    },
+    _metadata: generateResponseMetadata(db),
+  };
+}
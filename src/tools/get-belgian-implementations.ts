@@ -3,6 +3,7 @@
  */
 
 import type { Database } from '@ansvar/mcp-sqlite';
+import { documentEli } from '../utils/eli.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
 
 export interface GetBelgianImplementationsInput {
@@ -17,6 +18,8 @@ export interface GetBelgianImplementationsResult {
   implementations: Array<{
     document_id: string;
     title: string;
+    /** Canonical ELI URI of the act on Justel */
+    eli: string | null;
     status: string;
     reference_type: string;
     is_primary: boolean;
@@ -41,6 +44,10 @@ export async function getBelgianImplementations(
     SELECT
       er.document_id,
       ld.title,
+      ld.url,
+      ld.numac,
+      ld.issued_date,
+      ld.language,
       ld.status,
       er.reference_type,
       er.is_primary_implementation
@@ -61,6 +68,7 @@ export async function getBelgianImplementations(
 
   interface Row {
     document_id: string; title: string; status: string;
+    url: string | null; numac: string | null; issued_date: string | null; language: string | null;
     reference_type: string; is_primary_implementation: number;
   }
 
@@ -73,6 +81,7 @@ export async function getBelgianImplementations(
       implementations: rows.map(r => ({
         document_id: r.document_id,
         title: r.title,
+        eli: documentEli(r),
         status: r.status,
         reference_type: r.reference_type,
         is_primary: r.is_primary_implementation === 1,
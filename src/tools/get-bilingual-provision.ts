@@ -0,0 +1,190 @@
+/**
+ * get_bilingual_provision — French and Dutch text of one article side by side.
+ *
+ * Belgian federal acts are published in both languages under the same NUMAC.
+ * The FR/NL documents are paired through the v_bilingual_pairs view; German
+ * translations are matched on NUMAC when present.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import { documentEli } from '../utils/eli.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { resolveExistingStatuteId } from '../utils/statute-id.js';
+import { findCurrentProvision } from './get-provision.js';
+
+export interface GetBilingualProvisionInput {
+  document_id: string;
+  provision_ref: string;
+}
+
+export interface BilingualProvisionText {
+  document_id: string;
+  document_title: string;
+  /** Canonical ELI URI of this language version; null for German translations */
+  document_eli: string | null;
+  provision_ref: string;
+  section: string;
+  title: string | null;
+  content: string;
+}
+
+export interface ArticleNumbering {
+  /** True when both language versions number their articles identically. */
+  aligned: boolean;
+  /** Article numbers (sections) present only in the French version. */
+  only_in_fr: string[];
+  /** Article numbers (sections) present only in the Dutch version. */
+  only_in_nl: string[];
+}
+
+export interface BilingualProvisionResult {
+  numac: string | null;
+  provision_ref: string;
+  fr: BilingualProvisionText | null;
+  nl: BilingualProvisionText | null;
+  de: BilingualProvisionText | null;
+  numbering: ArticleNumbering | null;
+  warnings: string[];
+}
+
+interface DocumentRow {
+  id: string;
+  title: string;
+  language: string | null;
+  numac: string | null;
+  url: string | null;
+  issued_date: string | null;
+}
+
+interface BilingualPairRow {
+  fr_document_id: string;
+  nl_document_id: string;
+}
+
+type Language = 'fr' | 'nl' | 'de';
+
+function findLanguageVersions(db: Database, doc: DocumentRow): Partial<Record<Language, DocumentRow>> {
+  const versions: Partial<Record<Language, DocumentRow>> = {};
+  if (doc.language === 'fr' || doc.language === 'nl' || doc.language === 'de') {
+    versions[doc.language] = doc;
+  }
+
+  const getDoc = db.prepare('SELECT id, title, language, numac, url, issued_date FROM legal_documents WHERE id = ?');
+  const pair = db.prepare(`
+    SELECT fr_document_id, nl_document_id
+    FROM v_bilingual_pairs
+    WHERE fr_document_id = ? OR nl_document_id = ?
+    LIMIT 1
+  `).get(doc.id, doc.id) as BilingualPairRow | undefined;
+
+  if (pair) {
+    versions.fr ??= getDoc.get(pair.fr_document_id) as DocumentRow;
+    versions.nl ??= getDoc.get(pair.nl_document_id) as DocumentRow;
+  }
+
+  if (doc.numac && !versions.de) {
+    const german = db.prepare(
+      "SELECT id, title, language, numac, url, issued_date FROM legal_documents WHERE numac = ? AND language = 'de' LIMIT 1"
+    ).get(doc.numac) as DocumentRow | undefined;
+    if (german) {
+      versions.de = german;
+    }
+  }
+
+  return versions;
+}
+
+function compareNumbering(db: Database, frDocumentId: string, nlDocumentId: string): ArticleNumbering {
+  const sections = db.prepare('SELECT section FROM legal_provisions WHERE document_id = ? ORDER BY sort_key, id');
+  const fr = (sections.all(frDocumentId) as { section: string }[]).map(row => row.section);
+  const nl = (sections.all(nlDocumentId) as { section: string }[]).map(row => row.section);
+  const frSet = new Set(fr);
+  const nlSet = new Set(nl);
+
+  const onlyInFr = fr.filter(section => !nlSet.has(section));
+  const onlyInNl = nl.filter(section => !frSet.has(section));
+
+  return {
+    aligned: onlyInFr.length === 0 && onlyInNl.length === 0,
+    only_in_fr: onlyInFr,
+    only_in_nl: onlyInNl,
+  };
+}
+
+export async function getBilingualProvision(
+  db: Database,
+  input: GetBilingualProvisionInput
+): Promise<ToolResponse<BilingualProvisionResult>> {
+  if (!input.document_id) {
+    throw new Error('document_id is required');
+  }
+  if (!input.provision_ref?.trim()) {
+    throw new Error('provision_ref is required');
+  }
+
+  const resolvedId = resolveExistingStatuteId(db, input.document_id);
+  if (!resolvedId) {
+    throw new Error(`Document "${input.document_id}" not found in database`);
+  }
+
+  const doc = db.prepare(
+    'SELECT id, title, language, numac, url, issued_date FROM legal_documents WHERE id = ?'
+  ).get(resolvedId) as DocumentRow;
+  const versions = findLanguageVersions(db, doc);
+
+  // Look the article up in the requested document first, then use its section
+  // number to match the other languages ("1er" in French is section "1").
+  const requested = findCurrentProvision(db, doc.id, input.provision_ref);
+  const lookupRef = requested?.section ?? input.provision_ref;
+
+  const texts: Record<Language, BilingualProvisionText | null> = { fr: null, nl: null, de: null };
+  for (const language of ['fr', 'nl', 'de'] as const) {
+    const version = versions[language];
+    if (!version) continue;
+    const row = version.id === doc.id ? requested : findCurrentProvision(db, version.id, lookupRef);
+    if (row) {
+      texts[language] = {
+        document_id: version.id,
+        document_title: version.title,
+        document_eli: documentEli(version),
+        provision_ref: row.provision_ref,
+        section: row.section,
+        title: row.title,
+        content: row.content,
+      };
+    }
+  }
+
+  if (!texts.fr && !texts.nl && !texts.de) {
+    throw new Error(`Provision ${input.provision_ref} not found in ${resolvedId}`);
+  }
+
+  const warnings: string[] = [];
+  for (const language of ['fr', 'nl'] as const) {
+    if (!versions[language]) {
+      warnings.push(`No ${language === 'fr' ? 'French' : 'Dutch'} version of this act is in the database`);
+    } else if (!texts[language]) {
+      warnings.push(
+        `Article ${lookupRef} has no counterpart with the same number in the ${language === 'fr' ? 'French' : 'Dutch'} version; ` +
+        'article numbering diverges between the language versions'
+      );
+    }
+  }
+
+  const numbering = versions.fr && versions.nl
+    ? compareNumbering(db, versions.fr.id, versions.nl.id)
+    : null;
+
+  return {
+    results: {
+      numac: doc.numac,
+      provision_ref: input.provision_ref,
+      fr: texts.fr,
+      nl: texts.nl,
+      de: texts.de,
+      numbering,
+      warnings,
+    },
+    _metadata: generateResponseMetadata(db),
+  };
+}
@@ -0,0 +1,242 @@
+/**
+ * get_cross_references — What a provision cites and which provisions cite it.
+ *
+ * Walks the cross_references graph built from provision text and amendment
+ * footnotes, up to `depth` links away. "Cited by" covers every language
+ * version of the act (same NUMAC), since Dutch texts cite the Dutch version.
+ * References to a whole act are reported but not followed further.
+ *
+ * Capability-gated: only available when the cross_references table exists.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import type { CrossReferenceType } from '../types/index.js';
+import { createDocumentEliLookup } from '../utils/eli.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { resolveExistingStatuteId } from '../utils/statute-id.js';
+
+export type CrossReferenceDirection = 'cites' | 'cited_by' | 'both';
+
+export interface GetCrossReferencesInput {
+  document_id: string;
+  /** Provision reference; omit for the links of the whole act */
+  provision_ref?: string;
+  direction?: CrossReferenceDirection;
+  /** Links to follow away from the provision (default 1) */
+  depth?: number;
+  ref_types?: CrossReferenceType[];
+}
+
+export interface CrossReferenceNode {
+  document_id: string;
+  document_title: string;
+  /** Canonical ELI URI of the act on Justel */
+  document_eli: string | null;
+  /** Null for a reference to the whole act */
+  provision_ref: string | null;
+}
+
+export interface CrossReferenceLink {
+  /** 1 for links of the queried provision, 2 for links of those provisions, ... */
+  depth: number;
+  ref_type: CrossReferenceType;
+  /** The citing (or amended) provision */
+  source: CrossReferenceNode;
+  /** The cited provision or act (or the amending act) */
+  target: CrossReferenceNode;
+}
+
+export interface CrossReferencesResult {
+  document_id: string;
+  document_title: string;
+  document_eli: string | null;
+  provision_ref: string | null;
+  depth: number;
+  cites: CrossReferenceLink[];
+  cited_by: CrossReferenceLink[];
+  /** Whether a direction hit the link limit before the walk was complete */
+  truncated: boolean;
+}
+
+interface CrossReferenceRow {
+  source_document_id: string;
+  source_provision_ref: string | null;
+  target_document_id: string;
+  target_provision_ref: string | null;
+  ref_type: CrossReferenceType;
+}
+
+interface NodeKey {
+  document_id: string;
+  provision_ref: string | null;
+}
+
+const REF_TYPES: CrossReferenceType[] = ['references', 'amended_by', 'implements', 'see_also'];
+const DIRECTIONS: CrossReferenceDirection[] = ['cites', 'cited_by', 'both'];
+const DEFAULT_DEPTH = 1;
+const MAX_DEPTH = 5;
+const MAX_LINKS = 500;
+
+const LINK_COLUMNS = 'x.source_document_id, x.source_provision_ref, x.target_document_id, x.target_provision_ref, x.ref_type';
+
+export async function getCrossReferences(
+  db: Database,
+  input: GetCrossReferencesInput
+): Promise<ToolResponse<CrossReferencesResult>> {
+  if (!input.document_id) {
+    throw new Error('document_id is required');
+  }
+  const direction = input.direction ?? 'both';
+  if (!DIRECTIONS.includes(direction)) {
+    throw new Error(`direction must be one of: ${DIRECTIONS.join(', ')}`);
+  }
+  const unknownType = input.ref_types?.find(type => !REF_TYPES.includes(type));
+  if (unknownType) {
+    throw new Error(`Unknown ref_type "${unknownType}"; expected one of: ${REF_TYPES.join(', ')}`);
+  }
+  const depth = Math.min(Math.max(Math.trunc(input.depth ?? DEFAULT_DEPTH), 1), MAX_DEPTH);
+
+  const resolvedId = resolveExistingStatuteId(db, input.document_id);
+  if (!resolvedId) {
+    throw new Error(`Document "${input.document_id}" not found in database`);
+  }
+
+  let provisionRef: string | null = null;
+  if (input.provision_ref?.trim()) {
+    const row = db.prepare(
+      'SELECT provision_ref FROM legal_provisions WHERE document_id = ? AND (provision_ref = ? OR section = ?) LIMIT 1'
+    ).get(resolvedId, input.provision_ref.trim(), input.provision_ref.trim()) as { provision_ref: string } | undefined;
+    if (!row) {
+      throw new Error(`Provision ${input.provision_ref} not found in ${resolvedId}`);
+    }
+    provisionRef = row.provision_ref;
+  }
+
+  const typeFilter = input.ref_types && input.ref_types.length > 0
+    ? ` AND x.ref_type IN (${input.ref_types.map(() => '?').join(', ')})`
+    : '';
+  const typeParams = input.ref_types ?? [];
+
+  const versionCache = new Map<string, string[]>();
+  const languageVersions = (documentId: string): string[] => {
+    if (!versionCache.has(documentId)) {
+      const rows = db.prepare(`
+        SELECT other.id FROM legal_documents doc
+        JOIN legal_documents other ON other.id = doc.id OR (doc.numac IS NOT NULL AND other.numac = doc.numac)
+        WHERE doc.id = ?
+        ORDER BY other.id
+      `).all(documentId) as { id: string }[];
+      versionCache.set(documentId, rows.map(row => row.id));
+    }
+    return versionCache.get(documentId) ?? [documentId];
+  };
+
+  const outgoing = (node: NodeKey): CrossReferenceRow[] => {
+    const [provisionClause, params] = node.provision_ref
+      ? ['x.source_provision_ref = ?', [node.provision_ref]]
+      : ['x.target_document_id <> x.source_document_id', []];
+    return db.prepare(`
+      SELECT ${LINK_COLUMNS}
+      FROM cross_references x
+      LEFT JOIN legal_provisions p ON p.document_id = x.target_document_id AND p.provision_ref = x.target_provision_ref
+      WHERE x.source_document_id = ? AND ${provisionClause}${typeFilter}
+      ORDER BY x.target_document_id, p.sort_key, x.id
+    `).all(node.document_id, ...params, ...typeParams) as CrossReferenceRow[];
+  };
+
+  const incoming = (node: NodeKey): CrossReferenceRow[] => {
+    const versions = languageVersions(node.document_id);
+    const placeholders = versions.map(() => '?').join(', ');
+    // A provision is matched in each version by its section: "art1er" in French is "art1" in Dutch
+    const [provisionClause, params] = node.provision_ref
+      ? [
+          `(x.target_provision_ref = ? OR x.target_provision_ref IN (
+            SELECT version.provision_ref
+            FROM legal_provisions own
+            JOIN legal_provisions version ON version.section = own.section
+            WHERE own.document_id = ? AND own.provision_ref = ? AND version.document_id = x.target_document_id
+          ))`,
+          [node.provision_ref, node.document_id, node.provision_ref],
+        ]
+      : [`x.source_document_id NOT IN (${placeholders})`, versions];
+    return db.prepare(`
+      SELECT ${LINK_COLUMNS}
+      FROM cross_references x
+      LEFT JOIN legal_provisions p ON p.document_id = x.source_document_id AND p.provision_ref = x.source_provision_ref
+      WHERE x.target_document_id IN (${placeholders}) AND ${provisionClause}${typeFilter}
+      ORDER BY x.source_document_id, p.sort_key, x.id
+    `).all(...versions, ...params, ...typeParams) as CrossReferenceRow[];
+  };
+
+  const titleCache = new Map<string, string>();
+  const eliLookup = createDocumentEliLookup(db);
+  const toNode = (documentId: string, ref: string | null): CrossReferenceNode => {
+    if (!titleCache.has(documentId)) {
+      const doc = db.prepare('SELECT title FROM legal_documents WHERE id = ?').get(documentId) as { title: string } | undefined;
+      titleCache.set(documentId, doc?.title ?? documentId);
+    }
+    return {
+      document_id: documentId,
+      document_title: titleCache.get(documentId) ?? documentId,
+      document_eli: eliLookup(documentId),
+      provision_ref: ref,
+    };
+  };
+
+  /** Breadth-first walk; only provision nodes are expanded further. */
+  const walk = (
+    fetch: (node: NodeKey) => CrossReferenceRow[],
+    next: (row: CrossReferenceRow) => NodeKey
+  ): { links: CrossReferenceLink[]; truncated: boolean } => {
+    const start: NodeKey = { document_id: resolvedId, provision_ref: provisionRef };
+    const key = (node: NodeKey) => `${node.document_id}|${node.provision_ref ?? ''}`;
+    const visited = new Set([key(start)]);
+    const links: CrossReferenceLink[] = [];
+    let frontier = [start];
+
+    for (let level = 1; level <= depth && frontier.length > 0; level++) {
+      const reached: NodeKey[] = [];
+      for (const node of frontier) {
+        for (const row of fetch(node)) {
+          if (links.length >= MAX_LINKS) return { links, truncated: true };
+          links.push({
+            depth: level,
+            ref_type: row.ref_type,
+            source: toNode(row.source_document_id, row.source_provision_ref),
+            target: toNode(row.target_document_id, row.target_provision_ref),
+          });
+          const other = next(row);
+          if (other.provision_ref && !visited.has(key(other))) {
+            visited.add(key(other));
+            reached.push(other);
+          }
+        }
+      }
+      frontier = reached;
+    }
+    return { links, truncated: false };
+  };
+
+  const cites = direction === 'cited_by'
+    ? { links: [], truncated: false }
+    : walk(outgoing, row => ({ document_id: row.target_document_id, provision_ref: row.target_provision_ref }));
+  const citedBy = direction === 'cites'
+    ? { links: [], truncated: false }
+    : walk(incoming, row => ({ document_id: row.source_document_id, provision_ref: row.source_provision_ref }));
+
+  const doc = toNode(resolvedId, provisionRef);
+
+  return {
+    results: {
+      document_id: resolvedId,
+      document_title: doc.document_title,
+      document_eli: doc.document_eli,
+      provision_ref: provisionRef,
+      depth,
+      cites: cites.links,
+      cited_by: citedBy.links,
+      truncated: cites.truncated || citedBy.truncated,
+    },
+    _metadata: generateResponseMetadata(db),
+  };
+}
@@ -5,8 +5,10 @@
  */
 
 import type Database from '@ansvar/mcp-sqlite';
+import { createDocumentEliLookup } from '../utils/eli.js';
 import { sanitizeFtsInput } from '../utils/fts-query.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { resolveExistingStatuteId } from '../utils/statute-id.js';
 
 export interface GetDefinitionsInput {
   term: string;
@@ -21,6 +23,8 @@ export interface DefinitionResult {
   source_provision: string | null;
   document_id: string;
   document_title: string;
+  /** Canonical ELI URI of the act on Justel */
+  document_eli: string | null;
 }
 
 const DEFAULT_LIMIT = 10;
@@ -36,6 +40,9 @@ export async function getDefinitions(
 
   const limit = Math.min(Math.max(input.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
   const sanitized = sanitizeFtsInput(input.term);
+  const documentId = input.document_id
+    ? resolveExistingStatuteId(db, input.document_id) ?? input.document_id
+    : undefined;
 
   // Try FTS first, fall back to LIKE for short terms
   let results: DefinitionResult[];
@@ -57,9 +64,9 @@ export async function getDefinitions(
     const ftsQuery = `"${sanitized}"*`;
     const params: (string | number)[] = [ftsQuery];
 
-    if (input.document_id) {
+    if (documentId) {
       sql += ` AND d.document_id = ?`;
-      params.push(input.document_id);
+      params.push(documentId);
     }
     sql += ` LIMIT ?`;
     params.push(limit);
@@ -81,9 +88,9 @@ export async function getDefinitions(
     `;
     const params: (string | number)[] = [`%${sanitized}%`];
 
-    if (input.document_id) {
+    if (documentId) {
       sql += ` AND d.document_id = ?`;
-      params.push(input.document_id);
+      params.push(documentId);
     }
     sql += ` LIMIT ?`;
     params.push(limit);
@@ -91,5 +98,8 @@ export async function getDefinitions(
     results = db.prepare(sql).all(...params) as DefinitionResult[];
   }
 
+  const eliOf = createDocumentEliLookup(db);
+  results = results.map(result => ({ ...result, document_eli: eliOf(result.document_id) }));
+
   return { results, _metadata: generateResponseMetadata(db) };
 }
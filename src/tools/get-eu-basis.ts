@@ -4,6 +4,7 @@
 
 import type { Database } from '@ansvar/mcp-sqlite';
 import type { EUBasisDocument } from '../types/index.js';
+import { lookupDocumentEli } from '../utils/eli.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
 import { resolveExistingStatuteId } from '../utils/statute-id.js';
 
@@ -16,6 +17,8 @@ export interface GetEUBasisInput {
 export interface GetEUBasisResult {
   document_id: string;
   document_title: string;
+  /** Canonical ELI URI of the act on Justel */
+  document_eli: string | null;
   eu_documents: EUBasisDocument[];
   statistics: {
     total_eu_references: number;
@@ -90,6 +93,7 @@ export async function getEUBasis(
     results: {
       document_id: doc.id,
       document_title: doc.title,
+      document_eli: lookupDocumentEli(db, resolvedId),
       eu_documents: euDocuments,
       statistics: {
         total_eu_references: euDocuments.length,
@@ -5,7 +5,13 @@
 import type { Database } from '@ansvar/mcp-sqlite';
 import { resolveExistingStatuteId } from '../utils/statute-id.js';
 import { normalizeAsOfDate } from '../utils/as-of-date.js';
+import { lookupDocumentEli } from '../utils/eli.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { buildPagination, decodeCursor } from '../utils/pagination.js';
+import { compareArticleNumbers, isInArticleRange, parseArticleRange } from '../utils/article-order.js';
+import { parseAmendments } from '../utils/provision-metadata.js';
+import { extractPinpoint, parsePinpoint, type PinpointLocation } from '../utils/pinpoint.js';
+import type { ProvisionAmendment } from '../types/index.js';
 
 export interface GetProvisionInput {
   document_id: string;
@@ -13,23 +19,42 @@ export interface GetProvisionInput {
   chapter?: string;
   section?: string;
   provision_ref?: string;
+  /** Several provisions at once (provision_refs or section numbers), returned in article order. */
+  provision_refs?: string[];
+  /** Part of the article to return, e.g. "§ 2, alinéa 3, 4°" or "§ 2, lid 3, 4°". */
+  pinpoint?: string;
   as_of_date?: string;
+  /** Articles to list, e.g. "5 to 9" or "12/1-12/4" (bounds included). */
+  range?: string;
+  /** Page size when listing every provision of a document. */
+  limit?: number;
+  /** next_cursor from a previous page of the same listing. */
+  cursor?: string;
 }
 
+const TOOL_NAME = 'get_provision';
+const DEFAULT_LIST_LIMIT = 100;
+const MAX_LIST_LIMIT = 500;
+
 export interface ProvisionResult {
   document_id: string;
   document_title: string;
+  /** Canonical ELI URI of the act on Justel */
+  document_eli: string | null;
   document_status: string;
   provision_ref: string;
   chapter: string | null;
   section: string;
   title: string | null;
   content: string;
+  amendments: ProvisionAmendment[];
   valid_from?: string | null;
   valid_to?: string | null;
+  /** Location of `content` within the article when a pinpoint was requested. */
+  pinpoint?: PinpointLocation;
 }
 
-interface ProvisionRow {
+export interface ProvisionRow {
   document_id: string;
   document_title: string;
   document_status: string;
@@ -38,10 +63,165 @@ interface ProvisionRow {
   section: string;
   title: string | null;
   content: string;
+  metadata: string | null;
   valid_from: string | null;
   valid_to: string | null;
 }
 
+function toProvisionResult(row: ProvisionRow, documentEli: string | null): ProvisionResult {
+  const { metadata, ...rest } = row;
+  return { ...rest, document_eli: documentEli, amendments: parseAmendments(metadata) };
+}
+
+/**
+ * Every provision of a document as it read on `asOfDate`, one row per
+ * provision_ref: the latest version whose window contains the date.
+ */
+export function listProvisionsAsOf(db: Database, documentId: string, asOfDate: string): ProvisionRow[] {
+  return db.prepare(`
+    WITH ranked_versions AS (
+      SELECT
+        lpv.document_id,
+        ld.title as document_title,
+        ld.status as document_status,
+        lpv.provision_ref,
+        lpv.chapter,
+        lpv.section,
+        lpv.title,
+        lpv.content,
+        lpv.metadata,
+        lpv.valid_from,
+        lpv.valid_to,
+        lpv.sort_key,
+        row_number() OVER (
+          PARTITION BY lpv.document_id, lpv.provision_ref
+          ORDER BY COALESCE(lpv.valid_from, '0000-01-01') DESC, lpv.id DESC
+        ) as version_rank
+      FROM legal_provision_versions lpv
+      JOIN legal_documents ld ON ld.id = lpv.document_id
+      WHERE lpv.document_id = ?
+        AND (lpv.valid_from IS NULL OR lpv.valid_from <= ?)
+        AND (lpv.valid_to IS NULL OR lpv.valid_to > ?)
+    )
+    SELECT
+      document_id,
+      document_title,
+      document_status,
+      provision_ref,
+      chapter,
+      section,
+      title,
+      content,
+      metadata,
+      valid_from,
+      valid_to
+    FROM ranked_versions
+    WHERE version_rank = 1
+    ORDER BY sort_key, provision_ref
+  `).all(documentId, asOfDate, asOfDate) as ProvisionRow[];
+}
+
+/**
+ * The version of one provision in force on `asOfDate`, matched by
+ * provision_ref or section.
+ */
+export function findProvisionAsOf(
+  db: Database,
+  documentId: string,
+  provisionRef: string,
+  asOfDate: string
+): ProvisionRow | undefined {
+  return db.prepare(`
+    SELECT
+      lpv.document_id,
+      ld.title as document_title,
+      ld.status as document_status,
+      lpv.provision_ref,
+      lpv.chapter,
+      lpv.section,
+      lpv.title,
+      lpv.content,
+      lpv.metadata,
+      lpv.valid_from,
+      lpv.valid_to
+    FROM legal_provision_versions lpv
+    JOIN legal_documents ld ON ld.id = lpv.document_id
+    WHERE lpv.document_id = ?
+      AND (lpv.provision_ref = ? OR lpv.section = ?)
+      AND (lpv.valid_from IS NULL OR lpv.valid_from <= ?)
+      AND (lpv.valid_to IS NULL OR lpv.valid_to > ?)
+    ORDER BY COALESCE(lpv.valid_from, '0000-01-01') DESC, lpv.id DESC
+    LIMIT 1
+  `).get(documentId, provisionRef, provisionRef, asOfDate, asOfDate) as ProvisionRow | undefined;
+}
+
+export function listCurrentProvisions(db: Database, documentId: string): ProvisionRow[] {
+  return db.prepare(`
+    SELECT
+      lp.document_id,
+      ld.title as document_title,
+      ld.status as document_status,
+      lp.provision_ref,
+      lp.chapter,
+      lp.section,
+      lp.title,
+      lp.content,
+      lp.metadata,
+      NULL as valid_from,
+      NULL as valid_to
+    FROM legal_provisions lp
+    JOIN legal_documents ld ON ld.id = lp.document_id
+    WHERE lp.document_id = ?
+    ORDER BY lp.sort_key, lp.id
+  `).all(documentId) as ProvisionRow[];
+}
+
+export function findCurrentProvision(
+  db: Database,
+  documentId: string,
+  provisionRef: string
+): ProvisionRow | undefined {
+  return db.prepare(`
+    SELECT
+      lp.document_id,
+      ld.title as document_title,
+      ld.status as document_status,
+      lp.provision_ref,
+      lp.chapter,
+      lp.section,
+      lp.title,
+      lp.content,
+      lp.metadata,
+      NULL as valid_from,
+      NULL as valid_to
+    FROM legal_provisions lp
+    JOIN legal_documents ld ON ld.id = lp.document_id
+    WHERE lp.document_id = ? AND (lp.provision_ref = ? OR lp.section = ?)
+  `).get(documentId, provisionRef, provisionRef) as ProvisionRow | undefined;
+}
+
+/** Whether dated versions were recorded for the document. */
+function hasVersionHistory(db: Database, documentId: string): boolean {
+  return db.prepare('SELECT 1 FROM legal_provision_versions WHERE document_id = ? LIMIT 1').get(documentId) !== undefined;
+}
+
+/**
+ * One provision as it read on `asOfDate`, or its current text without a date.
+ * A document without recorded history falls back to its current text; one
+ * with history yields nothing when no version window contains the date.
+ */
+function findProvision(
+  db: Database,
+  documentId: string,
+  provisionRef: string,
+  asOfDate: string | undefined
+): ProvisionRow | undefined {
+  if (asOfDate && hasVersionHistory(db, documentId)) {
+    return findProvisionAsOf(db, documentId, provisionRef, asOfDate);
+  }
+  return findCurrentProvision(db, documentId, provisionRef);
+}
+
 export async function getProvision(
   db: Database,
   input: GetProvisionInput
@@ -52,135 +232,79 @@ export async function getProvision(
 
   const resolvedDocumentId = resolveExistingStatuteId(db, input.document_id) ?? input.document_id;
   const asOfDate = normalizeAsOfDate(input.as_of_date);
+  const documentEli = lookupDocumentEli(db, resolvedDocumentId);
 
   const provisionRef = input.provision_ref ?? input.section;
 
-  // If no specific provision, return all provisions for the document
+  const pinpoint = input.pinpoint?.trim() ? parsePinpoint(input.pinpoint) : null;
+  if (input.pinpoint?.trim() && !pinpoint) {
+    throw new Error(`Could not parse pinpoint "${input.pinpoint}" (expected e.g. "§ 2, alinéa 3, 4°")`);
+  }
+  if (pinpoint && !provisionRef) {
+    throw new Error('pinpoint requires section or provision_ref');
+  }
+
+  const range = input.range?.trim() ? parseArticleRange(input.range) : null;
+  if (input.range?.trim() && !range) {
+    throw new Error(`Could not parse range "${input.range}" (expected e.g. "5 to 9")`);
+  }
+  if (range && provisionRef) {
+    throw new Error('range cannot be combined with section or provision_ref');
+  }
+
+  const provisionRefs = (input.provision_refs ?? []).map(ref => ref.trim()).filter(Boolean);
+  if (provisionRefs.length > 0) {
+    if (provisionRef || range) {
+      throw new Error('provision_refs cannot be combined with section, provision_ref or range');
+    }
+    if (provisionRefs.length > MAX_LIST_LIMIT) {
+      throw new Error(`provision_refs accepts at most ${MAX_LIST_LIMIT} provisions`);
+    }
+
+    const rows = new Map<string, ProvisionRow>();
+    const missing: string[] = [];
+    for (const ref of provisionRefs) {
+      const row = findProvision(db, resolvedDocumentId, ref, asOfDate);
+      if (row) {
+        rows.set(row.provision_ref, row);
+      } else {
+        missing.push(ref);
+      }
+    }
+    if (missing.length > 0) {
+      const when = asOfDate ? ` as of ${asOfDate}` : '';
+      throw new Error(`Provisions not found in "${input.document_id}"${when}: ${missing.join(', ')}`);
+    }
+
+    return {
+      results: [...rows.values()]
+        .sort((a, b) => compareArticleNumbers(a.section, b.section))
+        .map(row => toProvisionResult(row, documentEli)),
+      _metadata: generateResponseMetadata(db),
+    };
+  }
+
+  // If no specific provision, return all provisions for the document (or the
+  // requested range), one page at a time
   if (!provisionRef) {
-    const rows = asOfDate
-      ? db.prepare(`
-          WITH ranked_versions AS (
-            SELECT
-              lpv.document_id,
-              ld.title as document_title,
-              ld.status as document_status,
-              lpv.provision_ref,
-              lpv.chapter,
-              lpv.section,
-              lpv.title,
-              lpv.content,
-              lpv.valid_from,
-              lpv.valid_to,
-              row_number() OVER (
-                PARTITION BY lpv.document_id, lpv.provision_ref
-                ORDER BY COALESCE(lpv.valid_from, '0000-01-01') DESC, lpv.id DESC
-              ) as version_rank
-            FROM legal_provision_versions lpv
-            JOIN legal_documents ld ON ld.id = lpv.document_id
-            WHERE lpv.document_id = ?
-              AND (lpv.valid_from IS NULL OR lpv.valid_from <= ?)
-              AND (lpv.valid_to IS NULL OR lpv.valid_to > ?)
-          )
-          SELECT
-            document_id,
-            document_title,
-            document_status,
-            provision_ref,
-            chapter,
-            section,
-            title,
-            content,
-            valid_from,
-            valid_to
-          FROM ranked_versions
-          WHERE version_rank = 1
-          ORDER BY provision_ref
-        `).all(resolvedDocumentId, asOfDate, asOfDate) as ProvisionRow[]
-      : db.prepare(`
-          SELECT
-            lp.document_id,
-            ld.title as document_title,
-            ld.status as document_status,
-            lp.provision_ref,
-            lp.chapter,
-            lp.section,
-            lp.title,
-            lp.content,
-            NULL as valid_from,
-            NULL as valid_to
-          FROM legal_provisions lp
-          JOIN legal_documents ld ON ld.id = lp.document_id
-          WHERE lp.document_id = ?
-          ORDER BY lp.id
-        `).all(resolvedDocumentId) as ProvisionRow[];
-
-    const finalRows = (asOfDate && rows.length === 0)
-      ? db.prepare(`
-          SELECT
-            lp.document_id,
-            ld.title as document_title,
-            ld.status as document_status,
-            lp.provision_ref,
-            lp.chapter,
-            lp.section,
-            lp.title,
-            lp.content,
-            NULL as valid_from,
-            NULL as valid_to
-          FROM legal_provisions lp
-          JOIN legal_documents ld ON ld.id = lp.document_id
-          WHERE lp.document_id = ?
-          ORDER BY lp.id
-        `).all(resolvedDocumentId) as ProvisionRow[]
-      : rows;
+    const limit = Math.min(Math.max(input.limit ?? DEFAULT_LIST_LIMIT, 1), MAX_LIST_LIMIT);
+    const scope = { document_id: resolvedDocumentId, as_of_date: asOfDate, range };
+    const offset = decodeCursor(input.cursor, TOOL_NAME, scope);
+
+    const allRows = asOfDate && hasVersionHistory(db, resolvedDocumentId)
+      ? listProvisionsAsOf(db, resolvedDocumentId, asOfDate)
+      : listCurrentProvisions(db, resolvedDocumentId);
+    const finalRows = range ? allRows.filter(row => isInArticleRange(row.section, range)) : allRows;
+    const pageRows = finalRows.slice(offset, offset + limit);
 
     return {
-      results: finalRows,
-      _metadata: generateResponseMetadata(db)
+      results: pageRows.map(row => toProvisionResult(row, documentEli)),
+      _metadata: generateResponseMetadata(db),
+      pagination: buildPagination(TOOL_NAME, scope, offset, pageRows.length, finalRows.length),
     };
   }
 
-  const historicalRow = asOfDate
-    ? db.prepare(`
-        SELECT
-          lpv.document_id,
-          ld.title as document_title,
-          ld.status as document_status,
-          lpv.provision_ref,
-          lpv.chapter,
-          lpv.section,
-          lpv.title,
-          lpv.content,
-          lpv.valid_from,
-          lpv.valid_to
-        FROM legal_provision_versions lpv
-        JOIN legal_documents ld ON ld.id = lpv.document_id
-        WHERE lpv.document_id = ?
-          AND (lpv.provision_ref = ? OR lpv.section = ?)
-          AND (lpv.valid_from IS NULL OR lpv.valid_from <= ?)
-          AND (lpv.valid_to IS NULL OR lpv.valid_to > ?)
-        ORDER BY COALESCE(lpv.valid_from, '0000-01-01') DESC, lpv.id DESC
-        LIMIT 1
-      `).get(resolvedDocumentId, provisionRef, provisionRef, asOfDate, asOfDate) as ProvisionRow | undefined
-    : undefined;
-
-  const row = historicalRow
-    ?? db.prepare(`
-      SELECT
-        lp.document_id,
-        ld.title as document_title,
-        ld.status as document_status,
-        lp.provision_ref,
-        lp.chapter,
-        lp.section,
-        lp.title,
-        lp.content,
-        NULL as valid_from,
-        NULL as valid_to
-      FROM legal_provisions lp
-      JOIN legal_documents ld ON ld.id = lp.document_id
-      WHERE lp.document_id = ? AND (lp.provision_ref = ? OR lp.section = ?)
-    `).get(resolvedDocumentId, provisionRef, provisionRef) as ProvisionRow | undefined;
+  const row = findProvision(db, resolvedDocumentId, provisionRef, asOfDate);
 
   if (!row) {
     return {
@@ -189,8 +313,24 @@ export async function getProvision(
     };
   }
 
+  if (!pinpoint) {
+    return {
+      results: toProvisionResult(row, documentEli),
+      _metadata: generateResponseMetadata(db)
+    };
+  }
+
+  const { language } = db.prepare('SELECT language FROM legal_documents WHERE id = ?')
+    .get(row.document_id) as { language: string | null };
+  let fragment: ReturnType<typeof extractPinpoint>;
+  try {
+    fragment = extractPinpoint(row.content, pinpoint, language);
+  } catch (error) {
+    throw new Error(`${row.provision_ref}: ${(error as Error).message}`);
+  }
+
   return {
-    results: row,
+    results: { ...toProvisionResult(row, documentEli), content: fragment.text, pinpoint: fragment.location },
     _metadata: generateResponseMetadata(db)
   };
 }
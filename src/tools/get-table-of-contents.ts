@@ -0,0 +1,152 @@
+/**
+ * get_table_of_contents — Heading outline of a Belgian statute or code.
+ *
+ * Capability-gated: only available when the document_structure table exists.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import { lookupDocumentEli } from '../utils/eli.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { resolveExistingStatuteId } from '../utils/statute-id.js';
+
+export interface GetTableOfContentsInput {
+  document_id: string;
+  /** Number of heading levels to return (default: all). */
+  max_depth?: number;
+}
+
+export interface ArticleRange {
+  /** provision_ref of the first article under the heading */
+  first: string;
+  /** provision_ref of the last article under the heading */
+  last: string;
+  /** Articles under the heading, including its sub-headings */
+  count: number;
+}
+
+export interface TableOfContentsNode {
+  level: string;
+  number: string;
+  heading: string | null;
+  /** Null when no article falls under the heading (e.g., a repealed chapter). */
+  articles: ArticleRange | null;
+  children: TableOfContentsNode[];
+}
+
+export interface TableOfContentsResult {
+  document_id: string;
+  document_title: string;
+  /** Canonical ELI URI of the act on Justel */
+  document_eli: string | null;
+  outline: TableOfContentsNode[];
+  /** Articles outside any heading, such as those before the first one. */
+  ungrouped_articles: ArticleRange | null;
+}
+
+interface StructureRow {
+  node_id: number;
+  parent_node_id: number | null;
+  level: string;
+  number: string;
+  heading: string | null;
+}
+
+interface ProvisionRow {
+  provision_ref: string;
+  structure_node_id: number | null;
+}
+
+function toRange(refs: string[]): ArticleRange | null {
+  if (refs.length === 0) return null;
+  return { first: refs[0], last: refs[refs.length - 1], count: refs.length };
+}
+
+export async function getTableOfContents(
+  db: Database,
+  input: GetTableOfContentsInput
+): Promise<ToolResponse<TableOfContentsResult>> {
+  if (!input.document_id) {
+    throw new Error('document_id is required');
+  }
+
+  const resolvedId = resolveExistingStatuteId(db, input.document_id);
+  if (!resolvedId) {
+    throw new Error(`Document "${input.document_id}" not found in database`);
+  }
+
+  const doc = db.prepare('SELECT id, title FROM legal_documents WHERE id = ?')
+    .get(resolvedId) as { id: string; title: string };
+
+  const nodes = db.prepare(`
+    SELECT node_id, parent_node_id, level, number, heading
+    FROM document_structure
+    WHERE document_id = ?
+    ORDER BY node_id
+  `).all(resolvedId) as StructureRow[];
+
+  const provisions = db.prepare(`
+    SELECT provision_ref, structure_node_id
+    FROM legal_provisions
+    WHERE document_id = ?
+    ORDER BY sort_key, id
+  `).all(resolvedId) as ProvisionRow[];
+
+  const nodeIds = new Set(nodes.map(node => node.node_id));
+  const articlesByNode = new Map<number, string[]>();
+  const ungrouped: string[] = [];
+  for (const provision of provisions) {
+    const nodeId = provision.structure_node_id;
+    if (nodeId === null || !nodeIds.has(nodeId)) {
+      ungrouped.push(provision.provision_ref);
+      continue;
+    }
+    const refs = articlesByNode.get(nodeId) ?? [];
+    refs.push(provision.provision_ref);
+    articlesByNode.set(nodeId, refs);
+  }
+
+  const childrenByParent = new Map<number | null, StructureRow[]>();
+  for (const node of nodes) {
+    const parent = node.parent_node_id !== null && nodeIds.has(node.parent_node_id) ? node.parent_node_id : null;
+    const siblings = childrenByParent.get(parent) ?? [];
+    siblings.push(node);
+    childrenByParent.set(parent, siblings);
+  }
+
+  const maxDepth = input.max_depth && input.max_depth > 0 ? input.max_depth : Infinity;
+
+  // Articles are listed in article order, so a heading's own articles come
+  // before those of its sub-headings.
+  const build = (node: StructureRow, depth: number): { entry: TableOfContentsNode; refs: string[] } => {
+    const refs = [...(articlesByNode.get(node.node_id) ?? [])];
+    const children: TableOfContentsNode[] = [];
+    for (const child of childrenByParent.get(node.node_id) ?? []) {
+      const built = build(child, depth + 1);
+      refs.push(...built.refs);
+      children.push(built.entry);
+    }
+    return {
+      entry: {
+        level: node.level,
+        number: node.number,
+        heading: node.heading,
+        articles: toRange(refs),
+        children: depth < maxDepth ? children : [],
+      },
+      refs,
+    };
+  };
+
+  const outline = (childrenByParent.get(null) ?? []).map(node => build(node, 1).entry);
+
+  return {
+    results: {
+      document_id: doc.id,
+      document_title: doc.title,
+      document_eli: lookupDocumentEli(db, doc.id),
+      outline,
+      ungrouped_articles: toRange(ungrouped),
+    },
+    _metadata: generateResponseMetadata(db),
+  };
+}
@@ -13,7 +13,11 @@ import Database from '@ansvar/mcp-sqlite';
 
 import { searchLegislation, SearchLegislationInput } from './search-legislation.js';
 import { getProvision, GetProvisionInput } from './get-provision.js';
+import { getAmendmentHistory, GetAmendmentHistoryInput } from './get-amendment-history.js';
+import { compareProvisionVersions, CompareProvisionVersionsInput } from './compare-provision-versions.js';
+import { getBilingualProvision, GetBilingualProvisionInput } from './get-bilingual-provision.js';
 import { validateCitationTool, ValidateCitationInput } from './validate-citation.js';
+import { extractCitationsTool, ExtractCitationsInput } from './extract-citations.js';
 import { buildLegalStance, BuildLegalStanceInput } from './build-legal-stance.js';
 import { formatCitationTool, FormatCitationInput } from './format-citation.js';
 import { checkCurrency, CheckCurrencyInput } from './check-currency.js';
@@ -25,6 +29,9 @@ import { validateEUCompliance, ValidateEUComplianceInput } from './validate-eu-c
 import { listSources } from './list-sources.js';
 import { searchCaseLaw, SearchCaseLawInput } from './search-case-law.js';
 import { getDefinitions, GetDefinitionsInput } from './get-definitions.js';
+import { getTableOfContents, GetTableOfContentsInput } from './get-table-of-contents.js';
+import { getCrossReferences, GetCrossReferencesInput } from './get-cross-references.js';
+import { analyzeImpact, AnalyzeImpactInput } from './analyze-impact.js';
 import { getAbout, type AboutContext } from './about.js';
 import { detectCapabilities } from '../capabilities.js';
 import { upgradeMessage } from '../capabilities.js';
@@ -60,9 +67,12 @@ export const TOOLS: Tool[] = [
       'Search Belgian statutes and regulations by keyword using full-text search (FTS5 with BM25 ranking). ' +
       'Returns matching provisions with document context, snippets with >>> <<< markers around matched terms, and relevance scores. ' +
       'Supports FTS5 syntax: quoted phrases ("exact match"), boolean operators (AND, OR, NOT), and prefix wildcards (term*). ' +
+      'Matching ignores accents; when the exact terms find nothing, French and Dutch stems are tried (e.g., "verwerkingen" finds "verwerking"). ' +
       'Use as_of_date to search historical provision versions valid on a specific date. ' +
-      'Results are in French (primary) or Dutch depending on available translations. ' +
-      'Default limit is 10 results. For broad topics, increase the limit. ' +
+      'Results are in French or Dutch; use language to restrict to one, and merge_translations to collapse ' +
+      'French and Dutch hits on the same article (same NUMAC) into one result with both snippets. ' +
+      'Default limit is 10 results per page. The response\'s pagination block gives total_matches and a next_cursor; ' +
+      'pass next_cursor as cursor to fetch the next page. ' +
       'Do NOT use this for retrieving a known provision — use get_provision instead.',
     inputSchema: {
       type: 'object',
@@ -75,7 +85,7 @@ export const TOOLS: Tool[] = [
         },
         document_id: {
           type: 'string',
-          description: 'Optional: filter results to a specific statute by its document ID.',
+          description: 'Optional: filter results to a specific statute by its document ID, ELI URI or NUMAC.',
         },
         status: {
           type: 'string',
@@ -88,11 +98,26 @@ export const TOOLS: Tool[] = [
             'Optional: ISO 8601 date (YYYY-MM-DD). Returns historical provision versions valid on that date. ' +
             'Omit to search current (in-force) provisions.',
         },
+        language: {
+          type: 'string',
+          enum: ['fr', 'nl', 'any'],
+          description: 'Optional: restrict results to French or Dutch provisions (default: any).',
+        },
+        merge_translations: {
+          type: 'boolean',
+          description:
+            'Optional: collapse French and Dutch hits on the same article into one result; ' +
+            'the other language hit is listed under translations.',
+        },
         limit: {
           type: 'number',
-          description: 'Maximum results to return (default: 10, max: 50).',
+          description: 'Maximum results per page (default: 10, max: 50).',
           default: 10,
         },
+        cursor: {
+          type: 'string',
+          description: 'Optional: next_cursor from the previous response, to fetch the next page of the same search.',
+        },
       },
       required: ['query'],
     },
@@ -102,9 +127,14 @@ export const TOOLS: Tool[] = [
     description:
       'Retrieve the full text of a specific provision (article/section) from a Belgian statute. ' +
       'Specify a document_id and optionally a section number or provision_ref to get a single provision. ' +
-      'Omit section/provision_ref to get ALL provisions in the statute (use sparingly — can be large). ' +
+      'Omit section/provision_ref to list the provisions of the statute in article order ' +
+      '(4, 4/1, 4bis, 4ter, 5, ...), 100 per page by default; follow pagination.next_cursor to walk large codes. ' +
+      'To fetch several articles in one call, use range (e.g., "art5-art12" or "5 à 9") or ' +
+      'provision_refs (e.g., ["art3", "art7bis", "art12/1"]); both return the articles in article order. ' +
       'Use as_of_date to retrieve the historical version of a provision valid on a specific date. ' +
-      'Returns provision text, chapter, section number, and metadata. ' +
+      'Use pinpoint to get a single paragraph (§), alinéa or point instead of the whole article. ' +
+      'Returns provision text, chapter, section number, and metadata, including the amendments flagged by Justel ' +
+      'markers (amending act, date, type). ' +
       'Use this when you know WHICH provision you want. For discovery, use search_legislation instead.',
     inputSchema: {
       type: 'object',
@@ -112,8 +142,10 @@ export const TOOLS: Tool[] = [
         document_id: {
           type: 'string',
           description:
-            'Statute identifier (e.g., "loi-2018-07-30-2018040581-fr") or a fuzzy title match ' +
-            '(e.g., "Loi du 30 juillet 2018"). The server resolves titles to IDs automatically.',
+            'Statute identifier (e.g., "loi-2018-07-30-2018040581-fr"), ELI URI ' +
+            '(e.g., "http://www.ejustice.just.fgov.be/eli/loi/2018/07/30/2018040581/justel"), NUMAC ' +
+            '(e.g., "2018040581") or a fuzzy title match (e.g., "Loi du 30 juillet 2018"). ' +
+            'The server resolves titles to IDs automatically.',
         },
         section: {
           type: 'string',
@@ -123,22 +155,133 @@ export const TOOLS: Tool[] = [
           type: 'string',
           description: 'Direct provision reference (e.g., "art3"). Alternative to section parameter.',
         },
+        pinpoint: {
+          type: 'string',
+          description:
+            'Optional: return only part of the article, e.g. "§ 2, alinéa 3, 4°", "§ 2, 2°, b)", "§ 2, al. 3", ' +
+            '"§ 1er" or "§ 2, lid 3, 4°" / "tweede lid". Alinéas (leden) are counted within their paragraph. ' +
+            'The response gives the resolved location under pinpoint.',
+        },
         as_of_date: {
           type: 'string',
           description: 'Optional: ISO 8601 date (YYYY-MM-DD). Returns the provision version valid on that date.',
         },
+        provision_refs: {
+          type: 'array',
+          items: { type: 'string' },
+          description:
+            'Optional: several provisions at once, as provision_refs or section numbers (e.g., ["art3", "7bis"]). ' +
+            'Returned in article order; fails if any is not found. Cannot be combined with section/provision_ref/range.',
+        },
+        range: {
+          type: 'string',
+          description:
+            'Optional: articles to list instead of the whole statute, bounds included, e.g. "5 to 9", "art5-art12", ' +
+            '"art. 4bis à 7" or "12/1 tot 12/4". Cannot be combined with section/provision_ref.',
+        },
+        limit: {
+          type: 'number',
+          description: 'Provisions per page when section/provision_ref is omitted (default: 100, max: 500).',
+          default: 100,
+        },
+        cursor: {
+          type: 'string',
+          description: 'Optional: next_cursor from the previous response, to fetch the next page of the listing.',
+        },
       },
       required: ['document_id'],
     },
   },
+  {
+    name: 'get_amendment_history',
+    description:
+      'List every recorded change to a provision over time, oldest first. ' +
+      'Each timeline entry gives the version\'s validity window (valid_from inclusive, valid_to exclusive), ' +
+      'the amending acts first recorded in that version (Justel reference, date, type), ' +
+      'and a word-level diff (equal/insert/delete segments) against the previous version. ' +
+      'Use this to see how an article evolved across successive reforms. ' +
+      'For the text on a single date, use get_provision with as_of_date instead.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        document_id: {
+          type: 'string',
+          description: 'Statute identifier, ELI URI, NUMAC or title (fuzzy matching supported).',
+        },
+        provision_ref: {
+          type: 'string',
+          description: 'Provision reference (e.g., "art3" or "3").',
+        },
+      },
+      required: ['document_id', 'provision_ref'],
+    },
+  },
+  {
+    name: 'compare_provision_versions',
+    description:
+      'Compare the text of a provision, or of a whole statute, as it read on two dates. ' +
+      'Each date is resolved to the version in force on that day (the same lookup get_provision uses with as_of_date). ' +
+      'Returns word-level equal/insert/delete segments from date_a to date_b, with the change type ' +
+      '(added, repealed, modified, unchanged) and the validity window of each compared version. ' +
+      'Without provision_ref, only articles that were added, repealed or modified are listed, plus a summary of counts. ' +
+      'Provisions without recorded history are treated as unchanged.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        document_id: {
+          type: 'string',
+          description: 'Statute identifier, ELI URI, NUMAC or title (fuzzy matching supported).',
+        },
+        provision_ref: {
+          type: 'string',
+          description: 'Provision reference (e.g., "art3"). Omit to compare the whole statute.',
+        },
+        date_a: {
+          type: 'string',
+          description: 'Earlier reference date (ISO YYYY-MM-DD).',
+        },
+        date_b: {
+          type: 'string',
+          description: 'Later reference date (ISO YYYY-MM-DD).',
+        },
+      },
+      required: ['document_id', 'date_a', 'date_b'],
+    },
+  },
+  {
+    name: 'get_bilingual_provision',
+    description:
+      'Retrieve the French and Dutch text of the same article side by side, plus the German translation when available. ' +
+      'Language versions of a Belgian act share its NUMAC and are paired automatically from either document_id. ' +
+      'Articles are matched by number; the response flags when numbering diverges between the French and Dutch versions ' +
+      '(articles present in only one language), so both versions can be cited accurately.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        document_id: {
+          type: 'string',
+          description: 'French or Dutch statute identifier, ELI URI, NUMAC or title (fuzzy matching supported).',
+        },
+        provision_ref: {
+          type: 'string',
+          description: 'Provision reference (e.g., "art1" or "1").',
+        },
+      },
+      required: ['document_id', 'provision_ref'],
+    },
+  },
   {
     name: 'validate_citation',
     description:
       'Validate a Belgian legal citation against the database — zero-hallucination check. ' +
       'Parses the citation, checks that the document and provision exist, and returns warnings about status ' +
       '(repealed, amended). Use this to verify any citation BEFORE including it in a legal analysis. ' +
-      'Supports formats: "Loi du 2 février 1994, art. 1", "Section 3, Data Protection Act 2018", ' +
-      'or statute ID + provision reference.',
+      'Supports formats: "Loi du 2 février 1994, art. 1", "A.R. du 1er juillet 2011, art. 3", "K.B. van ...", ' +
+      '"décret flamand du ...", "ordonnance du ...", codes by name or abbreviation ("Code civil, art. 1382", ' +
+      '"art. 1382 C. civ.", "art. XII.1 CDE", "art. 1382 BW"), or statute ID / NUMAC + provision reference. ' +
+      'When several documents fit (e.g., two lois of the same date), the result is flagged ambiguous and lists ranked ' +
+      'candidates with a confidence; when nothing fits, suggestions give the closest matches (same date, other language ' +
+      'version, similar title, or the article in an act of the same date). Pass citations to check up to 100 at once.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -148,8 +291,33 @@ export const TOOLS: Tool[] = [
             'Citation string to validate. Examples: "Loi du 2 février 1994, art. 1", ' +
             '"loi-2018-07-30-2018040581-fr art3".',
         },
+        citations: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Several citations (at most 100) to validate in one call, instead of citation; results keep the same order.',
+        },
       },
-      required: ['citation'],
+    },
+  },
+  {
+    name: 'extract_citations',
+    description:
+      'Find every legal reference in free text (a contract, an opinion, an AI-generated draft) and check each one ' +
+      'against the database. Recognizes Belgian acts by title ("loi du 8 décembre 1992", "A.R. du ...", ' +
+      '"décret flamand du ...", "Code civil"), statute ID, NUMAC ' +
+      'or ELI, articles attached to them ("article 5, § 2, de la loi du ...", "art. 1382 C. civ."), and EU directives and regulations ' +
+      '("Directive 95/46/CE", "Règlement (UE) 2016/679"). Each match comes with its character offsets (start, end) ' +
+      'and a status: existing, repealed or unknown. Treat unknown references as possible errors or hallucinations. ' +
+      'Articles mentioned without their statute ("l\'article 5") are not reported.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        text: {
+          type: 'string',
+          description: 'Text to scan, in French or Dutch (max 200,000 characters).',
+        },
+      },
+      required: ['text'],
     },
   },
   {
@@ -169,7 +337,7 @@ export const TOOLS: Tool[] = [
         },
         document_id: {
           type: 'string',
-          description: 'Optional: limit search to one statute by document ID.',
+          description: 'Optional: limit search to one statute by document ID, ELI URI or NUMAC.',
         },
         limit: {
           type: 'number',
@@ -184,8 +352,11 @@ export const TOOLS: Tool[] = [
     name: 'format_citation',
     description:
       'Format a Belgian legal citation per standard Belgian citation conventions. ' +
-      'Three formats: "full" (formal, e.g., "Loi du 2 février 1994, art. 1"), ' +
-      '"short" (abbreviated), "pinpoint" (article reference only). ' +
+      'The cited act is looked up in the database for its full title and publication date. Formats: ' +
+      '"full" (e.g., "Loi du 30 juillet 2018 relative à …, M.B., 5 septembre 2018, art. 5, § 2, al. 1er" or ' +
+      '"Wet van 30 juli 2018 betreffende …, B.S. 5 september 2018, art. 5, § 2, eerste lid"), ' +
+      '"short_title" (e.g., "Loi du 30 juillet 2018, art. 5"), "short" (article first), "pinpoint" (article reference only). ' +
+      'Use language to cite the French (M.B.) or Dutch (B.S.) version. ' +
       'Use this to normalize citation format before presenting to users.',
     inputSchema: {
       type: 'object',
@@ -193,10 +364,15 @@ export const TOOLS: Tool[] = [
         citation: { type: 'string', description: 'Citation string to format.' },
         format: {
           type: 'string',
-          enum: ['full', 'short', 'pinpoint'],
+          enum: ['full', 'short', 'short_title', 'pinpoint'],
           description: 'Output format (default: "full").',
           default: 'full',
         },
+        language: {
+          type: 'string',
+          enum: ['fr', 'nl'],
+          description: 'Citation language: "fr" (Moniteur belge) or "nl" (Belgisch Staatsblad). Defaults to the language of the cited act.',
+        },
       },
       required: ['citation'],
     },
@@ -205,15 +381,16 @@ export const TOOLS: Tool[] = [
     name: 'check_currency',
     description:
       'Check whether a Belgian statute or provision is currently in force, amended, repealed, or not yet in force. ' +
-      'Returns the document status, issued date, in-force date, and warnings (e.g., if repealed). ' +
-      'Use as_of_date to check historical in-force status. ' +
+      'Returns the document status, issued date, in-force date, repeal date and repealing act, and warnings (e.g., if repealed). ' +
+      'Use as_of_date to check historical in-force status; it is computed from the in-force and repeal dates. ' +
+      'With provision_ref, status_as_of reflects the article\'s own entry into force and repeal (articles are often brought into force separately by royal decree); document_status_as_of gives the act\'s status. ' +
       'Essential before citing any provision — always verify currency.',
     inputSchema: {
       type: 'object',
       properties: {
         document_id: {
           type: 'string',
-          description: 'Statute identifier or title (fuzzy matching supported).',
+          description: 'Statute identifier, ELI URI, NUMAC or title (fuzzy matching supported).',
         },
         provision_ref: {
           type: 'string',
@@ -239,7 +416,7 @@ export const TOOLS: Tool[] = [
       properties: {
         document_id: {
           type: 'string',
-          description: 'Belgian statute identifier.',
+          description: 'Belgian statute identifier, ELI URI or NUMAC.',
         },
         include_articles: {
           type: 'boolean',
@@ -334,7 +511,7 @@ export const TOOLS: Tool[] = [
       properties: {
         document_id: {
           type: 'string',
-          description: 'Belgian statute identifier.',
+          description: 'Belgian statute identifier, ELI URI or NUMAC.',
         },
         provision_ref: {
           type: 'string',
@@ -356,7 +533,7 @@ export const TOOLS: Tool[] = [
       properties: {
         document_id: {
           type: 'string',
-          description: 'Belgian statute identifier.',
+          description: 'Belgian statute identifier, ELI URI or NUMAC.',
         },
         provision_ref: {
           type: 'string',
@@ -370,6 +547,40 @@ export const TOOLS: Tool[] = [
       required: ['document_id'],
     },
   },
+  {
+    name: 'analyze_impact',
+    description:
+      'Assess what is affected if a provision changes or is annulled (e.g., by the Constitutional Court). ' +
+      'Combines provisions citing it (directly or through other citing provisions, up to depth links away), ' +
+      'provisions using terms it defines, EU obligations it implements, and court decisions citing it. ' +
+      'Returns affected provisions ranked by score (1 for a direct citation, lower for indirect ones), each with ' +
+      'the reasons it is affected, a per-document summary, and the affected definitions, EU references and case law. ' +
+      'Covers the French and Dutch versions of the article. Sources missing from this database are listed in unavailable_sources.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        document_id: {
+          type: 'string',
+          description: 'Statute identifier, ELI URI, NUMAC or title (fuzzy matching supported).',
+        },
+        provision_ref: {
+          type: 'string',
+          description: 'Provision reference (e.g., "art3" or "3").',
+        },
+        depth: {
+          type: 'number',
+          description: 'Citation links to follow away from the provision (default: 2, max: 3).',
+          default: 2,
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum affected provisions returned (default: 50, max: 200).',
+          default: 50,
+        },
+      },
+      required: ['document_id', 'provision_ref'],
+    },
+  },
 ];
 
 /* ------------------------------------------------------------------ */
@@ -382,6 +593,7 @@ const SEARCH_CASE_LAW_TOOL: Tool = {
     'Search Belgian court decisions (case law) by keyword. ' +
     'Returns case summaries, court, case number, decision date, and keyword matches. ' +
     'Filter by court (e.g., "Cour de cassation", "Conseil d\'État") and date range. ' +
+    'Paginated: follow pagination.next_cursor for more results. ' +
     'Available only in professional tier — requires case_law table.',
   inputSchema: {
     type: 'object',
@@ -404,9 +616,13 @@ const SEARCH_CASE_LAW_TOOL: Tool = {
       },
       limit: {
         type: 'number',
-        description: 'Maximum results (default: 10, max: 50).',
+        description: 'Maximum results per page (default: 10, max: 50).',
         default: 10,
       },
+      cursor: {
+        type: 'string',
+        description: 'Optional: next_cursor from the previous response, to fetch the next page of the same search.',
+      },
     },
     required: ['query'],
   },
@@ -428,7 +644,7 @@ const GET_DEFINITIONS_TOOL: Tool = {
       },
       document_id: {
         type: 'string',
-        description: 'Optional: filter to definitions from a specific statute.',
+        description: 'Optional: filter to definitions from a specific statute (document ID, ELI URI or NUMAC).',
       },
       limit: {
         type: 'number',
@@ -440,6 +656,70 @@ const GET_DEFINITIONS_TOOL: Tool = {
   },
 };
 
+const GET_TABLE_OF_CONTENTS_TOOL: Tool = {
+  name: 'get_table_of_contents',
+  description:
+    'Get the heading outline of a Belgian statute or code: Partie, Livre, Titre, Chapitre, Section and ' +
+    'Sous-section (Deel, Boek, Titel, Hoofdstuk, Afdeling, Onderafdeling in Dutch), nested as in the text. ' +
+    'Each heading gives the range of articles under it (first and last provision_ref, and count). ' +
+    'Use this to navigate large codes such as the Code pénal or the Code de droit économique, ' +
+    'then fetch articles with get_provision.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      document_id: {
+        type: 'string',
+        description: 'Statute identifier, ELI URI, NUMAC or a fuzzy title match (e.g., "Code pénal").',
+      },
+      max_depth: {
+        type: 'number',
+        description: 'Optional: number of heading levels to return (default: all). Article ranges still cover deeper levels.',
+      },
+    },
+    required: ['document_id'],
+  },
+};
+
+const GET_CROSS_REFERENCES_TOOL: Tool = {
+  name: 'get_cross_references',
+  description:
+    'Find what a provision cites and which provisions cite it, across the whole corpus. ' +
+    'Each link gives its type (references, amended_by, implements, see_also), the citing provision (source) and ' +
+    'the cited provision or act (target), and its depth: with depth 2, the provisions citing those that cite the ' +
+    'queried article are included too. "Cited by" covers the French and Dutch versions of the act. ' +
+    'Use this when an article is amended or annulled, to find every dependent article. ' +
+    'Links are extracted from the provision texts at build time; references to a whole act are not followed further.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      document_id: {
+        type: 'string',
+        description: 'Statute identifier, ELI URI, NUMAC or title (fuzzy matching supported).',
+      },
+      provision_ref: {
+        type: 'string',
+        description: 'Provision reference (e.g., "art3" or "3"). Omit for the links of the whole act to and from other acts.',
+      },
+      direction: {
+        type: 'string',
+        enum: ['cites', 'cited_by', 'both'],
+        description: 'Which links to follow (default: both).',
+      },
+      depth: {
+        type: 'number',
+        description: 'Number of links to follow away from the provision (default: 1, max: 5). At most 500 links are returned per direction.',
+        default: 1,
+      },
+      ref_types: {
+        type: 'array',
+        items: { type: 'string', enum: ['references', 'amended_by', 'implements', 'see_also'] },
+        description: 'Optional: only follow links of these types.',
+      },
+    },
+    required: ['document_id'],
+  },
+};
+
 /* ------------------------------------------------------------------ */
 /*  Build & register                                                   */
 /* ------------------------------------------------------------------ */
@@ -456,6 +736,12 @@ export function buildTools(
     if (caps.has('case_law')) {
       tools.push(SEARCH_CASE_LAW_TOOL);
     }
+    if (caps.has('document_structure')) {
+      tools.push(GET_TABLE_OF_CONTENTS_TOOL);
+    }
+    if (caps.has('cross_references')) {
+      tools.push(GET_CROSS_REFERENCES_TOOL);
+    }
   }
 
   // Definitions table may exist even in free tier
@@ -499,14 +785,26 @@ export function registerTools(
         case 'get_provision':
           result = await getProvision(db, args as unknown as GetProvisionInput);
           break;
+        case 'get_amendment_history':
+          result = await getAmendmentHistory(db, args as unknown as GetAmendmentHistoryInput);
+          break;
+        case 'compare_provision_versions':
+          result = await compareProvisionVersions(db, args as unknown as CompareProvisionVersionsInput);
+          break;
+        case 'get_bilingual_provision':
+          result = await getBilingualProvision(db, args as unknown as GetBilingualProvisionInput);
+          break;
         case 'validate_citation':
           result = await validateCitationTool(db, args as unknown as ValidateCitationInput);
           break;
+        case 'extract_citations':
+          result = await extractCitationsTool(db, args as unknown as ExtractCitationsInput);
+          break;
         case 'build_legal_stance':
           result = await buildLegalStance(db, args as unknown as BuildLegalStanceInput);
           break;
         case 'format_citation':
-          result = await formatCitationTool(args as unknown as FormatCitationInput);
+          result = await formatCitationTool(db, args as unknown as FormatCitationInput);
           break;
         case 'check_currency':
           result = await checkCurrency(db, args as unknown as CheckCurrencyInput);
@@ -526,6 +824,9 @@ export function registerTools(
         case 'validate_eu_compliance':
           result = await validateEUCompliance(db, args as unknown as ValidateEUComplianceInput);
           break;
+        case 'analyze_impact':
+          result = await analyzeImpact(db, args as unknown as AnalyzeImpactInput);
+          break;
         case 'list_sources':
           result = await listSources(db);
           break;
@@ -540,6 +841,26 @@ export function registerTools(
           result = await searchCaseLaw(db, args as unknown as SearchCaseLawInput);
           break;
         }
+        case 'get_table_of_contents': {
+          if (!detectCapabilities(db).has('document_structure')) {
+            return {
+              content: [{ type: 'text', text: 'The document_structure table is not available in this database. Rebuild it to enable get_table_of_contents.' }],
+              isError: true,
+            };
+          }
+          result = await getTableOfContents(db, args as unknown as GetTableOfContentsInput);
+          break;
+        }
+        case 'get_cross_references': {
+          if (!detectCapabilities(db).has('cross_references')) {
+            return {
+              content: [{ type: 'text', text: 'The cross_references table is not available in this database. Rebuild it to enable get_cross_references.' }],
+              isError: true,
+            };
+          }
+          result = await getCrossReferences(db, args as unknown as GetCrossReferencesInput);
+          break;
+        }
         case 'get_definitions': {
           try {
             db.prepare("SELECT 1 FROM definitions LIMIT 1").get();
@@ -8,6 +8,7 @@ import type Database from '@ansvar/mcp-sqlite';
 import { buildFtsQueryVariants } from '../utils/fts-query.js';
 import { sanitizeFtsInput } from '../utils/fts-query.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { buildPagination, decodeCursor } from '../utils/pagination.js';
 
 export interface SearchCaseLawInput {
   query: string;
@@ -15,6 +16,8 @@ export interface SearchCaseLawInput {
   date_from?: string;
   date_to?: string;
   limit?: number;
+  /** next_cursor from a previous page of the same search. */
+  cursor?: string;
 }
 
 export interface CaseLawResult {
@@ -27,6 +30,7 @@ export interface CaseLawResult {
   snippet: string;
 }
 
+const TOOL_NAME = 'search_case_law';
 const DEFAULT_LIMIT = 10;
 const MAX_LIMIT = 50;
 
@@ -40,17 +44,16 @@ export async function searchCaseLaw(
 
   const limit = Math.min(Math.max(input.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
   const queryVariants = buildFtsQueryVariants(sanitizeFtsInput(input.query));
+  const scope = {
+    query: input.query,
+    court: input.court,
+    date_from: input.date_from,
+    date_to: input.date_to,
+  };
+  const offset = decodeCursor(input.cursor, TOOL_NAME, scope);
 
-  const run = (ftsQuery: string): CaseLawResult[] => {
-    let sql = `
-      SELECT
-        cl.document_id,
-        cl.court,
-        cl.case_number,
-        cl.decision_date,
-        cl.summary,
-        cl.keywords,
-        snippet(case_law_fts, 0, '>>>', '<<<', '...', 32) as snippet
+  const run = (ftsQuery: string): { rows: CaseLawResult[]; total: number } => {
+    let from = `
       FROM case_law_fts
       JOIN case_law cl ON cl.id = case_law_fts.rowid
       WHERE case_law_fts MATCH ?
@@ -58,29 +61,49 @@ export async function searchCaseLaw(
     const params: (string | number)[] = [ftsQuery];
 
     if (input.court) {
-      sql += ` AND cl.court = ?`;
+      from += ` AND cl.court = ?`;
       params.push(input.court);
     }
     if (input.date_from) {
-      sql += ` AND cl.decision_date >= ?`;
+      from += ` AND cl.decision_date >= ?`;
       params.push(input.date_from);
     }
     if (input.date_to) {
-      sql += ` AND cl.decision_date <= ?`;
+      from += ` AND cl.decision_date <= ?`;
       params.push(input.date_to);
     }
 
-    sql += ` ORDER BY bm25(case_law_fts) LIMIT ?`;
-    params.push(limit);
+    const { total } = db.prepare(`SELECT count(*) as total ${from}`).get(...params) as { total: number };
+    if (total <= offset) {
+      return { rows: [], total };
+    }
+
+    const rows = db.prepare(`
+      SELECT
+        cl.document_id,
+        cl.court,
+        cl.case_number,
+        cl.decision_date,
+        cl.summary,
+        cl.keywords,
+        snippet(case_law_fts, 0, '>>>', '<<<', '...', 32) as snippet
+      ${from}
+      ORDER BY bm25(case_law_fts)
+      LIMIT ? OFFSET ?
+    `).all(...params, limit, offset) as CaseLawResult[];
 
-    return db.prepare(sql).all(...params) as CaseLawResult[];
+    return { rows, total };
   };
 
   const primary = run(queryVariants.primary);
-  const results =
-    primary.length > 0 || !queryVariants.fallback
+  const page =
+    primary.total > 0 || !queryVariants.fallback
       ? primary
       : run(queryVariants.fallback);
 
-  return { results, _metadata: generateResponseMetadata(db) };
+  return {
+    results: page.rows,
+    _metadata: generateResponseMetadata(db),
+    pagination: buildPagination(TOOL_NAME, scope, offset, page.rows.length, page.total),
+  };
 }
@@ -5,31 +5,107 @@
 import type { Database } from '@ansvar/mcp-sqlite';
 import { buildFtsQueryVariants, sanitizeFtsInput } from '../utils/fts-query.js';
 import { normalizeAsOfDate } from '../utils/as-of-date.js';
+import { createDocumentEliLookup } from '../utils/eli.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { buildPagination, decodeCursor } from '../utils/pagination.js';
+import { resolveExistingStatuteId } from '../utils/statute-id.js';
+import { stemSnippet } from '../utils/stemmer.js';
+import { detectCapabilities } from '../capabilities.js';
 
 export interface SearchLegislationInput {
   query: string;
   document_id?: string;
   status?: string;
   as_of_date?: string;
+  language?: SearchLanguage;
+  /** Collapse French and Dutch hits on the same article (same NUMAC) into one result. */
+  merge_translations?: boolean;
   limit?: number;
+  /** next_cursor from a previous page of the same search. */
+  cursor?: string;
+}
+
+export type SearchLanguage = 'fr' | 'nl' | 'any';
+
+export interface SearchTranslationHit {
+  language: string | null;
+  document_id: string;
+  document_title: string;
+  document_eli: string | null;
+  provision_ref: string;
+  snippet: string;
+  relevance: number;
 }
 
 export interface SearchLegislationResult {
   document_id: string;
   document_title: string;
+  /** Canonical ELI URI of the act on Justel */
+  document_eli: string | null;
   provision_ref: string;
   chapter: string | null;
   section: string;
   title: string | null;
+  language: string | null;
+  numac: string | null;
   snippet: string;
   relevance: number;
   valid_from?: string | null;
   valid_to?: string | null;
+  /** Hits on the same article in the other language version (merge_translations only). */
+  translations?: SearchTranslationHit[];
 }
 
+interface SearchPage {
+  rows: SearchLegislationResult[];
+  /** Matching provisions across all pages (articles when merging translations). */
+  total: number;
+}
+
+type SearchHitRow = SearchLegislationResult & { merge_key: string };
+
+const TOOL_NAME = 'search_legislation';
 const DEFAULT_LIMIT = 10;
 const MAX_LIMIT = 50;
+const LANGUAGES: SearchLanguage[] = ['fr', 'nl', 'any'];
+
+/** Article a hit belongs to across language versions: NUMAC and section, else the provision itself. */
+function mergeKeySql(alias: string): string {
+  return `COALESCE(NULLIF(ld.numac, '') || '|' || ${alias}.section, ${alias}.document_id || '|' || ${alias}.provision_ref)`;
+}
+
+/**
+ * Collapse hits on the same article of the same act published in several
+ * languages. The best-ranked hit is kept; the others become its translations.
+ * Articles are matched on NUMAC and section number, since the French and Dutch
+ * provision_ref may differ ("art1er" / "art1").
+ */
+function mergeTranslations(rows: SearchLegislationResult[]): SearchLegislationResult[] {
+  const merged = new Map<string, SearchLegislationResult>();
+
+  for (const row of rows) {
+    const key = row.numac ? `${row.numac}|${row.section}` : `${row.document_id}|${row.provision_ref}`;
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, { ...row, translations: [] });
+      continue;
+    }
+    if (existing.language === row.language) {
+      continue;
+    }
+    existing.translations?.push({
+      language: row.language,
+      document_id: row.document_id,
+      document_title: row.document_title,
+      document_eli: row.document_eli,
+      provision_ref: row.provision_ref,
+      snippet: row.snippet,
+      relevance: row.relevance,
+    });
+  }
+
+  return [...merged.values()];
+}
 
 export async function searchLegislation(
   db: Database,
@@ -42,12 +118,93 @@ export async function searchLegislation(
     };
   }
 
+  const language = input.language ?? 'any';
+  if (!LANGUAGES.includes(language)) {
+    throw new Error(`language must be one of: ${LANGUAGES.join(', ')}`);
+  }
+
   const limit = Math.min(Math.max(input.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
   const queryVariants = buildFtsQueryVariants(sanitizeFtsInput(input.query));
   const asOfDate = normalizeAsOfDate(input.as_of_date);
+  const documentId = input.document_id
+    ? resolveExistingStatuteId(db, input.document_id) ?? input.document_id
+    : undefined;
+
+  const scope = {
+    query: input.query,
+    document_id: input.document_id,
+    status: input.status,
+    as_of_date: asOfDate,
+    language,
+    merge_translations: input.merge_translations ?? false,
+  };
+  const offset = decodeCursor(input.cursor, TOOL_NAME, scope);
+
+  /**
+   * One page of hits ordered by relevance. When merging translations, pages
+   * are cut by article instead, with every language hit of each article on
+   * the page, so page sizes and totals count merged results. The hits are
+   * materialized since bm25() and snippet() only run in the FTS query itself.
+   */
+  const pageSql = (hitsSql: string): string => input.merge_translations
+    ? `
+      WITH hits AS MATERIALIZED (${hitsSql}),
+      articles AS (
+        SELECT merge_key, min(relevance) as best
+        FROM hits
+        GROUP BY merge_key
+        ORDER BY best, merge_key
+        LIMIT ? OFFSET ?
+      )
+      SELECT hits.*
+      FROM hits
+      JOIN articles ON articles.merge_key = hits.merge_key
+      ORDER BY articles.best, articles.merge_key, hits.relevance
+    `
+    : `${hitsSql}\nORDER BY relevance\nLIMIT ? OFFSET ?`;
+
+  const toResults = (rows: SearchHitRow[]): SearchLegislationResult[] =>
+    rows.map(({ merge_key, ...row }) => row);
+
+  const stems = new Set(queryVariants.stems ?? []);
+
+  // Stemmed indexes hold no original text, so their snippets are built here.
+  const highlightStems = (rows: SearchLegislationResult[]): SearchLegislationResult[] =>
+    rows.map(row => ({ ...row, snippet: stemSnippet(row.snippet, row.language, stems) }));
+
+  const runCurrentQuery = (ftsQuery: string, stemmed = false): SearchPage => {
+    const fts = stemmed ? 'provisions_stem_fts' : 'provisions_fts';
+    let from = `
+      FROM ${fts}
+      JOIN legal_provisions lp ON lp.id = ${fts}.rowid
+      JOIN legal_documents ld ON ld.id = lp.document_id
+      WHERE ${fts} MATCH ?
+    `;
+
+    const params: (string | number)[] = [ftsQuery];
+
+    if (documentId) {
+      from += ` AND lp.document_id = ?`;
+      params.push(documentId);
+    }
+
+    if (input.status) {
+      from += ` AND ld.status = ?`;
+      params.push(input.status);
+    }
+
+    if (language !== 'any') {
+      from += ` AND lp.language = ?`;
+      params.push(language);
+    }
+
+    const counted = input.merge_translations ? `DISTINCT ${mergeKeySql('lp')}` : '*';
+    const { total } = db.prepare(`SELECT count(${counted}) as total ${from}`).get(...params) as { total: number };
+    if (total <= offset) {
+      return { rows: [], total };
+    }
 
-  const runCurrentQuery = (ftsQuery: string): SearchLegislationResult[] => {
-    let sql = `
+    const sql = pageSql(`
       SELECT
         lp.document_id,
         ld.title as document_title,
@@ -55,76 +212,88 @@ export async function searchLegislation(
         lp.chapter,
         lp.section,
         lp.title,
-        snippet(provisions_fts, 0, '>>>', '<<<', '...', 32) as snippet,
-        bm25(provisions_fts) as relevance,
+        lp.language,
+        ld.numac,
+        ${stemmed ? 'lp.content' : `snippet(provisions_fts, 0, '>>>', '<<<', '...', 32)`} as snippet,
+        bm25(${fts}) as relevance,
         NULL as valid_from,
-        NULL as valid_to
-      FROM provisions_fts
-      JOIN legal_provisions lp ON lp.id = provisions_fts.rowid
-      JOIN legal_documents ld ON ld.id = lp.document_id
-      WHERE provisions_fts MATCH ?
-    `;
+        NULL as valid_to,
+        ${mergeKeySql('lp')} as merge_key
+      ${from}
+    `);
 
-    const params: (string | number)[] = [ftsQuery];
+    const rows = toResults(db.prepare(sql).all(...params, limit, offset) as SearchHitRow[]);
+    return { rows: stemmed ? highlightStems(rows) : rows, total };
+  };
+
+  const runHistoricalQuery = (ftsQuery: string, stemmed = false): SearchPage => {
+    if (!asOfDate) {
+      return { rows: [], total: 0 };
+    }
+
+    const fts = stemmed ? 'provision_versions_stem_fts' : 'provision_versions_fts';
 
-    if (input.document_id) {
-      sql += ` AND lp.document_id = ?`;
-      params.push(input.document_id);
+    let from = `
+        FROM ${fts}
+        JOIN legal_provision_versions lpv ON lpv.id = ${fts}.rowid
+        JOIN legal_documents ld ON ld.id = lpv.document_id
+        WHERE ${fts} MATCH ?
+          AND (lpv.valid_from IS NULL OR lpv.valid_from <= ?)
+          AND (lpv.valid_to IS NULL OR lpv.valid_to > ?)
+    `;
+    const params: (string | number)[] = [ftsQuery, asOfDate, asOfDate];
+
+    if (documentId) {
+      from += ` AND lpv.document_id = ?`;
+      params.push(documentId);
     }
 
     if (input.status) {
-      sql += ` AND ld.status = ?`;
+      from += ` AND ld.status = ?`;
       params.push(input.status);
     }
 
-    sql += ` ORDER BY relevance LIMIT ?`;
-    params.push(limit);
-
-    return db.prepare(sql).all(...params) as SearchLegislationResult[];
-  };
+    if (language !== 'any') {
+      from += ` AND lpv.language = ?`;
+      params.push(language);
+    }
 
-  const runHistoricalQuery = (ftsQuery: string): SearchLegislationResult[] => {
-    if (!asOfDate) {
-      return [];
+    // One result per provision (or article), so count those rather than versions.
+    const counted = input.merge_translations
+      ? `SELECT DISTINCT ${mergeKeySql('lpv')} ${from}`
+      : `SELECT DISTINCT lpv.document_id, lpv.provision_ref ${from}`;
+    const { total } = db.prepare(`SELECT count(*) as total FROM (${counted})`).get(...params) as { total: number };
+    if (total <= offset) {
+      return { rows: [], total };
     }
 
-    let sql = `
-      WITH ranked_versions AS (
+    const sql = pageSql(`
+      WITH version_hits AS (
         SELECT
+          lpv.id,
           lpv.document_id,
           ld.title as document_title,
           lpv.provision_ref,
           lpv.chapter,
           lpv.section,
           lpv.title,
-          substr(lpv.content, 1, 320) as snippet,
-          0.0 as relevance,
+          lpv.language,
+          ld.numac,
+          ${stemmed ? 'lpv.content' : `snippet(provision_versions_fts, 0, '>>>', '<<<', '...', 32)`} as snippet,
+          bm25(${fts}) as relevance,
           lpv.valid_from,
           lpv.valid_to,
+          ${mergeKeySql('lpv')} as merge_key
+        ${from}
+      ),
+      ranked_versions AS (
+        SELECT
+          *,
           row_number() OVER (
-            PARTITION BY lpv.document_id, lpv.provision_ref
-            ORDER BY COALESCE(lpv.valid_from, '0000-01-01') DESC, lpv.id DESC
+            PARTITION BY document_id, provision_ref
+            ORDER BY COALESCE(valid_from, '0000-01-01') DESC, id DESC
           ) as version_rank
-        FROM provision_versions_fts
-        JOIN legal_provision_versions lpv ON lpv.id = provision_versions_fts.rowid
-        JOIN legal_documents ld ON ld.id = lpv.document_id
-        WHERE provision_versions_fts MATCH ?
-          AND (lpv.valid_from IS NULL OR lpv.valid_from <= ?)
-          AND (lpv.valid_to IS NULL OR lpv.valid_to > ?)
-    `;
-    const params: (string | number)[] = [ftsQuery, asOfDate, asOfDate];
-
-    if (input.document_id) {
-      sql += ` AND lpv.document_id = ?`;
-      params.push(input.document_id);
-    }
-
-    if (input.status) {
-      sql += ` AND ld.status = ?`;
-      params.push(input.status);
-    }
-
-    sql += `
+        FROM version_hits
       )
       SELECT
         document_id,
@@ -133,41 +302,64 @@ export async function searchLegislation(
         chapter,
         section,
         title,
+        language,
+        numac,
         snippet,
         relevance,
         valid_from,
-        valid_to
+        valid_to,
+        merge_key
       FROM ranked_versions
       WHERE version_rank = 1
-      ORDER BY relevance
-      LIMIT ?
-    `;
-    params.push(limit);
+    `);
 
-    return db.prepare(sql).all(...params) as SearchLegislationResult[];
+    const rows = toResults(db.prepare(sql).all(...params, limit, offset) as SearchHitRow[]);
+    return { rows: stemmed ? highlightStems(rows) : rows, total };
   };
 
-  const queryWithFallback = (ftsQuery: string): SearchLegislationResult[] => {
+  const queryWithFallback = (ftsQuery: string, stemmed = false): SearchPage => {
     if (!asOfDate) {
-      return runCurrentQuery(ftsQuery);
+      return runCurrentQuery(ftsQuery, stemmed);
     }
 
-    const historical = runHistoricalQuery(ftsQuery);
-    if (historical.length > 0) {
+    const historical = runHistoricalQuery(ftsQuery, stemmed);
+    if (historical.total > 0) {
       return historical;
     }
 
     // Fallback when historical table is not populated.
-    return runCurrentQuery(ftsQuery);
+    return runCurrentQuery(ftsQuery, stemmed);
   };
 
-  const primaryResults = queryWithFallback(queryVariants.primary);
-  const results = (primaryResults.length > 0 || !queryVariants.fallback)
-    ? primaryResults
-    : queryWithFallback(queryVariants.fallback);
+  // Exact terms first, then stemmed terms (other inflections), then any term.
+  // The variant is chosen on total matches so every page uses the same one.
+  const stemmedQuery = queryVariants.stemmed && detectCapabilities(db).has('stemmed_search')
+    ? queryVariants.stemmed
+    : undefined;
+  let page = queryWithFallback(queryVariants.primary);
+  if (page.total === 0 && stemmedQuery) {
+    page = queryWithFallback(stemmedQuery, true);
+  }
+  if (page.total === 0 && queryVariants.fallback) {
+    page = queryWithFallback(queryVariants.fallback);
+  }
+
+  const eliOf = createDocumentEliLookup(db);
+  page.rows = page.rows.map(row => ({ ...row, document_eli: eliOf(row.document_id) }));
+
+  if (!input.merge_translations) {
+    return {
+      results: page.rows,
+      _metadata: generateResponseMetadata(db),
+      pagination: buildPagination(TOOL_NAME, scope, offset, page.rows.length, page.total),
+    };
+  }
+
+  const results = mergeTranslations(page.rows);
 
   return {
     results,
-    _metadata: generateResponseMetadata(db)
+    _metadata: generateResponseMetadata(db),
+    pagination: buildPagination(TOOL_NAME, scope, offset, results.length, page.total),
   };
 }
@@ -5,11 +5,13 @@
 import type { Database } from '@ansvar/mcp-sqlite';
 import { validateCitation as doValidate } from '../citation/validator.js';
 import { formatCitation } from '../citation/formatter.js';
-import type { ValidationResult } from '../types/index.js';
+import type { CitationCandidate, CitationSuggestion, ValidationResult } from '../types/index.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
 
 export interface ValidateCitationInput {
-  citation: string;
+  citation?: string;
+  /** Several citations checked in one call; results come back in the same order. */
+  citations?: string[];
 }
 
 export interface ValidateCitationResult {
@@ -19,46 +21,84 @@ export interface ValidateCitationResult {
   valid: boolean;
   document_exists: boolean;
   provision_exists: boolean;
+  document_id?: string;
   document_title?: string;
+  /** Canonical ELI URI of the act on Justel */
+  document_eli?: string;
   status?: string;
+  ambiguous?: boolean;
+  candidates?: CitationCandidate[];
+  suggestions?: CitationSuggestion[];
   warnings: string[];
 }
 
+const MAX_CITATIONS = 100;
+
+function invalid(citation: string, warning: string): ValidateCitationResult {
+  return {
+    citation,
+    formatted_citation: '',
+    citation_urls: [],
+    valid: false,
+    document_exists: false,
+    provision_exists: false,
+    warnings: [warning],
+  };
+}
+
+function validateOne(db: Database, citation: unknown): ValidateCitationResult {
+  if (typeof citation !== 'string') {
+    return invalid(String(citation), 'Citation must be a string');
+  }
+  if (citation.trim().length === 0) {
+    return invalid(citation, 'Empty citation');
+  }
+
+  const result: ValidationResult = doValidate(db, citation);
+  const formatted = formatCitation(result.citation);
+  const citationUrls = result.document_url ? [result.document_url] : [];
+
+  return {
+    citation,
+    formatted_citation: formatted,
+    citation_urls: citationUrls,
+    valid: result.citation.valid && result.document_exists && result.provision_exists,
+    document_exists: result.document_exists,
+    provision_exists: result.provision_exists,
+    document_id: result.document_id,
+    document_title: result.document_title,
+    document_eli: result.document_eli,
+    status: result.status,
+    ambiguous: result.ambiguous,
+    candidates: result.candidates,
+    suggestions: result.suggestions,
+    warnings: result.warnings,
+  };
+}
+
 export async function validateCitationTool(
   db: Database,
   input: ValidateCitationInput
-): Promise<ToolResponse<ValidateCitationResult>> {
-  if (!input.citation || input.citation.trim().length === 0) {
+): Promise<ToolResponse<ValidateCitationResult | ValidateCitationResult[]>> {
+  if (input.citations !== undefined) {
+    if (input.citation !== undefined) {
+      throw new Error('citation cannot be combined with citations');
+    }
+    if (!Array.isArray(input.citations)) {
+      throw new Error('citations must be an array of strings');
+    }
+    if (input.citations.length > MAX_CITATIONS) {
+      throw new Error(`citations accepts at most ${MAX_CITATIONS} citations`);
+    }
+
     return {
-      results: {
-        citation: input.citation,
-        formatted_citation: '',
-        citation_urls: [],
-        valid: false,
-        document_exists: false,
-        provision_exists: false,
-        warnings: ['Empty citation'],
-      },
+      results: input.citations.map(citation => validateOne(db, citation)),
       _metadata: generateResponseMetadata(db)
     };
   }
 
-  const result: ValidationResult = doValidate(db, input.citation);
-  const formatted = formatCitation(result.citation);
-  const citationUrls = result.document_url ? [result.document_url] : [];
-
   return {
-    results: {
-      citation: input.citation,
-      formatted_citation: formatted,
-      citation_urls: citationUrls,
-      valid: result.citation.valid && result.document_exists && result.provision_exists,
-      document_exists: result.document_exists,
-      provision_exists: result.provision_exists,
-      document_title: result.document_title,
-      status: result.status,
-      warnings: result.warnings,
-    },
+    results: validateOne(db, input.citation ?? ''),
     _metadata: generateResponseMetadata(db)
   };
 }
@@ -1,22 +1,76 @@
-export type CitationFormat = 'full' | 'short' | 'pinpoint';
+export type CitationFormat = 'full' | 'short' | 'short_title' | 'pinpoint';
+
+/** Kind of act cited: loi/wet, arrêté royal, arrêté ministériel, décret, ordonnance or code. */
+export type CitationInstrument =
+  | 'statute'
+  | 'royal_decree'
+  | 'ministerial_decree'
+  | 'decree'
+  | 'ordinance'
+  | 'code';
+
+/** Issuing Region or Community of a decree or ordinance. */
+export type CitationRegion = 'flemish' | 'walloon' | 'brussels' | 'french_community' | 'german_community';
 
 export interface ParsedCitation {
   valid: boolean;
-  type: 'statute' | 'statutory_instrument' | 'unknown';
+  type: CitationInstrument | 'unknown';
   title?: string;
+  region?: CitationRegion;
   year?: number;
   section?: string;
+  /** Paragraph (§) number, e.g. '2' for "§ 2" */
   subsection?: string;
+  /** Alinéa (lid) number within the paragraph */
   paragraph?: string;
+  /** Numbered or lettered point, e.g. '4°' */
+  point?: string;
+  /** Lettered sub-point of a numbered point, e.g. 'b)' */
+  subpoint?: string;
   error?: string;
 }
 
+/** A stored document that fits a citation, with how well it fits (0 to 1). */
+export interface CitationCandidate {
+  document_id: string;
+  title: string;
+  status: string;
+  confidence: number;
+  /** Whether the cited article exists in this document */
+  provision_exists?: boolean;
+}
+
+/**
+ * same_date: another act of the cited date.
+ * other_language: another language version of the act (or the cited date in another language).
+ * similar_title: a title sharing words with the citation.
+ * article_in_related_act: the cited article exists in an act of the same date.
+ */
+export type CitationSuggestionReason = 'same_date' | 'other_language' | 'similar_title' | 'article_in_related_act';
+
+export interface CitationSuggestion {
+  document_id: string;
+  title: string;
+  reason: CitationSuggestionReason;
+  /** The cited article in the suggested document */
+  provision_ref?: string;
+}
+
 export interface ValidationResult {
   citation: ParsedCitation;
   document_exists: boolean;
   provision_exists: boolean;
+  document_id?: string;
   document_title?: string;
   document_url?: string;
+  /** Canonical ELI URI of the act on Justel */
+  document_eli?: string;
   status?: string;
+  /** More than one document fits the citation about equally well */
+  ambiguous?: boolean;
+  /** Documents that fit the citation, best first, when there is more than one */
+  candidates?: CitationCandidate[];
+  /** Closest matches when the document or the article was not found */
+  suggestions?: CitationSuggestion[];
   warnings: string[];
 }
@@ -10,6 +10,8 @@ export interface LegalDocument {
   status: DocumentStatus;
   issued_date?: string;
   in_force_date?: string;
+  repealed_date?: string;
+  repealed_by?: string;
   url?: string;
   description?: string;
 }
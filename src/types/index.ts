@@ -7,11 +7,19 @@ export type {
 export type {
   LegalProvision,
   ProvisionRef,
+  AmendmentType,
+  ProvisionAmendment,
+  CrossReferenceType,
 } from './provisions.js';
 
 export type {
   CitationFormat,
+  CitationInstrument,
+  CitationRegion,
   ParsedCitation,
+  CitationCandidate,
+  CitationSuggestionReason,
+  CitationSuggestion,
   ValidationResult,
 } from './citations.js';
 
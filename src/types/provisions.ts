@@ -11,7 +11,22 @@ export interface LegalProvision {
   valid_to?: string;
 }
 
+export type AmendmentType = 'inserted' | 'replaced' | 'amended' | 'repealed';
+
+/** A change flagged by a Justel amendment marker ([1 ... ]1) and its footnote. */
+export interface ProvisionAmendment {
+  marker: number | null;
+  amending_act: string;
+  amending_article: string | null;
+  date: string | null;
+  in_force_date: string | null;
+  type: AmendmentType;
+}
+
 export interface ProvisionRef {
   document_id: string;
   provision_ref: string;
 }
+
+/** Link types of the cross_references table. */
+export type CrossReferenceType = 'references' | 'amended_by' | 'implements' | 'see_also';
@@ -0,0 +1,117 @@
+/**
+ * Natural ordering of Belgian article numbers.
+ *
+ * Articles inserted after adoption are numbered with Latin ordinals ("4bis",
+ * "4ter") or, since the 2000s, with a slash ("12/1", "12/2"). Codes organized
+ * in books prefix the book in Roman numerals ("XII.1", "I.1.2"). Plain string
+ * comparison puts "art10" before "art2"; the sort key below orders:
+ *
+ *   1er < 2 < 4 < 4/1 < 4bis < 4ter < 5 < 10 < I.1 < II.3
+ *
+ * Keys are computed at build time (scripts/build-db.ts) and stored in the
+ * sort_key column; any change here requires a database rebuild.
+ */
+
+const LATIN_SUFFIXES = [
+  'bis', 'ter', 'quater', 'quinquies', 'sexies', 'septies', 'octies', 'novies', 'decies',
+  'undecies', 'duodecies', 'terdecies', 'quaterdecies', 'quindecies', 'sexdecies',
+  'septdecies', 'octodecies', 'novodecies', 'vicies',
+];
+
+const ROMAN_VALUES: Record<string, number> = { i: 1, v: 5, x: 10, l: 50, c: 100, d: 500, m: 1000 };
+
+const SEGMENT = /^(\d+)(?:er|re)?([a-z]*)$/;
+
+/** Keys of unparseable numbers start with this, so they sort after every article. */
+const UNPARSED_PREFIX = '~';
+
+function romanToNumber(value: string): number {
+  let total = 0;
+  for (let i = 0; i < value.length; i++) {
+    const current = ROMAN_VALUES[value[i]];
+    const next = ROMAN_VALUES[value[i + 1]] ?? 0;
+    total += current < next ? -current : current;
+  }
+  return total;
+}
+
+/** 0 for no suffix, 1.. for bis, ter, ...; single letters ("5a") after the Latin ordinals. */
+function suffixRank(suffix: string): number | null {
+  if (!suffix) return 0;
+  const latin = LATIN_SUFFIXES.indexOf(suffix);
+  if (latin >= 0) return latin + 1;
+  if (/^[a-z]$/.test(suffix)) return 50 + suffix.charCodeAt(0) - 96;
+  return null;
+}
+
+/** Lowercase article number without "art."/"article" prefix or spaces ("Art. 4 bis" -> "4bis"). */
+export function normalizeArticleNumber(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/^\s*(?:art(?:icle|ikel)?\.?)\s*/, '')
+    .replace(/\s+/g, '')
+    .replace(/\.$/, '');
+}
+
+/**
+ * Sort key of an article number or provision_ref ("4bis", "art12/1", "XII.1").
+ * Keys compare correctly as plain strings.
+ */
+export function articleSortKey(value: string): string {
+  const normalized = normalizeArticleNumber(value);
+
+  let book = 0;
+  let rest = normalized;
+  const bookMatch = normalized.match(/^([ivxlcdm]+)\.(.+)$/);
+  if (bookMatch) {
+    book = romanToNumber(bookMatch[1]);
+    rest = bookMatch[2];
+  }
+
+  const segments: string[] = [];
+  for (const part of rest.split(/[/.]/)) {
+    const match = part.match(SEGMENT);
+    const rank = match ? suffixRank(match[2]) : null;
+    if (!match || rank === null) {
+      return `${UNPARSED_PREFIX}${normalized}`;
+    }
+    segments.push(`${match[1].padStart(6, '0')}${String(rank).padStart(2, '0')}`);
+  }
+
+  return `${String(book).padStart(4, '0')}:${segments.join('.')}`;
+}
+
+export function compareArticleNumbers(a: string, b: string): number {
+  const keyA = articleSortKey(a);
+  const keyB = articleSortKey(b);
+  return keyA < keyB ? -1 : keyA > keyB ? 1 : 0;
+}
+
+export interface ArticleRange {
+  from: string;
+  to: string;
+}
+
+/**
+ * Parse an article range such as "5 to 9", "5-9", "5 à 9" or "5 tot 9".
+ * Returns null when the text is not a range.
+ */
+export function parseArticleRange(text: string): ArticleRange | null {
+  const match = text
+    .trim()
+    .match(/^(?:art(?:icles?|ikelen)?\.?\s*)?(.+?)\s*(?:\s(?:to|à|a|tot)\s|[-–])\s*(?:art(?:icle|ikel)?\.?\s*)?(.+)$/i);
+  if (!match) return null;
+
+  const from = normalizeArticleNumber(match[1]);
+  const to = normalizeArticleNumber(match[2]);
+  if (articleSortKey(from).startsWith(UNPARSED_PREFIX) || articleSortKey(to).startsWith(UNPARSED_PREFIX)) {
+    return null;
+  }
+  return { from, to };
+}
+
+/** Whether an article number falls within a range, bounds included. */
+export function isInArticleRange(value: string, range: ArticleRange): boolean {
+  const key = articleSortKey(value);
+  return key >= articleSortKey(range.from) && key <= articleSortKey(range.to);
+}
@@ -9,7 +9,7 @@ function isValidCalendarDate(value: string): boolean {
   return iso === value;
 }
 
-export function normalizeAsOfDate(value: string | undefined): string | undefined {
+export function normalizeAsOfDate(value: string | undefined, field = 'as_of_date'): string | undefined {
   if (value == null) {
     return undefined;
   }
@@ -20,7 +20,7 @@ export function normalizeAsOfDate(value: string | undefined): string | undefined
   }
 
   if (!ISO_DATE_PATTERN.test(trimmed) || !isValidCalendarDate(trimmed)) {
-    throw new Error('as_of_date must be an ISO date in YYYY-MM-DD format');
+    throw new Error(`${field} must be an ISO date in YYYY-MM-DD format`);
   }
 
   return trimmed;
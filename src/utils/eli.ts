@@ -0,0 +1,99 @@
+/**
+ * European Legislation Identifier (ELI) URIs of Belgian acts.
+ *
+ * Justel publishes each language version of an act at
+ *   http://www.ejustice.just.fgov.be/eli/{type}/{yyyy}/{mm}/{dd}/{numac}/justel
+ * where {type} names the instrument in that language ("loi", "wet",
+ * "arrete", "besluit", ...) and the NUMAC is shared by all versions.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+
+export const ELI_BASE_URL = 'http://www.ejustice.just.fgov.be/eli';
+
+const ELI_PATTERN =
+  /^(?:https?:\/\/)?(?:www\.)?ejustice\.just\.fgov\.be\/eli\/([a-z]+)\/(\d{4})\/(\d{2})\/(\d{2})\/(\d{10})(?:\/[a-z]+)*\/?(?:[?#].*)?$/i;
+const NUMAC_PATTERN = /^\d{10}$/;
+
+const ELI_TYPE_LANGUAGES: Record<string, 'fr' | 'nl'> = {
+  loi: 'fr',
+  arrete: 'fr',
+  decret: 'fr',
+  ordonnance: 'fr',
+  constitution: 'fr',
+  wet: 'nl',
+  besluit: 'nl',
+  decreet: 'nl',
+  ordonnantie: 'nl',
+  grondwet: 'nl',
+};
+
+export interface ParsedEli {
+  type: string;
+  /** ISO date of the act */
+  date: string;
+  numac: string;
+  /** Language version named by the type segment, when known */
+  language?: 'fr' | 'nl';
+}
+
+export function isNumac(value: string): boolean {
+  return NUMAC_PATTERN.test(value.trim());
+}
+
+/** An ELI URI, with or without scheme, "www." or the trailing "/justel". */
+export function parseEli(value: string): ParsedEli | null {
+  const match = ELI_PATTERN.exec(value.trim());
+  if (!match) return null;
+
+  const [, rawType, year, month, day, numac] = match;
+  const type = rawType.toLowerCase();
+  const language = ELI_TYPE_LANGUAGES[type];
+  return { type, date: `${year}-${month}-${day}`, numac, ...(language ? { language } : {}) };
+}
+
+export interface EliSource {
+  url: string | null;
+  numac: string | null;
+  issued_date: string | null;
+  language: string | null;
+}
+
+/**
+ * Canonical ELI of a stored document: its Justel URL when that is an ELI,
+ * otherwise built from the NUMAC and date. German translations have no ELI
+ * of their own and return null.
+ */
+export function documentEli(doc: EliSource): string | null {
+  const parsed = doc.url ? parseEli(doc.url) : null;
+  if (parsed) {
+    const [year, month, day] = parsed.date.split('-');
+    return `${ELI_BASE_URL}/${parsed.type}/${year}/${month}/${day}/${parsed.numac}/justel`;
+  }
+
+  const type = doc.language === 'fr' ? 'loi' : doc.language === 'nl' ? 'wet' : null;
+  if (!type || !doc.numac || !doc.issued_date || !/^\d{4}-\d{2}-\d{2}$/.test(doc.issued_date)) {
+    return null;
+  }
+  const [year, month, day] = doc.issued_date.split('-');
+  return `${ELI_BASE_URL}/${type}/${year}/${month}/${day}/${doc.numac}/justel`;
+}
+
+/** Canonical ELI of the document with this id, or null. */
+export function lookupDocumentEli(db: Database, documentId: string): string | null {
+  const doc = db.prepare(
+    'SELECT url, numac, issued_date, language FROM legal_documents WHERE id = ?'
+  ).get(documentId) as EliSource | undefined;
+  return doc ? documentEli(doc) : null;
+}
+
+/** lookupDocumentEli with one query per distinct document, for result lists. */
+export function createDocumentEliLookup(db: Database): (documentId: string) => string | null {
+  const cache = new Map<string, string | null>();
+  return documentId => {
+    if (!cache.has(documentId)) {
+      cache.set(documentId, lookupDocumentEli(db, documentId));
+    }
+    return cache.get(documentId) ?? null;
+  };
+}
@@ -2,6 +2,10 @@
  * FTS5 query builder for Belgian Law MCP.
  */
 
+import { stemWord, tokenizeWords, type StemLanguage } from './stemmer.js';
+
+const STEM_LANGUAGES: StemLanguage[] = ['fr', 'nl'];
+
 const EXPLICIT_FTS_SYNTAX = /["""]|(\bAND\b)|(\bOR\b)|(\bNOT\b)|\*$/;
 
 /**
@@ -19,9 +23,38 @@ export function sanitizeFtsInput(input: string): string {
 
 export interface FtsQueryVariants {
   primary: string;
+  /** Query for the stemmed indexes: the French and Dutch stems of every term. */
+  stemmed?: string;
+  /** All query stems, for highlighting matches in stemmed results. */
+  stems?: string[];
   fallback?: string;
 }
 
+/**
+ * Stem the query terms with each language's stemmer. Provisions are indexed
+ * with the stemmer of their own language, so the query matches if all its
+ * French stems or all its Dutch stems occur.
+ */
+function buildStemmedQuery(tokens: string[]): { stemmed: string; stems: string[] } | undefined {
+  const words = tokens.flatMap(token => tokenizeWords(token));
+  if (words.length === 0) {
+    return undefined;
+  }
+
+  const stems = new Set<string>();
+  const clauses = new Set<string>();
+  for (const language of STEM_LANGUAGES) {
+    const languageStems = words.map(word => stemWord(word, language));
+    languageStems.forEach(stem => stems.add(stem));
+    clauses.add(languageStems.map(stem => `"${stem}"`).join(' '));
+  }
+
+  const stemmed = clauses.size === 1
+    ? [...clauses][0]
+    : [...clauses].map(clause => `(${clause})`).join(' OR ');
+  return { stemmed, stems: [...stems] };
+}
+
 export function buildFtsQueryVariants(query: string): FtsQueryVariants {
   const trimmed = query.trim();
 
@@ -32,7 +65,8 @@ export function buildFtsQueryVariants(query: string): FtsQueryVariants {
   const tokens = trimmed
     .split(/\s+/)
     .filter(t => t.length > 0)
-    .map(t => t.replace(/[^\w\s-]/g, ''));
+    .map(t => t.replace(/[^\p{L}\p{N}\s-]/gu, ''))
+    .filter(t => t.length > 0);
 
   if (tokens.length === 0) {
     return { primary: trimmed };
@@ -41,5 +75,5 @@ export function buildFtsQueryVariants(query: string): FtsQueryVariants {
   const primary = tokens.map(t => `"${t}"*`).join(' ');
   const fallback = tokens.map(t => `${t}*`).join(' OR ');
 
-  return { primary, fallback };
+  return { primary, ...buildStemmedQuery(tokens), fallback };
 }
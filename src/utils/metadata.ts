@@ -3,6 +3,7 @@
  */
 
 import type Database from '@ansvar/mcp-sqlite';
+import type { PaginationInfo } from './pagination.js';
 
 export interface ResponseMetadata {
   data_freshness: string;
@@ -13,6 +14,8 @@ export interface ResponseMetadata {
 export interface ToolResponse<T> {
   results: T;
   _metadata: ResponseMetadata;
+  /** Present on paginated tools (search_legislation, search_case_law, get_provision listings). */
+  pagination?: PaginationInfo;
 }
 
 const STALENESS_THRESHOLD_DAYS = 30;
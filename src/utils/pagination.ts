@@ -0,0 +1,71 @@
+/**
+ * Opaque cursor pagination for list-returning tools.
+ *
+ * A cursor records the tool, the offset of the next page and a fingerprint of
+ * the inputs that define the result set, so a cursor cannot be replayed
+ * against a different query. Page size may change between calls.
+ */
+
+import { createHash } from 'node:crypto';
+
+export interface PaginationInfo {
+  /** Pass as `cursor` to fetch the next page; null on the last page. */
+  next_cursor: string | null;
+  /** Number of matching items across all pages. */
+  total_matches: number;
+}
+
+interface CursorState {
+  t: string;
+  o: number;
+  f: string;
+}
+
+function fingerprint(scope: unknown): string {
+  return createHash('sha256').update(JSON.stringify(scope ?? null)).digest('base64url').slice(0, 16);
+}
+
+export function encodeCursor(tool: string, offset: number, scope: unknown): string {
+  const state: CursorState = { t: tool, o: offset, f: fingerprint(scope) };
+  return Buffer.from(JSON.stringify(state)).toString('base64url');
+}
+
+/**
+ * Offset encoded in `cursor`, or 0 when no cursor is given. Throws when the
+ * cursor is malformed or was issued for another tool or query.
+ */
+export function decodeCursor(cursor: string | undefined, tool: string, scope: unknown): number {
+  if (cursor == null || cursor.trim().length === 0) {
+    return 0;
+  }
+
+  let state: Partial<CursorState>;
+  try {
+    state = JSON.parse(Buffer.from(cursor.trim(), 'base64url').toString('utf8')) as Partial<CursorState>;
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+
+  if (typeof state?.o !== 'number' || !Number.isInteger(state.o) || state.o < 0 || state.t !== tool) {
+    throw new Error('Invalid cursor');
+  }
+  if (state.f !== fingerprint(scope)) {
+    throw new Error('cursor does not match this query; repeat the request without a cursor to start over');
+  }
+
+  return state.o;
+}
+
+/** Pagination block for a page of `pageSize` items starting at `offset`. */
+export function buildPagination(
+  tool: string,
+  scope: unknown,
+  offset: number,
+  pageSize: number,
+  totalMatches: number,
+): PaginationInfo {
+  return {
+    next_cursor: pageSize > 0 && offset + pageSize < totalMatches ? encodeCursor(tool, offset + pageSize, scope) : null,
+    total_matches: totalMatches,
+  };
+}
@@ -0,0 +1,307 @@
+/**
+ * Pinpoints below article level: paragraphs (§), alinéas (leden) and points.
+ *
+ * Belgian articles are divided into numbered paragraphs ("§ 2."), each made of
+ * alinéas (Dutch: leden), which are the lines of running text. An alinéa may
+ * end in an enumeration of points ("1°", "2°", or "a)", "b)"); the points
+ * belong to the alinéa that introduces them. Alinéas are counted within their
+ * paragraph, so "art. 5, § 2, alinéa 3, 4°" is the fourth point of the third
+ * alinéa of paragraph 2. Lettered points under a numbered point are its
+ * sub-points: "§ 2, 2°, b)".
+ */
+
+import { foldDiacritics } from './stemmer.js';
+
+export interface Pinpoint {
+  /** Paragraph number without the § sign (e.g., '2', '3bis') */
+  paragraph?: string;
+  /** Alinéa (lid) number, counted within the paragraph */
+  alinea?: number;
+  /** Point as printed (e.g., '4°', 'a)') */
+  point?: string;
+  /** Lettered sub-point of a numbered point (e.g., 'b)' in "2°, b)") */
+  subpoint?: string;
+}
+
+export interface PinpointLocation extends Pinpoint {
+  /** Human-readable location (e.g., '§ 2, al. 3, 4°' or '§ 2, lid 3, 4°') */
+  label: string;
+}
+
+export interface ArticlePoint {
+  point: string;
+  text: string;
+  /** Lettered sub-points ("a)", "b)") of a numbered point */
+  subpoints: ArticlePoint[];
+}
+
+export interface ArticleAlinea {
+  text: string;
+  points: ArticlePoint[];
+}
+
+export interface ArticleParagraph {
+  /** Paragraph number, null for an article without paragraphs */
+  number: string | null;
+  text: string;
+  alineas: ArticleAlinea[];
+}
+
+const SUFFIX = '(?:bis|ter|quater|quinquies|sexies|septies|octies|novies|decies)?';
+
+const ARTICLE_HEADING = /^(?:Art(?:icle|ikel)?\.?)\s*[\w/]+(?:\.\d+)*\.\s*/i;
+const PARAGRAPH_LINE = new RegExp(`^§\\s*(\\d+)(?:er)?\\s*(${SUFFIX})\\.?\\s*(.*)$`, 'i');
+const NUMBERED_POINT_LINE = new RegExp(`^(\\d+\\s*${SUFFIX})\\s*°`, 'i');
+const LETTERED_POINT_LINE = /^([a-z])\)/i;
+
+const ORDINALS: Record<string, number> = {
+  premier: 1, premiere: 1, deuxieme: 2, second: 2, seconde: 2, troisieme: 3, quatrieme: 4,
+  cinquieme: 5, sixieme: 6, septieme: 7, huitieme: 8, neuvieme: 9, dixieme: 10,
+  eerste: 1, tweede: 2, derde: 3, vierde: 4, vijfde: 5, zesde: 6, zevende: 7, achtste: 8,
+  negende: 9, tiende: 10,
+};
+
+const ALINEA_WORD = String.raw`(?:al(?:inea)?\.?|lid)`;
+
+/**
+ * Tokens of a pinpoint, matched on lowercased, diacritic-free text. `apply`
+ * returns false when the token repeats a level already set.
+ */
+const PINPOINT_TOKENS: Array<{ pattern: RegExp; apply: (match: RegExpMatchArray, pinpoint: Pinpoint) => boolean }> = [
+  {
+    pattern: new RegExp(`^§\\s*(\\d+)(?:er)?\\s*(${SUFFIX})`),
+    apply: (m, p) => setLevel(p, 'paragraph', `${m[1]}${m[2]}`),
+  },
+  {
+    pattern: new RegExp(`^${ALINEA_WORD}\\s*(\\d+)(?:er|re|e|ste|de)?\\b`),
+    apply: (m, p) => setLevel(p, 'alinea', Number(m[1])),
+  },
+  {
+    pattern: new RegExp(`^(\\d+)(?:er|re|e|eme|ste|de)?\\s+${ALINEA_WORD}(?![a-z])`),
+    apply: (m, p) => setLevel(p, 'alinea', Number(m[1])),
+  },
+  {
+    pattern: new RegExp(`^(${Object.keys(ORDINALS).join('|')})\\s+${ALINEA_WORD}(?![a-z])`),
+    apply: (m, p) => setLevel(p, 'alinea', ORDINALS[m[1]]),
+  },
+  {
+    pattern: new RegExp(`^(\\d+)\\s*(${SUFFIX})\\s*°`),
+    apply: (m, p) => setLevel(p, 'point', `${m[1]}${m[2]}°`),
+  },
+  {
+    // "b)" after "2°" is a sub-point of 2°
+    pattern: /^([a-z])\)/,
+    apply: (m, p) => setLevel(p, p.point && /°$/.test(p.point) ? 'subpoint' : 'point', `${m[1]})`),
+  },
+];
+
+function setLevel<K extends keyof Pinpoint>(pinpoint: Pinpoint, level: K, value: NonNullable<Pinpoint[K]>): boolean {
+  if (pinpoint[level] !== undefined) return false;
+  pinpoint[level] = value;
+  return true;
+}
+
+/**
+ * Parse a pinpoint such as "§ 2, alinéa 3, 4°", "§ 2, 2°, b)", "tweede lid, 1°"
+ * or "§ 1er". Returns null when any part of the text is not recognized or a
+ * level is given twice.
+ */
+export function parsePinpoint(text: string): Pinpoint | null {
+  let rest = foldDiacritics(text.toLowerCase()).trim();
+  const pinpoint: Pinpoint = {};
+
+  while (rest.length > 0) {
+    const token = PINPOINT_TOKENS
+      .map(({ pattern, apply }) => ({ match: rest.match(pattern), apply }))
+      .find(({ match }) => match !== null);
+    if (!token?.match || !token.apply(token.match, pinpoint)) {
+      return null;
+    }
+    rest = rest.slice(token.match[0].length).replace(/^[\s,]+/, '');
+  }
+
+  return Object.keys(pinpoint).length > 0 ? pinpoint : null;
+}
+
+/** Location label in the conventions of the text's language. */
+export function formatPinpoint(pinpoint: Pinpoint, language?: string | null): string {
+  const parts: string[] = [];
+  if (pinpoint.paragraph) parts.push(`§ ${pinpoint.paragraph}`);
+  if (pinpoint.alinea) parts.push(`${language === 'nl' ? 'lid' : 'al.'} ${pinpoint.alinea}`);
+  if (pinpoint.point) parts.push(pinpoint.point);
+  if (pinpoint.subpoint) parts.push(pinpoint.subpoint);
+  return parts.join(', ');
+}
+
+interface PointDraft {
+  point: string;
+  lines: string[];
+  subpoints: Array<{ point: string; lines: string[] }>;
+}
+
+interface AlineaDraft {
+  lines: string[];
+  points: PointDraft[];
+}
+
+interface ParagraphDraft {
+  number: string | null;
+  lines: string[];
+  alineas: AlineaDraft[];
+}
+
+function pointKey(point: string): string {
+  return point.toLowerCase().replace(/[\s°)]/g, '');
+}
+
+/** Split article text into paragraphs, alinéas and points. */
+export function segmentArticle(content: string): ArticleParagraph[] {
+  const lines = content
+    .replace(ARTICLE_HEADING, '')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean);
+
+  const paragraphs: ParagraphDraft[] = [{ number: null, lines: [], alineas: [] }];
+
+  for (const line of lines) {
+    let body = line;
+    const paragraphMatch = line.match(PARAGRAPH_LINE);
+    if (paragraphMatch) {
+      paragraphs.push({ number: `${paragraphMatch[1]}${paragraphMatch[2].toLowerCase()}`, lines: [], alineas: [] });
+      body = paragraphMatch[3];
+    }
+
+    const paragraph = paragraphs[paragraphs.length - 1];
+    paragraph.lines.push(line);
+    if (!body) continue;
+
+    const alinea = paragraph.alineas[paragraph.alineas.length - 1];
+    const numbered = body.match(NUMBERED_POINT_LINE);
+    const lettered = body.match(LETTERED_POINT_LINE);
+    const hasNumberedPoints = alinea?.points.some(point => /°$/.test(point.point)) ?? false;
+
+    if (alinea && numbered) {
+      alinea.points.push({ point: `${numbered[1].replace(/\s+/g, '')}°`, lines: [body], subpoints: [] });
+      alinea.lines.push(body);
+    } else if (alinea && lettered && hasNumberedPoints) {
+      // "a)" under "1°" is a sub-point and part of the numbered point
+      const point = alinea.points[alinea.points.length - 1];
+      point.lines.push(body);
+      point.subpoints.push({ point: `${lettered[1].toLowerCase()})`, lines: [body] });
+      alinea.lines.push(body);
+    } else if (alinea && lettered) {
+      alinea.points.push({ point: `${lettered[1].toLowerCase()})`, lines: [body], subpoints: [] });
+      alinea.lines.push(body);
+    } else {
+      paragraph.alineas.push({ lines: [body], points: [] });
+    }
+  }
+
+  // Text before the first § (only the article heading, in practice) is not a paragraph.
+  if (paragraphs.length > 1 && paragraphs[0].alineas.length === 0) {
+    paragraphs.shift();
+  }
+
+  return paragraphs.map(paragraph => ({
+    number: paragraph.number,
+    text: paragraph.lines.join('\n'),
+    alineas: paragraph.alineas.map(alinea => ({
+      text: alinea.lines.join('\n'),
+      points: alinea.points.map(point => ({
+        point: point.point,
+        text: point.lines.join('\n'),
+        subpoints: point.subpoints.map(subpoint => ({ point: subpoint.point, text: subpoint.lines.join('\n'), subpoints: [] })),
+      })),
+    })),
+  }));
+}
+
+/**
+ * The fragment of an article at `pinpoint`, with its fully resolved location.
+ * Throws when the pinpoint does not exist in the article or is ambiguous.
+ */
+export function extractPinpoint(
+  content: string,
+  pinpoint: Pinpoint,
+  language?: string | null,
+): { text: string; location: PinpointLocation } {
+  const paragraphs = segmentArticle(content);
+  const numbered = paragraphs.filter(paragraph => paragraph.number !== null);
+
+  let scope: ArticleParagraph[];
+  if (pinpoint.paragraph) {
+    const wanted = pinpoint.paragraph.toLowerCase();
+    const paragraph = numbered.find(candidate => candidate.number === wanted);
+    if (!paragraph) {
+      throw new Error(
+        numbered.length > 0
+          ? `§ ${pinpoint.paragraph} not found (paragraphs: ${numbered.map(p => `§ ${p.number}`).join(', ')})`
+          : `§ ${pinpoint.paragraph} not found: the article is not divided into paragraphs`
+      );
+    }
+    scope = [paragraph];
+  } else if (numbered.length > 0 && pinpoint.alinea) {
+    throw new Error('The article is divided into paragraphs; give the § of the alinéa');
+  } else {
+    scope = paragraphs;
+  }
+
+  const location: Pinpoint = {};
+  const single = scope.length === 1 ? scope[0] : undefined;
+  if (single?.number) location.paragraph = single.number;
+
+  if (!pinpoint.alinea && !pinpoint.point) {
+    return { text: scope[0].text, location: { ...location, label: formatPinpoint(location, language) } };
+  }
+
+  let alineas = scope.flatMap(paragraph => paragraph.alineas.map((alinea, index) => ({ paragraph, alinea, index })));
+  if (pinpoint.alinea) {
+    const alinea = single?.alineas[pinpoint.alinea - 1];
+    if (!single || !alinea) {
+      throw new Error(`Alinéa ${pinpoint.alinea} not found (${single?.alineas.length ?? 0} alinéas)`);
+    }
+    location.alinea = pinpoint.alinea;
+    alineas = [{ paragraph: single, alinea, index: pinpoint.alinea - 1 }];
+  }
+
+  if (!pinpoint.point) {
+    return { text: alineas[0].alinea.text, location: { ...location, label: formatPinpoint(location, language) } };
+  }
+
+  const wanted = pointKey(pinpoint.point);
+  const matches = alineas.flatMap(({ paragraph, alinea, index }) =>
+    alinea.points
+      .filter(point => pointKey(point.point) === wanted)
+      .map(point => ({ paragraph, index, point }))
+  );
+  if (matches.length === 0) {
+    throw new Error(`Point ${pinpoint.point} not found`);
+  }
+  if (matches.length > 1) {
+    throw new Error(`Point ${pinpoint.point} occurs in several alinéas; give the alinéa`);
+  }
+
+  const [match] = matches;
+  const resolved: Pinpoint = {
+    ...(match.paragraph.number ? { paragraph: match.paragraph.number } : {}),
+    alinea: match.index + 1,
+    point: match.point.point,
+  };
+
+  if (!pinpoint.subpoint) {
+    return { text: match.point.text, location: { ...resolved, label: formatPinpoint(resolved, language) } };
+  }
+
+  const wantedSubpoint = pointKey(pinpoint.subpoint);
+  const subpoint = match.point.subpoints.find(candidate => pointKey(candidate.point) === wantedSubpoint);
+  if (!subpoint) {
+    throw new Error(
+      match.point.subpoints.length > 0
+        ? `Point ${match.point.point}, ${pinpoint.subpoint} not found (sub-points: ${match.point.subpoints.map(p => p.point).join(', ')})`
+        : `Point ${match.point.point}, ${pinpoint.subpoint} not found: ${match.point.point} has no sub-points`
+    );
+  }
+  resolved.subpoint = subpoint.point;
+  return { text: subpoint.text, location: { ...resolved, label: formatPinpoint(resolved, language) } };
+}
@@ -0,0 +1,27 @@
+/**
+ * Helpers for the JSON `metadata` column of legal_provisions and
+ * legal_provision_versions.
+ */
+
+import type { ProvisionAmendment } from '../types/index.js';
+
+interface ProvisionMetadata {
+  amendments?: ProvisionAmendment[];
+}
+
+function parseMetadata(metadata: string | null | undefined): ProvisionMetadata {
+  if (!metadata) {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(metadata) as unknown;
+    return parsed && typeof parsed === 'object' ? parsed as ProvisionMetadata : {};
+  } catch {
+    return {};
+  }
+}
+
+export function parseAmendments(metadata: string | null | undefined): ProvisionAmendment[] {
+  const amendments = parseMetadata(metadata).amendments;
+  return Array.isArray(amendments) ? amendments : [];
+}
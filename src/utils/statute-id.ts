@@ -6,6 +6,7 @@
  */
 
 import type { Database } from '@ansvar/mcp-sqlite';
+import { isNumac, parseEli } from './eli.js';
 
 export function isValidStatuteId(id: string): boolean {
   return id.length > 0 && id.trim().length > 0;
@@ -30,6 +31,24 @@ export function statuteIdCandidates(id: string): string[] {
   return [...candidates];
 }
 
+/**
+ * The language version of the act with this NUMAC, `language` first, then
+ * French, Dutch and German.
+ */
+function resolveNumac(db: Database, numac: string, language?: string): string | null {
+  const row = db.prepare(
+    `SELECT id FROM legal_documents
+     WHERE numac = ?
+     ORDER BY CASE language WHEN ? THEN 0 WHEN 'fr' THEN 1 WHEN 'nl' THEN 2 ELSE 3 END, id
+     LIMIT 1`
+  ).get(numac, language ?? null) as { id: string } | undefined;
+  return row?.id ?? null;
+}
+
+/**
+ * Resolve a document id, ELI URI ("http://www.ejustice.just.fgov.be/eli/loi/1994/02/02/1994009284/justel"),
+ * bare NUMAC or title fragment to the id of a stored document.
+ */
 export function resolveExistingStatuteId(
   db: Database,
   inputId: string,
@@ -41,6 +60,16 @@ export function resolveExistingStatuteId(
 
   if (exact) return exact.id;
 
+  // The ELI type segment ("loi", "wet") picks the language version
+  const eli = parseEli(inputId);
+  if (eli) {
+    return resolveNumac(db, eli.numac, eli.language);
+  }
+
+  if (isNumac(inputId)) {
+    return resolveNumac(db, inputId.trim());
+  }
+
   // Try LIKE match on title
   const byTitle = db.prepare(
     "SELECT id FROM legal_documents WHERE title LIKE ? LIMIT 1"
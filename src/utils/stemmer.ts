@@ -0,0 +1,303 @@
+/**
+ * French and Dutch stemmers for full-text search.
+ *
+ * Light ports of the Snowball French and Dutch algorithms. Words are
+ * lowercased and stripped of diacritics before stemming, so "données",
+ * "donnees" and "donnée" share a stem. The same functions stem provision text
+ * at build time (scripts/build-db.ts) and queries at search time; any change
+ * here requires a database rebuild.
+ */
+
+export type StemLanguage = 'fr' | 'nl';
+
+const VOWELS = 'aeiouy';
+
+function isVowel(ch: string | undefined): boolean {
+  return ch !== undefined && VOWELS.includes(ch);
+}
+
+export function foldDiacritics(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+/** Index after the first non-vowel that follows a vowel, starting at `from`. */
+function regionStart(word: string, from: number): number {
+  for (let i = Math.max(from, 1); i < word.length; i++) {
+    if (!isVowel(word[i]) && isVowel(word[i - 1])) {
+      return i + 1;
+    }
+  }
+  return word.length;
+}
+
+function endsIn(word: string, suffixes: string[]): string | null {
+  let best: string | null = null;
+  for (const suffix of suffixes) {
+    if (word.endsWith(suffix) && (!best || suffix.length > best.length)) {
+      best = suffix;
+    }
+  }
+  return best;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// French
+// ─────────────────────────────────────────────────────────────────────────────
+
+const FR_STEP1_R2 = [
+  'ance', 'ances', 'ique', 'iques', 'isme', 'ismes', 'able', 'ables', 'iste', 'istes', 'eux',
+  'atrice', 'atrices', 'ateur', 'ateurs', 'ation', 'ations', 'ite', 'ites',
+  'if', 'ifs', 'ive', 'ives', 'euse', 'euses',
+];
+
+const FR_VERB_I = [
+  'ir', 'ira', 'irai', 'iraient', 'irais', 'irait', 'iras', 'irent', 'irez', 'iriez', 'irions',
+  'irons', 'iront', 'is', 'issaient', 'issais', 'issait', 'issant', 'issante', 'issantes',
+  'issants', 'isse', 'issent', 'isses', 'issez', 'issiez', 'issions', 'issons', 'it', 'ie', 'ies',
+  'i', 'imes', 'ites',
+];
+
+const FR_VERB_E = [
+  'e', 'ee', 'ees', 'es', 'erent', 'er', 'era', 'erai', 'eraient', 'erais', 'erait', 'eras',
+  'erez', 'eriez', 'erions', 'erons', 'eront', 'ez', 'iez',
+];
+
+const FR_VERB_A = [
+  'a', 'ai', 'aient', 'ais', 'ait', 'ant', 'ante', 'antes', 'ants', 'as', 'asse', 'assent',
+  'asses', 'assiez', 'assions', 'at', 'ames', 'ates',
+];
+
+/** RV: after the third letter if the word starts with two vowels, otherwise after the first vowel not at position 0. */
+function frenchRv(word: string): number {
+  if (word.length < 2) return word.length;
+  if (isVowel(word[0]) && isVowel(word[1])) return Math.min(3, word.length);
+  if (/^(?:par|col|tap)/.test(word)) return 3;
+  for (let i = 1; i < word.length; i++) {
+    if (isVowel(word[i])) return i + 1;
+  }
+  return word.length;
+}
+
+export function stemFrench(input: string): string {
+  let word = input;
+  if (word.length <= 2) return word;
+
+  const rv = frenchRv(word);
+  const r1 = regionStart(word, 1);
+  const r2 = regionStart(word, r1);
+  const inRegion = (suffix: string, start: number) => word.length - suffix.length >= start;
+
+  // Step 1: standard suffixes
+  let changed = false;
+  const step1 = endsIn(word, [
+    ...FR_STEP1_R2, 'logie', 'logies', 'usion', 'ution', 'usions', 'utions', 'ence', 'ences',
+    'ement', 'ements', 'eaux', 'aux', 'issement', 'issements', 'amment', 'emment', 'ment', 'ments',
+  ]);
+  if (step1) {
+    const stem = word.slice(0, -step1.length);
+    if (FR_STEP1_R2.includes(step1)) {
+      if (inRegion(step1, r2)) {
+        word = stem;
+        changed = true;
+      }
+    } else if (step1 === 'logie' || step1 === 'logies') {
+      if (inRegion(step1, r2)) { word = `${stem}log`; changed = true; }
+    } else if (step1.startsWith('usion') || step1.startsWith('ution')) {
+      if (inRegion(step1, r2)) { word = `${stem}u`; changed = true; }
+    } else if (step1 === 'ence' || step1 === 'ences') {
+      if (inRegion(step1, r2)) { word = `${stem}ent`; changed = true; }
+    } else if (step1 === 'eaux') {
+      word = `${stem}eau`;
+      changed = true;
+    } else if (step1 === 'aux') {
+      if (inRegion(step1, r1)) { word = `${stem}al`; changed = true; }
+    } else if (step1.startsWith('issement')) {
+      if (inRegion(step1, r1) && !isVowel(stem[stem.length - 1])) { word = stem; changed = true; }
+    } else if (step1 === 'amment') {
+      if (inRegion(step1, rv)) { word = `${stem}ant`; }
+    } else if (step1 === 'emment') {
+      if (inRegion(step1, rv)) { word = `${stem}ent`; }
+    } else if (step1 === 'ement' || step1 === 'ements') {
+      if (inRegion(step1, rv)) { word = stem; changed = true; }
+    } else if (step1 === 'ment' || step1 === 'ments') {
+      if (inRegion(step1, rv) && isVowel(stem[stem.length - 1])) { word = stem; }
+    }
+  }
+
+  // Step 2: verb suffixes, only when step 1 removed nothing
+  if (!changed) {
+    const verbI = endsIn(word, FR_VERB_I);
+    const stemI = verbI ? word.slice(0, -verbI.length) : '';
+    if (verbI && inRegion(verbI, rv) && stemI.length > 0 && !isVowel(stemI[stemI.length - 1])) {
+      word = stemI;
+    } else {
+      const verb = endsIn(word, ['ions', ...FR_VERB_E, ...FR_VERB_A]);
+      if (verb === 'ions') {
+        if (inRegion(verb, r2)) word = word.slice(0, -verb.length);
+      } else if (verb && FR_VERB_E.includes(verb)) {
+        if (inRegion(verb, rv)) word = word.slice(0, -verb.length);
+      } else if (verb && inRegion(verb, rv)) {
+        word = word.slice(0, -verb.length);
+        if (word.endsWith('e') && word.length - 1 >= rv) word = word.slice(0, -1);
+      }
+    }
+  }
+
+  // Step 4: residual suffixes
+  if (word.endsWith('s') && !/[aiosu]s$/.test(word)) {
+    word = word.slice(0, -1);
+  }
+  if (word.length - 3 >= Math.max(r2, rv) && /[st]ion$/.test(word)) {
+    word = word.slice(0, -3);
+  } else if (/ieres?$|iers?$/.test(word) && word.length - 4 >= rv) {
+    word = word.replace(/ieres?$|iers?$/, 'i');
+  } else if (word.endsWith('e') && word.length - 1 >= rv) {
+    word = word.slice(0, -1);
+  }
+
+  // Step 5: undouble
+  if (/(?:enn|onn|ett|ell|eill)$/.test(word)) {
+    word = word.slice(0, -1);
+  }
+
+  return word;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Dutch
+// ─────────────────────────────────────────────────────────────────────────────
+
+function undoubleDutch(word: string): string {
+  return /(?:kk|dd|tt)$/.test(word) ? word.slice(0, -1) : word;
+}
+
+export function stemDutch(input: string): string {
+  let word = input;
+  if (word.length <= 2) return word;
+
+  const r1 = Math.max(3, regionStart(word, 1));
+  const r2 = regionStart(word, r1);
+  const inRegion = (suffix: string, start: number) => word.length - suffix.length >= start;
+  const validEnEnding = (stem: string) =>
+    stem.length > 0 && !isVowel(stem[stem.length - 1]) && !stem.endsWith('gem');
+  const validSEnding = (stem: string) =>
+    stem.length > 0 && !isVowel(stem[stem.length - 1]) && !stem.endsWith('j');
+
+  const removeEn = (): boolean => {
+    const suffix = endsIn(word, ['en', 'ene']);
+    if (!suffix || !inRegion(suffix, r1)) return false;
+    const stem = word.slice(0, -suffix.length);
+    if (!validEnEnding(stem)) return false;
+    word = undoubleDutch(stem);
+    return true;
+  };
+
+  // Step 1
+  if (word.endsWith('heden')) {
+    if (inRegion('heden', r1)) word = `${word.slice(0, -5)}heid`;
+  } else if (!removeEn()) {
+    const suffix = endsIn(word, ['s', 'se']);
+    if (suffix && inRegion(suffix, r1) && validSEnding(word.slice(0, -suffix.length))) {
+      word = word.slice(0, -suffix.length);
+    }
+  }
+
+  // Step 2
+  let removedE = false;
+  if (word.endsWith('e') && inRegion('e', r1) && !isVowel(word[word.length - 2])) {
+    word = undoubleDutch(word.slice(0, -1));
+    removedE = true;
+  }
+
+  // Step 3a
+  if (word.endsWith('heid') && inRegion('heid', r2) && word[word.length - 5] !== 'c') {
+    word = word.slice(0, -4);
+    removeEn();
+  }
+
+  // Step 3b
+  const derivational = endsIn(word, ['end', 'ing', 'ig', 'lijk', 'baar', 'bar']);
+  if (derivational && inRegion(derivational, r2)) {
+    const stem = word.slice(0, -derivational.length);
+    if (derivational === 'end' || derivational === 'ing') {
+      if (stem.endsWith('ig') && stem[stem.length - 3] !== 'e' && stem.length - 2 >= r2) {
+        word = stem.slice(0, -2);
+      } else {
+        word = undoubleDutch(stem);
+      }
+    } else if (derivational === 'ig') {
+      if (!stem.endsWith('e')) word = stem;
+    } else if (derivational === 'lijk') {
+      word = stem;
+      if (word.endsWith('e') && inRegion('e', r1) && !isVowel(word[word.length - 2])) {
+        word = undoubleDutch(word.slice(0, -1));
+      }
+    } else if (derivational === 'baar') {
+      word = stem;
+    } else if (derivational === 'bar' && removedE) {
+      word = stem;
+    }
+  }
+
+  // Step 4: undouble vowel ("maak" / "maken" both become "mak")
+  if (/[^aeiouy](?:aa|ee|oo|uu)[^aeiouy]$/.test(word)) {
+    word = `${word.slice(0, -2)}${word[word.length - 1]}`;
+  }
+
+  return word;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Text
+// ─────────────────────────────────────────────────────────────────────────────
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/** Lowercased, diacritic-free words of a text, in order. */
+export function tokenizeWords(text: string): string[] {
+  return foldDiacritics(text.toLowerCase()).match(WORD_PATTERN) ?? [];
+}
+
+export function stemWord(word: string, language: string | null | undefined): string {
+  const folded = foldDiacritics(word.toLowerCase());
+  if (language === 'fr') return stemFrench(folded);
+  if (language === 'nl') return stemDutch(folded);
+  return folded;
+}
+
+/**
+ * Stem every word of a text for indexing. Languages without a stemmer are
+ * only lowercased and folded.
+ */
+export function stemText(text: string | null | undefined, language: string | null | undefined): string {
+  if (!text) return '';
+  return tokenizeWords(text).map(word => stemWord(word, language)).join(' ');
+}
+
+/**
+ * Build a search snippet from the original text, marking words whose stem is
+ * one of `stems` with >>> <<< like the FTS5 snippet() function.
+ */
+export function stemSnippet(
+  text: string,
+  language: string | null | undefined,
+  stems: Set<string>,
+  maxWords = 32,
+): string {
+  const words = text.split(/\s+/).filter(Boolean);
+  const matches = words.map(word => {
+    const tokens = tokenizeWords(word);
+    return tokens.some(token => stems.has(stemWord(token, language)));
+  });
+
+  const first = Math.max(matches.indexOf(true), 0);
+  const start = Math.max(0, Math.min(first - Math.floor(maxWords / 4), words.length - maxWords));
+  const end = Math.min(words.length, start + maxWords);
+
+  const body = words
+    .slice(start, end)
+    .map((word, i) => (matches[start + i] ? `>>>${word}<<<` : word))
+    .join(' ');
+
+  return `${start > 0 ? '...' : ''}${body}${end < words.length ? '...' : ''}`;
+}
@@ -0,0 +1,109 @@
+/**
+ * Word-level text diff for comparing provision versions.
+ */
+
+export type DiffOperation = 'equal' | 'insert' | 'delete';
+
+export interface DiffSegment {
+  type: DiffOperation;
+  text: string;
+}
+
+export interface DiffStats {
+  inserted_words: number;
+  deleted_words: number;
+  unchanged_words: number;
+}
+
+/** Above this many LCS cells the changed middle is reported as one replacement. */
+const MAX_LCS_CELLS = 4_000_000;
+
+function tokenize(text: string): string[] {
+  return text.split(/\s+/).filter(t => t.length > 0);
+}
+
+function push(segments: DiffSegment[], type: DiffOperation, words: string[]): void {
+  if (words.length === 0) return;
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += ` ${words.join(' ')}`;
+  } else {
+    segments.push({ type, text: words.join(' ') });
+  }
+}
+
+function diffMiddle(a: string[], b: string[], segments: DiffSegment[]): void {
+  if (a.length === 0 || b.length === 0 || a.length * b.length > MAX_LCS_CELLS) {
+    push(segments, 'delete', a);
+    push(segments, 'insert', b);
+    return;
+  }
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const cols = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * cols);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * cols + j] = a[i] === b[j]
+        ? lcs[(i + 1) * cols + j + 1] + 1
+        : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(segments, 'equal', [a[i]]);
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1]) {
+      push(segments, 'delete', [a[i]]);
+      i++;
+    } else {
+      push(segments, 'insert', [b[j]]);
+      j++;
+    }
+  }
+  push(segments, 'delete', a.slice(i));
+  push(segments, 'insert', b.slice(j));
+}
+
+/**
+ * Diff two texts word by word. Whitespace differences are ignored.
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix
+    && suffix < b.length - prefix
+    && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const segments: DiffSegment[] = [];
+  push(segments, 'equal', a.slice(0, prefix));
+  diffMiddle(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix), segments);
+  push(segments, 'equal', a.slice(a.length - suffix));
+  return segments;
+}
+
+export function diffStats(segments: DiffSegment[]): DiffStats {
+  const stats: DiffStats = { inserted_words: 0, deleted_words: 0, unchanged_words: 0 };
+  for (const segment of segments) {
+    const words = tokenize(segment.text).length;
+    if (segment.type === 'insert') stats.inserted_words += words;
+    else if (segment.type === 'delete') stats.deleted_words += words;
+    else stats.unchanged_words += words;
+  }
+  return stats;
+}
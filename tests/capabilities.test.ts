@@ -12,6 +12,9 @@ describe('capabilities', () => {
     expect(caps.has('eu_references')).toBe(true);
     expect(caps.has('case_law')).toBe(true);
     expect(caps.has('preparatory_works')).toBe(false);
+    expect(caps.has('stemmed_search')).toBe(true);
+    expect(caps.has('document_structure')).toBe(true);
+    expect(caps.has('cross_references')).toBe(true);
 
     closeTestDatabase(db);
   });
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { extractCitations, type ExtractedStatuteReference } from '../../src/citation/extractor.js';
+
+const statutes = (text: string) =>
+  extractCitations(text).filter((reference): reference is ExtractedStatuteReference => reference.kind === 'statute');
+
+describe('extractCitations', () => {
+  it('reports one reference per article of a French list', () => {
+    const text = 'Les articles 2 et 10 de la loi du 8 décembre 1992 sont applicables.';
+    const references = statutes(text);
+
+    expect(references.map(reference => [reference.article, reference.citation])).toEqual([
+      ['2', 'loi du 8 décembre 1992, art. 2'],
+      ['10', 'loi du 8 décembre 1992, art. 10'],
+    ]);
+    for (const reference of references) {
+      expect(reference.text).toBe('articles 2 et 10 de la loi du 8 décembre 1992');
+      expect(text.slice(reference.start, reference.end)).toBe(reference.text);
+    }
+  });
+
+  it('expands a Dutch article range', () => {
+    expect(statutes('De artikelen 4 tot 7 van de wet van 2 februari 1994 zijn van toepassing.').map(r => r.citation)).toEqual([
+      'wet van 2 februari 1994, art. 4',
+      'wet van 2 februari 1994, art. 5',
+      'wet van 2 februari 1994, art. 6',
+      'wet van 2 februari 1994, art. 7',
+    ]);
+  });
+
+  it('reads lists after the statute and before a code abbreviation', () => {
+    expect(statutes('Loi du 8 décembre 1992, articles 3, 4bis et 5').map(r => r.article)).toEqual(['3', '4bis', '5']);
+    expect(statutes('les art. 1382 et 1383 C. civ.').map(r => r.citation)).toEqual([
+      'C. civ., art. 1382',
+      'C. civ., art. 1383',
+    ]);
+  });
+
+  it('keeps the pinpoint with the last listed article and a single article', () => {
+    expect(statutes('articles 2 et 10, § 1er, de la loi du 8 décembre 1992').map(r => [r.article, r.pinpoint])).toEqual([
+      ['2', undefined],
+      ['10', '§ 1er'],
+    ]);
+    expect(statutes('article 5, 2°, de la loi du 8 décembre 1992').map(r => [r.article, r.pinpoint])).toEqual([
+      ['5', '2°'],
+    ]);
+  });
+});
@@ -21,6 +21,32 @@ describe('citation formatter (Belgian)', () => {
     expect(formatCitation(parsed, 'pinpoint')).toBe('art. 1');
   });
 
+  it('formats paragraph, alinea and point pinpoints', () => {
+    expect(
+      formatCitation({ ...parsed, section: '5', subsection: '2', paragraph: '3', point: '4°' }, 'full')
+    ).toBe('Loi du 2 fevrier 1994, art. 5, § 2, al. 3, 4°');
+    expect(
+      formatCitation({ ...parsed, section: '2', subsection: '2', point: '2°', subpoint: 'b)' }, 'pinpoint')
+    ).toBe('art. 2, § 2, 2°, b)');
+  });
+
+  it('converts Justel titles to citation order with the gazette reference', () => {
+    const document = {
+      title: '30 JUILLET 2018. - Loi relative a la protection des personnes physiques',
+      publication_date: '2018-09-05',
+      language: 'fr',
+    };
+    const cited = { ...parsed, section: '5', subsection: '2', paragraph: '1' };
+
+    expect(formatCitation(cited, 'full', { document })).toBe(
+      'Loi du 30 juillet 2018 relative a la protection des personnes physiques, M.B., 5 septembre 2018, art. 5, § 2, al. 1er'
+    );
+    expect(formatCitation(cited, 'short_title', { document })).toBe('Loi du 30 juillet 2018, art. 5, § 2, al. 1er');
+    expect(formatCitation({ ...parsed, section: undefined }, 'full', { document })).toBe(
+      'Loi du 30 juillet 2018 relative a la protection des personnes physiques, M.B., 5 septembre 2018'
+    );
+  });
+
   it('returns empty string for invalid parsed citation', () => {
     expect(
       formatCitation({ valid: false, type: 'unknown', error: 'bad' }, 'full')
@@ -30,6 +30,61 @@ describe('citation parser (Belgian)', () => {
     expect(parsed.section).toBe('1');
   });
 
+  it('parses paragraph, alinea and point pinpoints', () => {
+    const parsed = parseCitation('Loi du 2 fevrier 1994, art. 5, § 2, alinéa 3, 4°');
+    expect(parsed.valid).toBe(true);
+    expect(parsed.section).toBe('5');
+    expect(parsed.subsection).toBe('2');
+    expect(parsed.paragraph).toBe('3');
+    expect(parsed.point).toBe('4°');
+
+    const dutch = parseCitation('Wet van 2 februari 1994, art. 10, § 1, tweede lid');
+    expect(dutch.subsection).toBe('1');
+    expect(dutch.paragraph).toBe('2');
+  });
+
+  it('parses a lettered sub-point of a numbered point and rejects two points', () => {
+    const parsed = parseCitation('Loi du 2 fevrier 1994, art. 2, § 2, 2°, b)');
+    expect(parsed).toMatchObject({ valid: true, section: '2', subsection: '2', point: '2°', subpoint: 'b)' });
+
+    expect(parseCitation('Loi du 2 fevrier 1994, art. 2, § 2, 2°, 3°').valid).toBe(false);
+  });
+
+  it('parses a statute cited without article', () => {
+    const parsed = parseCitation('Wet van 2 februari 1994');
+    expect(parsed.valid).toBe(true);
+    expect(parsed.title).toBe('Wet van 2 februari 1994');
+    expect(parsed.section).toBeUndefined();
+  });
+
+  it('recognizes royal decrees, regional acts and codes', () => {
+    expect(parseCitation('A.R. du 1er juillet 2011, art. 3')).toMatchObject({
+      valid: true,
+      type: 'royal_decree',
+      section: '3',
+    });
+    expect(parseCitation('K.B. van 1 juli 2011, art. 3').type).toBe('royal_decree');
+    expect(parseCitation('décret flamand du 18 juillet 2008, art. 2')).toMatchObject({
+      type: 'decree',
+      region: 'flemish',
+    });
+    expect(parseCitation('ordonnance du 5 mars 2009, art. 4')).toMatchObject({
+      type: 'ordinance',
+      region: 'brussels',
+    });
+    expect(parseCitation('art. 1382 C. civ.')).toMatchObject({
+      valid: true,
+      type: 'code',
+      title: 'Code civil',
+      section: '1382',
+    });
+    expect(parseCitation('Code de droit économique, art. XII.1')).toMatchObject({
+      type: 'code',
+      section: 'XII.1',
+    });
+    expect(parseCitation('artikel 1382 van het BW').title).toBe('Burgerlijk Wetboek');
+  });
+
   it('rejects unsupported citation forms', () => {
     const parsed = parseCitation('Section 3, Data Protection Act 2018');
     expect(parsed.valid).toBe(false);
@@ -41,6 +41,87 @@ describe('citation validator (Belgian)', () => {
     expect(result.warnings).toContain('This statute has been repealed');
   });
 
+  it('resolves a statute cited by NUMAC, without article', () => {
+    const result = validateCitation(db, '1992009783');
+    expect(result.document_exists).toBe(true);
+    expect(result.document_id).toBe('loi-1992-12-08-1992009783-fr');
+    expect(result.provision_exists).toBe(true);
+  });
+
+  it('resolves a royal decree, not the statute of the same date', () => {
+    const decree = validateCitation(db, 'A.R. du 2 février 1994, art. 3');
+    expect(decree.document_id).toBe('loi-1994-02-02-1994009001-fr');
+    expect(decree.provision_exists).toBe(true);
+
+    const statute = validateCitation(db, 'Loi du 2 fevrier 1994, art. 1');
+    expect(statute.document_id).toBe('loi-1994-02-02-1994009284-fr');
+
+    const missing = validateCitation(db, 'A.R. du 10 février 1994, art. 1');
+    expect(missing.document_exists).toBe(false);
+  });
+
+  it('resolves code abbreviations', () => {
+    const result = validateCitation(db, 'art. 1382 C. civ.');
+    expect(result.document_id).toBe('loi-1804-03-21-1804032150-fr');
+    expect(result.provision_exists).toBe(true);
+  });
+
+  it('falls back to the other language version of a cited code, with a warning', () => {
+    const result = validateCitation(db, 'art. 1382 BW');
+    expect(result.document_exists).toBe(true);
+    expect(result.document_id).toBe('loi-1804-03-21-1804032150-fr');
+    expect(result.provision_exists).toBe(true);
+    expect(result.warnings).toEqual(['No NL version of "Burgerlijk Wetboek" in database; using the FR version "Code civil"']);
+
+    expect(validateCitation(db, 'art. 1382 C. civ.').warnings).toEqual([]);
+  });
+
+  it('reports ranked candidates when several acts share the cited date', () => {
+    const result = validateCitation(db, 'Loi du 10 février 1994');
+    expect(result.ambiguous).toBe(true);
+    expect(result.candidates?.map(c => [c.document_id, c.confidence])).toEqual([
+      ['loi-1994-02-10-1994009323-fr', 1],
+      ['loi-1994-02-10-1994009400-fr', 1],
+    ]);
+    expect(result.warnings.some(w => w.startsWith('Ambiguous citation: 2 documents match'))).toBe(true);
+
+    const bySubject = validateCitation(db, 'Loi du 10 février 1994 portant des dispositions fiscales');
+    expect(bySubject.document_id).toBe('loi-1994-02-10-1994009400-fr');
+    expect(bySubject.ambiguous).toBe(false);
+
+    const byArticle = validateCitation(db, 'Loi du 10 février 1994, art. 5');
+    expect(byArticle.document_id).toBe('loi-1994-02-10-1994009400-fr');
+    expect(byArticle.ambiguous).toBe(false);
+    expect(byArticle.candidates?.[1]).toMatchObject({ document_id: 'loi-1994-02-10-1994009323-fr', provision_exists: false });
+  });
+
+  it('lists every statute of the cited date whose title names no instrument', () => {
+    const result = validateCitation(db, 'Loi du 3 mai 1999');
+    expect(result.document_exists).toBe(true);
+    expect(result.ambiguous).toBe(true);
+    expect(result.candidates?.map(c => [c.document_id, c.confidence])).toEqual([
+      ['loi-1999-05-03-1999000101-fr', 0.5],
+      ['loi-1999-05-03-1999000202-fr', 0.5],
+    ]);
+  });
+
+  it('suggests close matches when nothing fits', () => {
+    const missingDocument = validateCitation(db, 'A.R. du 10 février 1994, art. 1');
+    expect(missingDocument.suggestions?.map(s => [s.document_id, s.reason])).toEqual([
+      ['loi-1994-02-10-1994009323-fr', 'same_date'],
+      ['loi-1994-02-10-1994009400-fr', 'same_date'],
+    ]);
+
+    const missingArticle = validateCitation(db, 'Loi du 2 fevrier 1994, art. 3');
+    expect(missingArticle.provision_exists).toBe(false);
+    expect(missingArticle.suggestions).toEqual([{
+      document_id: 'loi-1994-02-02-1994009001-fr',
+      title: 'Arrete royal du 2 fevrier 1994 fixant les formulaires administratifs',
+      reason: 'article_in_related_act',
+      provision_ref: 'art3',
+    }]);
+  });
+
   it('returns invalid for unparseable citation', () => {
     const result = validateCitation(db, 'This is not a citation');
     expect(result.document_exists).toBe(false);
@@ -1,4 +1,6 @@
 import Database from '@ansvar/mcp-sqlite';
+import { articleSortKey } from '../../src/utils/article-order.js';
+import { stemText } from '../../src/utils/stemmer.js';
 
 const SCHEMA = `
 CREATE TABLE legal_documents (
@@ -7,7 +9,10 @@ CREATE TABLE legal_documents (
   title TEXT NOT NULL,
   status TEXT NOT NULL,
   issued_date TEXT,
+  publication_date TEXT,
   in_force_date TEXT,
+  repealed_date TEXT,
+  repealed_by TEXT,
   url TEXT,
   description TEXT,
   language TEXT,
@@ -25,16 +30,32 @@ CREATE TABLE legal_provisions (
   content TEXT NOT NULL,
   language TEXT,
   metadata TEXT,
+  in_force_date TEXT,
+  repealed_date TEXT,
+  in_force_pending INTEGER NOT NULL DEFAULT 0,
+  structure_node_id INTEGER,
+  sort_key TEXT,
   UNIQUE(document_id, provision_ref)
 );
 
 CREATE INDEX idx_provisions_doc ON legal_provisions(document_id);
 
+CREATE TABLE document_structure (
+  id INTEGER PRIMARY KEY,
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  node_id INTEGER NOT NULL,
+  parent_node_id INTEGER,
+  level TEXT NOT NULL,
+  number TEXT NOT NULL,
+  heading TEXT,
+  UNIQUE(document_id, node_id)
+);
+
 CREATE VIRTUAL TABLE provisions_fts USING fts5(
   content, title,
   content='legal_provisions',
   content_rowid='id',
-  tokenize='unicode61'
+  tokenize='unicode61 remove_diacritics 2'
 );
 
 CREATE TRIGGER provisions_ai AFTER INSERT ON legal_provisions BEGIN
@@ -65,7 +86,8 @@ CREATE TABLE legal_provision_versions (
   language TEXT,
   metadata TEXT,
   valid_from TEXT,
-  valid_to TEXT
+  valid_to TEXT,
+  sort_key TEXT
 );
 
 CREATE INDEX idx_provision_versions_doc_ref
@@ -75,7 +97,7 @@ CREATE VIRTUAL TABLE provision_versions_fts USING fts5(
   content, title,
   content='legal_provision_versions',
   content_rowid='id',
-  tokenize='unicode61'
+  tokenize='unicode61 remove_diacritics 2'
 );
 
 CREATE TRIGGER provision_versions_ai AFTER INSERT ON legal_provision_versions BEGIN
@@ -95,6 +117,31 @@ CREATE TRIGGER provision_versions_au AFTER UPDATE ON legal_provision_versions BE
   VALUES (new.id, new.content, new.title);
 END;
 
+CREATE VIRTUAL TABLE provisions_stem_fts USING fts5(
+  content, title,
+  content='',
+  tokenize='unicode61 remove_diacritics 2'
+);
+
+CREATE VIRTUAL TABLE provision_versions_stem_fts USING fts5(
+  content, title,
+  content='',
+  tokenize='unicode61 remove_diacritics 2'
+);
+
+CREATE VIEW v_bilingual_pairs AS
+SELECT
+  fr.id AS fr_document_id,
+  fr.title AS fr_title,
+  nl.id AS nl_document_id,
+  nl.title AS nl_title,
+  fr.numac,
+  fr.issued_date
+FROM legal_documents fr
+JOIN legal_documents nl ON fr.numac = nl.numac AND nl.language = 'nl'
+WHERE fr.language = 'fr'
+ORDER BY fr.issued_date DESC;
+
 CREATE TABLE case_law (
   id INTEGER PRIMARY KEY,
   document_id TEXT NOT NULL,
@@ -138,6 +185,25 @@ CREATE TABLE eu_references (
 CREATE INDEX idx_eu_references_document ON eu_references(document_id, eu_document_id);
 CREATE INDEX idx_eu_references_provision ON eu_references(provision_id, eu_document_id);
 
+CREATE TABLE definitions (
+  id INTEGER PRIMARY KEY,
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  term TEXT NOT NULL,
+  term_en TEXT,
+  definition TEXT NOT NULL,
+  source_provision TEXT,
+  UNIQUE(document_id, term)
+);
+
+CREATE TABLE cross_references (
+  id INTEGER PRIMARY KEY,
+  source_document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  source_provision_ref TEXT,
+  target_document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  target_provision_ref TEXT,
+  ref_type TEXT NOT NULL DEFAULT 'references'
+);
+
 CREATE TABLE db_metadata (
   key TEXT PRIMARY KEY,
   value TEXT NOT NULL
@@ -150,7 +216,10 @@ interface SeedDocument {
   title: string;
   status: 'in_force' | 'amended' | 'repealed' | 'not_yet_in_force';
   issued_date?: string;
+  publication_date?: string;
   in_force_date?: string;
+  repealed_date?: string;
+  repealed_by?: string;
   url?: string;
   language?: string;
   numac?: string;
@@ -164,6 +233,20 @@ interface SeedProvision {
   title?: string;
   content: string;
   language?: string;
+  metadata?: string;
+  in_force_date?: string;
+  repealed_date?: string;
+  in_force_pending?: boolean;
+  structure_node_id?: number;
+}
+
+interface SeedStructureNode {
+  document_id: string;
+  node_id: number;
+  parent_node_id: number | null;
+  level: string;
+  number: string;
+  heading: string | null;
 }
 
 const DOCUMENTS: SeedDocument[] = [
@@ -173,6 +256,7 @@ const DOCUMENTS: SeedDocument[] = [
     title: 'Loi du 2 fevrier 1994 relative a la protection de la jeunesse',
     status: 'in_force',
     issued_date: '1994-02-02',
+    publication_date: '1994-02-15',
     in_force_date: '1994-03-01',
     url: 'http://www.ejustice.just.fgov.be/eli/loi/1994/02/02/1994009284/justel',
     language: 'fr',
@@ -184,11 +268,23 @@ const DOCUMENTS: SeedDocument[] = [
     title: 'Wet van 2 februari 1994 betreffende de jeugdbescherming',
     status: 'in_force',
     issued_date: '1994-02-02',
+    publication_date: '1994-02-15',
     in_force_date: '1994-03-01',
     url: 'http://www.ejustice.just.fgov.be/eli/wet/1994/02/02/1994009284/justel',
     language: 'nl',
     numac: '1994009284',
   },
+  {
+    id: 'gesetz-1994-02-02-1994009284-de',
+    type: 'statute',
+    title: 'Gesetz vom 2. Februar 1994 uber den Jugendschutz',
+    status: 'in_force',
+    issued_date: '1994-02-02',
+    publication_date: '1994-02-15',
+    in_force_date: '1994-03-01',
+    language: 'de',
+    numac: '1994009284',
+  },
   {
     id: 'loi-1994-02-10-1994009323-fr',
     type: 'statute',
@@ -196,6 +292,8 @@ const DOCUMENTS: SeedDocument[] = [
     status: 'repealed',
     issued_date: '1994-02-10',
     in_force_date: '1994-04-01',
+    repealed_date: '2018-01-01',
+    repealed_by: 'L 2017-12-15/01, art. 3',
     url: 'http://www.ejustice.just.fgov.be/eli/loi/1994/02/10/1994009323/justel',
     language: 'fr',
     numac: '1994009323',
@@ -211,9 +309,116 @@ const DOCUMENTS: SeedDocument[] = [
     language: 'fr',
     numac: '1992009783',
   },
+  {
+    id: 'loi-1994-02-02-1994009001-fr',
+    type: 'statute',
+    title: 'Arrete royal du 2 fevrier 1994 fixant les formulaires administratifs',
+    status: 'in_force',
+    issued_date: '1994-02-02',
+    url: 'http://www.ejustice.just.fgov.be/eli/arrete/1994/02/02/1994009001/justel',
+    language: 'fr',
+    numac: '1994009001',
+  },
+  {
+    id: 'loi-1804-03-21-1804032150-fr',
+    type: 'statute',
+    title: 'Code civil',
+    status: 'in_force',
+    issued_date: '1804-03-21',
+    url: 'http://www.ejustice.just.fgov.be/eli/loi/1804/03/21/1804032150/justel',
+    language: 'fr',
+    numac: '1804032150',
+  },
+  {
+    id: 'loi-1994-02-10-1994009400-fr',
+    type: 'statute',
+    title: 'Loi du 10 fevrier 1994 portant des dispositions fiscales',
+    status: 'in_force',
+    issued_date: '1994-02-10',
+    url: 'http://www.ejustice.just.fgov.be/eli/loi/1994/02/10/1994009400/justel',
+    language: 'fr',
+    numac: '1994009400',
+  },
+  {
+    id: 'cass-2019-05-13-c180412f',
+    type: 'case_law',
+    title: 'Cass., 13 mai 2019, C.18.0412.F',
+    status: 'in_force',
+    issued_date: '2019-05-13',
+    language: 'fr',
+  },
+  {
+    id: 'loi-1999-05-03-1999000101-fr',
+    type: 'statute',
+    title: 'Lois coordonnees sur la police de la circulation routiere',
+    status: 'in_force',
+    issued_date: '1999-05-03',
+    language: 'fr',
+    numac: '1999000101',
+  },
+  {
+    id: 'loi-1999-05-03-1999000202-fr',
+    type: 'statute',
+    title: 'Tarif des frais de justice en matiere repressive',
+    status: 'in_force',
+    issued_date: '1999-05-03',
+    language: 'fr',
+    numac: '1999000202',
+  },
+  {
+    id: 'loi-1999-05-03-1999000303-fr',
+    type: 'statute',
+    title: 'Arrete royal du 3 mai 1999 portant execution du tarif des frais de justice',
+    status: 'in_force',
+    issued_date: '1999-05-03',
+    language: 'fr',
+    numac: '1999000303',
+  },
+  {
+    id: 'loi-2001-06-15-2001000500-fr',
+    type: 'statute',
+    title: 'Loi du 15 juin 2001 relative aux marches publics',
+    status: 'in_force',
+    issued_date: '2001-06-15',
+    language: 'fr',
+    numac: '2001000500',
+  },
+  {
+    id: 'wet-2001-06-15-2001000500-nl',
+    type: 'statute',
+    title: 'Wet van 15 juni 2001 betreffende de overheidsopdrachten',
+    status: 'in_force',
+    issued_date: '2001-06-15',
+    language: 'nl',
+    numac: '2001000500',
+  },
 ];
 
 const PROVISIONS: SeedProvision[] = [
+  {
+    document_id: 'loi-2001-06-15-2001000500-fr',
+    provision_ref: 'art1er',
+    section: '1',
+    title: 'Article 1er',
+    content: 'La presente loi regle les marches publics.',
+    language: 'fr',
+  },
+  {
+    document_id: 'wet-2001-06-15-2001000500-nl',
+    provision_ref: 'art1',
+    section: '1',
+    title: 'Artikel 1',
+    content: 'Deze wet regelt de overheidsopdrachten.',
+    language: 'nl',
+  },
+  {
+    document_id: 'wet-2001-06-15-2001000500-nl',
+    provision_ref: 'art2',
+    section: '2',
+    title: 'Artikel 2',
+    content: 'De opdrachten bedoeld in artikel 1 worden gegund na mededinging.',
+    language: 'nl',
+  },
   {
     document_id: 'loi-1994-02-02-1994009284-fr',
     provision_ref: 'art1',
@@ -221,6 +426,19 @@ const PROVISIONS: SeedProvision[] = [
     title: 'Article 1',
     content: 'La presente loi protege la jeunesse et organise les mesures de protection.',
     language: 'fr',
+    structure_node_id: 2,
+    metadata: JSON.stringify({
+      amendments: [
+        {
+          marker: 1,
+          amending_act: 'L 2010-01-01/01',
+          amending_article: 'art. 2',
+          date: '2010-01-01',
+          in_force_date: '2010-01-01',
+          type: 'replaced',
+        },
+      ],
+    }),
   },
   {
     document_id: 'loi-1994-02-02-1994009284-fr',
@@ -229,6 +447,8 @@ const PROVISIONS: SeedProvision[] = [
     title: 'Article 10',
     content: 'Le tribunal de la jeunesse peut prendre des mesures de protection adaptees.',
     language: 'fr',
+    structure_node_id: 3,
+    in_force_date: '1995-01-01',
   },
   {
     document_id: 'wet-1994-02-02-1994009284-nl',
@@ -238,6 +458,14 @@ const PROVISIONS: SeedProvision[] = [
     content: 'Deze wet beschermt de jeugd en stelt beschermingsmaatregelen vast.',
     language: 'nl',
   },
+  {
+    document_id: 'gesetz-1994-02-02-1994009284-de',
+    provision_ref: 'art1',
+    section: '1',
+    title: 'Artikel 1',
+    content: 'Dieses Gesetz schutzt die Jugend und legt Schutzmassnahmen fest.',
+    language: 'de',
+  },
   {
     document_id: 'loi-1994-02-10-1994009323-fr',
     provision_ref: 'art1',
@@ -246,6 +474,40 @@ const PROVISIONS: SeedProvision[] = [
     content: 'La mediation penale est organisee devant le tribunal competent.',
     language: 'fr',
   },
+  {
+    document_id: 'loi-1994-02-10-1994009323-fr',
+    provision_ref: 'art2',
+    section: '2',
+    title: 'Article 2',
+    content: [
+      'Art. 2. § 1er. Le procureur du Roi peut convoquer l\'auteur de l\'infraction.',
+      'Il en informe la victime.',
+      '§ 2. La convocation mentionne :',
+      '1° les faits reproches;',
+      '2° les conditions proposees :',
+      'a) l\'indemnisation de la victime;',
+      'b) une formation;',
+      '3° le delai de reponse.',
+      'La convocation est adressee par pli recommande.',
+    ].join('\n'),
+    language: 'fr',
+  },
+  {
+    document_id: 'loi-1994-02-10-1994009323-fr',
+    provision_ref: 'art10',
+    section: '10',
+    title: 'Article 10',
+    content: 'Le Roi fixe la date d\'entree en vigueur de la presente loi.',
+    language: 'fr',
+  },
+  {
+    document_id: 'loi-1994-02-10-1994009323-fr',
+    provision_ref: 'art2bis',
+    section: '2bis',
+    title: 'Article 2bis',
+    content: 'Le modele de convocation est arrete par le ministre de la Justice.',
+    language: 'fr',
+  },
   {
     document_id: 'loi-1992-12-08-1992009783-fr',
     provision_ref: 'art1',
@@ -254,6 +516,74 @@ const PROVISIONS: SeedProvision[] = [
     content: 'La presente loi encadre le traitement des donnees personnelles et de la vie privee.',
     language: 'fr',
   },
+  {
+    document_id: 'loi-1992-12-08-1992009783-fr',
+    provision_ref: 'art2',
+    section: '2',
+    title: 'Article 2',
+    content: 'Le Roi determine les modalites du registre des traitements.',
+    language: 'fr',
+    in_force_pending: true,
+  },
+  {
+    document_id: 'loi-1994-02-02-1994009001-fr',
+    provision_ref: 'art3',
+    section: '3',
+    title: 'Article 3',
+    content: 'Les formulaires sont etablis selon le modele annexe.',
+    language: 'fr',
+  },
+  {
+    document_id: 'loi-1804-03-21-1804032150-fr',
+    provision_ref: 'art1382',
+    section: '1382',
+    title: 'Article 1382',
+    content: 'Tout fait quelconque de l\'homme, qui cause a autrui un dommage, oblige celui par la faute duquel il est arrive a le reparer.',
+    language: 'fr',
+  },
+  {
+    document_id: 'loi-1994-02-10-1994009400-fr',
+    provision_ref: 'art5',
+    section: '5',
+    title: 'Article 5',
+    content: 'La taxe est percue annuellement sur la base de la declaration.',
+    language: 'fr',
+  },
+];
+
+const STRUCTURE: SeedStructureNode[] = [
+  {
+    document_id: 'loi-1994-02-02-1994009284-fr',
+    node_id: 1,
+    parent_node_id: null,
+    level: 'titre',
+    number: 'Ier',
+    heading: 'De la protection de la jeunesse',
+  },
+  {
+    document_id: 'loi-1994-02-02-1994009284-fr',
+    node_id: 2,
+    parent_node_id: 1,
+    level: 'chapitre',
+    number: 'Ier',
+    heading: 'Dispositions generales',
+  },
+  {
+    document_id: 'loi-1994-02-02-1994009284-fr',
+    node_id: 3,
+    parent_node_id: 1,
+    level: 'chapitre',
+    number: 'II',
+    heading: 'Du tribunal de la jeunesse',
+  },
+  {
+    document_id: 'loi-1994-02-02-1994009284-fr',
+    node_id: 4,
+    parent_node_id: 1,
+    level: 'chapitre',
+    number: 'III',
+    heading: null,
+  },
 ];
 
 export function createTestDatabase(): InstanceType<typeof Database> {
@@ -261,8 +591,8 @@ export function createTestDatabase(): InstanceType<typeof Database> {
   db.exec(SCHEMA);
 
   const insertDoc = db.prepare(`
-    INSERT INTO legal_documents (id, type, title, status, issued_date, in_force_date, url, language, numac)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO legal_documents (id, type, title, status, issued_date, publication_date, in_force_date, repealed_date, repealed_by, url, language, numac)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
 
   for (const document of DOCUMENTS) {
@@ -272,7 +602,10 @@ export function createTestDatabase(): InstanceType<typeof Database> {
       document.title,
       document.status,
       document.issued_date ?? null,
+      document.publication_date ?? null,
       document.in_force_date ?? null,
+      document.repealed_date ?? null,
+      document.repealed_by ?? null,
       document.url ?? null,
       document.language ?? null,
       document.numac ?? null,
@@ -280,8 +613,8 @@ export function createTestDatabase(): InstanceType<typeof Database> {
   }
 
   const insertProvision = db.prepare(`
-    INSERT INTO legal_provisions (document_id, provision_ref, chapter, section, title, content, language, metadata)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO legal_provisions (document_id, provision_ref, chapter, section, title, content, language, metadata, in_force_date, repealed_date, in_force_pending, structure_node_id)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
 
   const provisionIds = new Map<string, number>();
@@ -294,11 +627,24 @@ export function createTestDatabase(): InstanceType<typeof Database> {
       provision.title ?? null,
       provision.content,
       provision.language ?? null,
-      null,
+      provision.metadata ?? null,
+      provision.in_force_date ?? null,
+      provision.repealed_date ?? null,
+      provision.in_force_pending ? 1 : 0,
+      provision.structure_node_id ?? null,
     );
     provisionIds.set(`${provision.document_id}:${provision.provision_ref}`, Number(info.lastInsertRowid));
   }
 
+  const insertStructureNode = db.prepare(`
+    INSERT INTO document_structure (document_id, node_id, parent_node_id, level, number, heading)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+
+  for (const node of STRUCTURE) {
+    insertStructureNode.run(node.document_id, node.node_id, node.parent_node_id, node.level, node.number, node.heading);
+  }
+
   const insertVersion = db.prepare(`
     INSERT INTO legal_provision_versions (document_id, provision_ref, chapter, section, title, content, language, metadata, valid_from, valid_to)
     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
@@ -325,7 +671,18 @@ export function createTestDatabase(): InstanceType<typeof Database> {
     'Article 1',
     'Texte modernise: la loi protege la jeunesse et renforce la protection des mineurs.',
     'fr',
-    null,
+    JSON.stringify({
+      amendments: [
+        {
+          marker: 1,
+          amending_act: 'L 2010-01-01/01',
+          amending_article: 'art. 2',
+          date: '2010-01-01',
+          in_force_date: '2010-01-01',
+          type: 'replaced',
+        },
+      ],
+    }),
     '2010-01-01',
     null,
   );
@@ -343,6 +700,43 @@ export function createTestDatabase(): InstanceType<typeof Database> {
     null,
   );
 
+  insertVersion.run(
+    'loi-1994-02-02-1994009284-fr',
+    'art2',
+    null,
+    '2',
+    'Article 2',
+    'Les mesures provisoires sont prises par le juge de la jeunesse.',
+    'fr',
+    null,
+    '1994-03-01',
+    '2005-06-01',
+  );
+
+  for (const table of ['legal_provisions', 'legal_provision_versions']) {
+    const rows = db.prepare(`SELECT id, section FROM ${table}`).all() as { id: number; section: string }[];
+    const updateSortKey = db.prepare(`UPDATE ${table} SET sort_key = ? WHERE id = ?`);
+    for (const row of rows) {
+      updateSortKey.run(articleSortKey(row.section), row.id);
+    }
+  }
+
+  for (const [source, target] of [
+    ['legal_provisions', 'provisions_stem_fts'],
+    ['legal_provision_versions', 'provision_versions_stem_fts'],
+  ]) {
+    const rows = db.prepare(`SELECT id, content, title, language FROM ${source}`).all() as {
+      id: number;
+      content: string;
+      title: string | null;
+      language: string | null;
+    }[];
+    const insertStem = db.prepare(`INSERT INTO ${target} (rowid, content, title) VALUES (?, ?, ?)`);
+    for (const row of rows) {
+      insertStem.run(row.id, stemText(row.content, row.language), stemText(row.title, row.language));
+    }
+  }
+
   const insertEuDoc = db.prepare(`
     INSERT INTO eu_documents (id, type, year, number, community, celex_number, title, short_name, url_eur_lex, in_force, amended_by)
     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
@@ -421,6 +815,20 @@ export function createTestDatabase(): InstanceType<typeof Database> {
     'complete',
   );
 
+  insertEuRef.run(
+    'provision',
+    'wet-2001-06-15-2001000500-nl:art1',
+    'wet-2001-06-15-2001000500-nl',
+    provisionIds.get('wet-2001-06-15-2001000500-nl:art1') ?? null,
+    'directive:95/46',
+    '7',
+    'cites_article',
+    'Artikel 1 verwijst naar artikel 7 van de richtlijn',
+    'Richtlijn 95/46 artikel 7',
+    0,
+    'complete',
+  );
+
   insertEuRef.run(
     'document',
     'loi-1994-02-10-1994009323-fr',
@@ -435,6 +843,45 @@ export function createTestDatabase(): InstanceType<typeof Database> {
     'unknown',
   );
 
+  const insertCrossReference = db.prepare(`
+    INSERT INTO cross_references (source_document_id, source_provision_ref, target_document_id, target_provision_ref, ref_type)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+
+  for (const link of [
+    ['loi-1994-02-10-1994009323-fr', 'art2', 'loi-1994-02-02-1994009284-fr', 'art1', 'references'],
+    ['loi-1994-02-10-1994009323-fr', 'art10', 'loi-1994-02-10-1994009323-fr', 'art2', 'references'],
+    ['loi-1994-02-02-1994009001-fr', 'art3', 'wet-1994-02-02-1994009284-nl', 'art1', 'references'],
+    ['loi-1992-12-08-1992009783-fr', 'art1', 'loi-1994-02-02-1994009284-fr', null, 'references'],
+    ['loi-1994-02-02-1994009284-fr', 'art10', 'loi-1994-02-10-1994009400-fr', 'art5', 'amended_by'],
+    ['cass-2019-05-13-c180412f', null, 'loi-1994-02-02-1994009284-fr', 'art1', 'references'],
+    ['wet-2001-06-15-2001000500-nl', 'art2', 'wet-2001-06-15-2001000500-nl', 'art1', 'references'],
+  ]) {
+    insertCrossReference.run(...link);
+  }
+
+  db.prepare(`
+    INSERT INTO case_law (document_id, court, case_number, decision_date, summary, keywords)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `).run(
+    'cass-2019-05-13-c180412f',
+    'Cour de cassation',
+    'C.18.0412.F',
+    '2019-05-13',
+    'Portee des mesures de protection de la jeunesse.',
+    'jeunesse;protection',
+  );
+
+  db.prepare(`
+    INSERT INTO definitions (document_id, term, definition, source_provision)
+    VALUES (?, ?, ?, ?)
+  `).run(
+    'loi-1994-02-02-1994009284-fr',
+    'mesures de protection',
+    'Les mesures prises a l\'egard d\'un mineur par le tribunal de la jeunesse.',
+    'art. 1',
+  );
+
   const insertMeta = db.prepare('INSERT INTO db_metadata (key, value) VALUES (?, ?)');
   insertMeta.run('tier', 'free');
   insertMeta.run('schema_version', '1.0');
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import { extractAmendments } from '../../scripts/lib/amendments.js';
+
+describe('extractAmendments', () => {
+  it('reads a numbered marker and its footnote', () => {
+    const result = extractAmendments(
+      'Art. 5. [1 Le Roi détermine les modalités.]1\n----------\n' +
+      '(1)<L 2018-07-30/46, art. 280, 095; En vigueur : 05-09-2018>'
+    );
+
+    expect(result.content).toBe('Art. 5. Le Roi détermine les modalités.');
+    expect(result.amendments).toEqual([{
+      marker: 1,
+      amending_act: 'L 2018-07-30/46',
+      amending_article: 'art. 280',
+      date: '2018-07-30',
+      in_force_date: '2018-09-05',
+      type: 'replaced',
+    }]);
+  });
+
+  it('unwraps nested and adjacent markers', () => {
+    const result = extractAmendments(
+      'Art. 2. Le juge [1 peut [2 ordonner]2 des mesures]1 provisoires. [3 Il statue]3 [4 d\'urgence.]4\n----------\n' +
+      '(1)<L 2006-06-13/32, art. 5, 012; En vigueur : 01-10-2006>\n' +
+      '(2)<L 2013-03-25/03, art. 3, 020; En vigueur : 01-07-2013>\n' +
+      '(3)<L 2013-03-25/03, art. 4, 020; En vigueur : 01-07-2013>\n' +
+      '(4)<L 2013-03-25/03, art. 5, 020; En vigueur : 01-07-2013>'
+    );
+
+    expect(result.content).toBe('Art. 2. Le juge peut ordonner des mesures provisoires. Il statue d\'urgence.');
+    expect(result.amendments.map(a => [a.marker, a.amending_article, a.type])).toEqual([
+      [1, 'art. 5', 'amended'],
+      [2, 'art. 3', 'amended'],
+      [3, 'art. 4', 'amended'],
+      [4, 'art. 5', 'amended'],
+    ]);
+  });
+
+  it('classifies repealed and inserted articles', () => {
+    const repealed = extractAmendments(
+      'Art. 7. [1 ...]1\n----------\n(1)<L 2010-12-29/01, art. 10, 015; En vigueur : 10-01-2011>'
+    );
+    expect(repealed.amendments[0].type).toBe('repealed');
+
+    const inserted = extractAmendments(
+      'Art. 4bis. [1 Le tribunal peut ordonner une expertise.]1\n----------\n' +
+      '(1)<L 2010-12-29/01, art. 11, 015; En vigueur : 10-01-2011>'
+    );
+    expect(inserted.content).toBe('Art. 4bis. Le tribunal peut ordonner une expertise.');
+    expect(inserted.amendments[0].type).toBe('inserted');
+  });
+
+  it('reads unnumbered inline footnotes', () => {
+    const result = extractAmendments(
+      'Art. 3. (De Koning bepaalt de nadere regels.) <W 1998-12-11/32, art. 5, 002; Inwerkingtreding : 01-01-1999>'
+    );
+
+    expect(result.content).toBe('Art. 3. (De Koning bepaalt de nadere regels.)');
+    expect(result.amendments).toEqual([{
+      marker: null,
+      amending_act: 'W 1998-12-11/32',
+      amending_article: 'art. 5',
+      date: '1998-12-11',
+      in_force_date: '1999-01-01',
+      type: 'amended',
+    }]);
+  });
+
+  it('takes the type from verb-led footnotes below the separator', () => {
+    const result = extractAmendments(
+      'Art. 6. [1 Le juge statue.]1 [2 Il peut entendre le mineur.]2 [3 ...]3\n----------\n' +
+      '(1)<Remplacé par L 2006-06-13/32, art. 5, 012; En vigueur : 01-10-2006>\n' +
+      '(2)<Inséré par L 2013-03-25/03, art. 3, 020; En vigueur : 01-07-2013>\n' +
+      '(3)<Abrogé par L 2014-05-08/01, art. 2, 022; En vigueur : 01-06-2014>'
+    );
+
+    expect(result.content).toBe('Art. 6. Le juge statue. Il peut entendre le mineur. ...');
+    expect(result.amendments.map(a => [a.marker, a.amending_act, a.type, a.in_force_date])).toEqual([
+      [1, 'L 2006-06-13/32', 'replaced', '2006-10-01'],
+      [2, 'L 2013-03-25/03', 'inserted', '2013-07-01'],
+      [3, 'L 2014-05-08/01', 'repealed', '2014-06-01'],
+    ]);
+  });
+
+  it('reads Dutch verb-led footnotes', () => {
+    const result = extractAmendments(
+      'Art. 6. [1 De rechter beslist.]1 [2 ...]2\n----------\n' +
+      '(1)<Ingevoegd bij W 2013-03-25/03, art. 3, 020; Inwerkingtreding : 01-07-2013>\n' +
+      '(2)<Opgeheven bij W 2014-05-08/01, art. 2, 022; Inwerkingtreding : 01-06-2014>'
+    );
+
+    expect(result.amendments.map(a => [a.amending_act, a.amending_article, a.type, a.in_force_date])).toEqual([
+      ['W 2013-03-25/03', 'art. 3', 'inserted', '2013-07-01'],
+      ['W 2014-05-08/01', 'art. 2', 'repealed', '2014-06-01'],
+    ]);
+  });
+
+  it('strips inline verb-led footnotes and applies a footnote after the heading to the whole article', () => {
+    const result = extractAmendments(
+      'Art. 37bis. <Inséré par L 1999-05-07/53, art. 4, En vigueur : 01-07-1999> Le tribunal peut ordonner une expertise. ' +
+      '(Le Roi fixe les frais.) <Modifié par L 2003-12-22/42, art. 2; En vigueur : 10-01-2004>'
+    );
+
+    expect(result.content).toBe('Art. 37bis. Le tribunal peut ordonner une expertise. (Le Roi fixe les frais.)');
+    expect(result.amendments.map(a => [a.amending_act, a.type, a.in_force_date])).toEqual([
+      ['L 1999-05-07/53', 'inserted', '1999-07-01'],
+      ['L 2003-12-22/42', 'amended', '2004-01-10'],
+    ]);
+    expect(result.article_amendment).toBe(result.amendments[0]);
+  });
+
+  it('classifies an inline "(Abrogé)" as a repeal', () => {
+    const result = extractAmendments('Art. 7. (Abrogé) <W 2010-12-29/01, art. 10, 015; En vigueur : 10-01-2011>');
+
+    expect(result.content).toBe('Art. 7. (Abrogé)');
+    expect(result.amendments).toEqual([{
+      marker: null,
+      amending_act: 'W 2010-12-29/01',
+      amending_article: 'art. 10',
+      date: '2010-12-29',
+      in_force_date: '2011-01-10',
+      type: 'repealed',
+    }]);
+  });
+
+  it('strips article notes so a full replacement is recognized', () => {
+    const result = extractAmendments(
+      'Art. 5. [1 Le Roi détermine les modalités.]1\n' +
+      '(NOTE : Entrée en vigueur fixée au 01-09-2019 par AR 2019-07-12/03, art. 1)\n' +
+      '----------\n' +
+      '(1)<L 2018-07-30/46, art. 280, 095; En vigueur : 05-09-2018>'
+    );
+
+    expect(result.content).toBe('Art. 5. Le Roi détermine les modalités.');
+    expect(result.amendments[0].type).toBe('replaced');
+    expect(result.article_amendment).toBe(result.amendments[0]);
+  });
+
+  it('leaves text without markers unchanged', () => {
+    expect(extractAmendments('Art. 1. La présente loi règle une matière visée à l\'article 74.')).toEqual({
+      content: 'Art. 1. La présente loi règle une matière visée à l\'article 74.',
+      amendments: [],
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { extractAmendments } from '../../scripts/lib/amendments.js';
+import { parseArticleStatus } from '../../scripts/lib/article-status.js';
+
+const status = (rawText: string) => parseArticleStatus(rawText, extractAmendments(rawText));
+
+describe('parseArticleStatus', () => {
+  it('marks an article whose entry into force is undetermined', () => {
+    expect(status('Art. 12. Le Roi fixe les modalités.\n(NOTE : En vigueur : indéterminée)'))
+      .toEqual({ in_force_pending: true });
+    expect(status('Art. 12. De Koning bepaalt de nadere regels.\n(NOTA : Inwerkingtreding : onbepaald)'))
+      .toEqual({ in_force_pending: true });
+  });
+
+  it('reads a dated entry into force, including one still to come', () => {
+    expect(status('Art. 13. Le Roi fixe les modalités.\n(NOTE : Entrée en vigueur fixée au 01-01-2030 par AR 2024-07-12/03, art. 1)'))
+      .toEqual({ in_force_date: '2030-01-01' });
+  });
+
+  it('dates an inserted article by its insertion footnote', () => {
+    expect(status(
+      'Art. 4bis. [1 Le tribunal peut ordonner une expertise.]1\n----------\n' +
+      '(1)<Inséré par L 2010-12-29/01, art. 11, 015; En vigueur : 01-03-2031>'
+    )).toEqual({ in_force_date: '2031-03-01' });
+
+    expect(status(
+      'Art. 37bis. <Inséré par L 1999-05-07/53, art. 4; En vigueur : indéterminée> Le tribunal peut ordonner une expertise.'
+    )).toEqual({ in_force_pending: true });
+  });
+
+  it('does not date the article by a passage inserted into it', () => {
+    expect(status(
+      'Art. 6. Le juge statue. [1 Il peut entendre le mineur.]1\n----------\n' +
+      '(1)<Inséré par L 2013-03-25/03, art. 3, 020; En vigueur : 01-07-2013>'
+    )).toEqual({});
+  });
+
+  it('dates an inline "(Abrogé)" repeal', () => {
+    expect(status('Art. 7. (Abrogé) <W 2010-12-29/01, art. 10, 015; En vigueur : 10-01-2011>'))
+      .toEqual({ repealed_date: '2011-01-10' });
+  });
+
+  it('dates an article repealed by its marker footnote', () => {
+    expect(status(
+      'Art. 8. [1 ...]1\n----------\n(1)<L 2014-05-08/01, art. 2, 022; En vigueur : 01-06-2014>'
+    )).toEqual({ repealed_date: '2014-06-01' });
+
+    expect(status(
+      'Art. 9. [1 Opgeheven]1\n----------\n(1)<Opgeheven bij W 2014-05-08/01, art. 2, 022>'
+    )).toEqual({ repealed_date: '2014-05-08' });
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createCrossReferenceIndex,
+  extractCrossReferences,
+  type CrossReferenceDocument,
+} from '../../scripts/lib/cross-references.js';
+
+function act(id: string, title: string, numac: string, sections: string[]): CrossReferenceDocument {
+  return {
+    id,
+    title,
+    issued_date: id.match(/\d{4}-\d{2}-\d{2}/)?.[0],
+    language: id.endsWith('-nl') ? 'nl' : 'fr',
+    numac,
+    provisions: sections.map(section => ({ provision_ref: `art${section}`, section })),
+  };
+}
+
+const youth = act('loi-1994-02-02-1994009284-fr', '2 FEVRIER 1994. - Loi relative à la protection de la jeunesse', '1994009284', ['1', '2', '3', '4', '5', '6', '7', '10']);
+const youthNl = act('wet-1994-02-02-1994009284-nl', '2 FEBRUARI 1994. - Wet betreffende de jeugdbescherming', '1994009284', ['1', '2', '3']);
+const youthDecree = act('loi-1994-02-02-1994009300-fr', '2 FEVRIER 1994. - Arrêté royal portant exécution de la loi relative à la protection de la jeunesse', '1994009300', ['1', '5']);
+const privacy = act('loi-1992-12-08-1992009783-fr', '8 DECEMBRE 1992. - Loi relative à la protection de la vie privée', '1992009783', ['1', '2', '3']);
+const mayA = act('loi-2000-05-10-2000000001-fr', '10 MAI 2000. - Loi modifiant le Code judiciaire', '2000000001', ['1']);
+const mayB = act('loi-2000-05-10-2000000002-fr', '10 MAI 2000. - Loi portant des dispositions diverses', '2000000002', ['1']);
+const dataProtection = act('loi-2018-07-30-2018040581-fr', '30 JUILLET 2018. - Loi relative à la protection des personnes physiques', '2018040581', ['1', '280']);
+const dataProtectionDecree = act('loi-2018-07-30-2018040600-fr', '30 JUILLET 2018. - Arrêté royal fixant la date d\'entrée en vigueur', '2018040600', ['1']);
+
+const index = createCrossReferenceIndex([
+  youth, youthNl, youthDecree, privacy, mayA, mayB, dataProtection, dataProtectionDecree,
+]);
+
+function extract(
+  source: CrossReferenceDocument,
+  provisionRef: string,
+  content: string,
+  amendments?: Array<{ amending_act: string; amending_article?: string | null }>
+) {
+  return extractCrossReferences(index, source, { provision_ref: provisionRef, content, amendments });
+}
+
+const targets = (result: ReturnType<typeof extract>) =>
+  result.references.map(ref => [ref.target_document_id, ref.target_provision_ref, ref.ref_type]);
+
+describe('extractCrossReferences', () => {
+  it('links articles of the same act, including "de la présente loi"', () => {
+    const result = extract(youth, 'art2',
+      'Les mesures visées à l\'article 4 et aux articles 5 et 6 de la présente loi sont prises par le juge. L\'article 2 s\'applique.');
+
+    expect(targets(result)).toEqual([
+      [youth.id, 'art4', 'references'],
+      [youth.id, 'art5', 'references'],
+      [youth.id, 'art6', 'references'],
+    ]);
+    expect(result.unresolved).toEqual([]);
+  });
+
+  it('expands article ranges and reports each missing article once', () => {
+    const result = extract(youth, 'art3', 'Les articles 4 à 7 sont applicables. Les articles 5 à 9 le sont aussi.');
+
+    expect(targets(result).map(([, ref]) => ref)).toEqual(['art4', 'art5', 'art6', 'art7']);
+    expect(result.unresolved.map(entry => [entry.text, entry.reason, entry.article])).toEqual([
+      ['articles 5 à 9', 'unknown_article', '8'],
+      ['articles 5 à 9', 'unknown_article', '9'],
+    ]);
+  });
+
+  it('resolves other acts and skips acts it cannot identify or EU acts', () => {
+    const result = extract(youth, 'art3',
+      'l\'article 2 de la loi du 8 décembre 1992, l\'article 3 de la loi précitée et l\'article 4 du règlement (UE) 2016/679');
+
+    expect(targets(result)).toEqual([[privacy.id, 'art2', 'references']]);
+    expect(result.unresolved).toEqual([
+      expect.objectContaining({ text: 'article 3', reason: 'unknown_act' }),
+    ]);
+  });
+
+  it('tells ambiguous acts, unknown acts and unknown articles apart', () => {
+    const result = extract(youth, 'art3',
+      'l\'article 1er de la loi du 10 mai 2000, la loi du 1er janvier 1950, l\'article 99 de la loi du 8 décembre 1992');
+
+    expect(result.unresolved.map(entry => [entry.reason, entry.text])).toEqual([
+      ['ambiguous', 'article 1er de la loi du 10 mai 2000'],
+      ['unknown_act', 'loi du 1er janvier 1950'],
+      ['unknown_article', 'article 99 de la loi du 8 décembre 1992'],
+    ]);
+    // The act of an unknown article is still linked
+    expect(targets(result)).toEqual([[privacy.id, null, 'references']]);
+  });
+
+  it('does not take a royal decree of the same date for the statute', () => {
+    const result = extract(privacy, 'art1', 'l\'article 5 de la loi du 2 février 1994');
+
+    expect(targets(result)).toEqual([[youth.id, 'art5', 'references']]);
+    expect(result.unresolved).toEqual([]);
+  });
+
+  it('prefers the language version of the citing act', () => {
+    const result = extract(youthNl, 'art1', 'de maatregelen bedoeld in artikel 3 en artikel 2 van de wet van 2 februari 1994');
+
+    expect(targets(result)).toEqual([
+      [youthNl.id, 'art3', 'references'],
+      [youthNl.id, 'art2', 'references'],
+    ]);
+  });
+
+  it('links amendment footnotes as amended_by and ignores amending acts outside the corpus', () => {
+    const result = extract(youth, 'art10', 'Texte modifié.', [
+      { amending_act: 'L 2018-07-30/46', amending_article: 'art. 280' },
+      { amending_act: 'L 2021-01-01/01', amending_article: 'art. 2' },
+    ]);
+
+    expect(targets(result)).toEqual([[dataProtection.id, 'art280', 'amended_by']]);
+    expect(result.unresolved).toEqual([]);
+  });
+});
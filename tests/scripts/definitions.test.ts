@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { extractDefinitions } from '../../scripts/lib/definitions.js';
+
+const terms = (result: ReturnType<typeof extractDefinitions>) =>
+  result.definitions.map(definition => [definition.term, definition.definition]);
+
+describe('extractDefinitions', () => {
+  it('reads a French numbered list', () => {
+    const result = extractDefinitions([{
+      provision_ref: 'art1',
+      content: 'Art. 1. Pour l\'application de la présente loi, on entend par :\n' +
+        '1° « données à caractère personnel » : toute information se rapportant à une personne physique identifiée;\n' +
+        '2° responsable du traitement : la personne qui détermine les finalités; et\n' +
+        '3° le « destinataire », la personne qui reçoit des données.',
+    }]);
+
+    expect(result.definitions).toEqual([
+      {
+        term: 'données à caractère personnel',
+        definition: 'toute information se rapportant à une personne physique identifiée',
+        source_provision: 'art1',
+      },
+      { term: 'responsable du traitement', definition: 'la personne qui détermine les finalités', source_provision: 'art1' },
+      { term: 'destinataire', definition: 'la personne qui reçoit des données', source_provision: 'art1' },
+    ]);
+    expect(result.ambiguities).toEqual([]);
+  });
+
+  it('reads "wordt verstaan onder" with items on one line', () => {
+    const result = extractDefinitions([{
+      provision_ref: 'art2',
+      content: 'Voor de toepassing van deze wet wordt verstaan onder: 1° "persoonsgegevens": alle informatie over een natuurlijke persoon; 2° „verwerking”: elke bewerking.',
+    }]);
+
+    expect(terms(result)).toEqual([
+      ['persoonsgegevens', 'alle informatie over een natuurlijke persoon'],
+      ['verwerking', 'elke bewerking'],
+    ]);
+  });
+
+  it('reads a single definition following the phrase', () => {
+    const result = extractDefinitions([{
+      provision_ref: 'art3',
+      content: 'Pour l\'application du présent titre, on entend par « consommateur » toute personne physique qui agit à des fins privées. Le Roi fixe les modalités.',
+    }]);
+
+    expect(terms(result)).toEqual([['consommateur', 'toute personne physique qui agit à des fins privées']]);
+  });
+
+  it('keeps lettered points inside their numbered item', () => {
+    const result = extractDefinitions([{
+      provision_ref: 'art1',
+      content: 'On entend par :\n1° « traitement » : toute opération, notamment :\na) la collecte;\nb) la consultation;\n2° « fichier » : tout ensemble structuré.',
+    }]);
+
+    expect(terms(result)).toEqual([
+      ['traitement', 'toute opération, notamment : a) la collecte; b) la consultation'],
+      ['fichier', 'tout ensemble structuré'],
+    ]);
+  });
+
+  it('ends the list at the next paragraph or after the last item', () => {
+    const result = extractDefinitions([{
+      provision_ref: 'art1',
+      content: '§ 1er. On entend par :\n1° « mineur » : la personne âgée de moins de dix-huit ans.\n' +
+        'Le Roi peut préciser cette notion.\n§ 2. Les mesures sont prises par le juge.',
+    }]);
+
+    expect(terms(result)).toEqual([['mineur', 'la personne âgée de moins de dix-huit ans']]);
+  });
+
+  it('keeps apostrophes inside quoted terms', () => {
+    const result = extractDefinitions([{
+      provision_ref: 'art1',
+      content: 'On entend par :\n1° « l\'autorité de contrôle » : l\'Autorité de protection des données;\n2° « l’intéressé » : la personne concernée.',
+    }]);
+
+    expect(terms(result)).toEqual([
+      ['l\'autorité de contrôle', 'l\'Autorité de protection des données'],
+      ['l’intéressé', 'la personne concernée'],
+    ]);
+  });
+
+  it('reports conflicting and unparsed definitions', () => {
+    const result = extractDefinitions([
+      { provision_ref: 'art1', content: 'On entend par :\n1° « traitement » : la collecte des données;\n2° toute autre opération que le Roi détermine.' },
+      { provision_ref: 'art4', content: 'Au sens du présent chapitre, on entend par « traitement » : toute opération.' },
+      { provision_ref: 'art5', content: 'On entend par travailleur toute personne occupée.' },
+      { provision_ref: 'art6', content: 'Pour l\'application du présent article, on entend par :' },
+    ]);
+
+    expect(terms(result)).toEqual([['traitement', 'la collecte des données']]);
+    expect(result.ambiguities.map(ambiguity => [ambiguity.provision_ref, ambiguity.reason])).toEqual([
+      ['art1', 'unparsed_item'],
+      ['art4', 'conflicting_definitions'],
+      ['art5', 'unparsed_item'],
+      ['art6', 'no_items'],
+    ]);
+    expect(result.ambiguities[1].text).toContain('already defined in art1');
+  });
+});
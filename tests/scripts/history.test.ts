@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { buildProvisionHistory, currentTextStart, nextDay, type LawSnapshot } from '../../scripts/lib/history.js';
+
+function article(ref: string, content: string) {
+  return { provision_ref: ref, section: ref.replace(/^art/, ''), content };
+}
+
+describe('buildProvisionHistory', () => {
+  it('orders snapshots and merges unchanged windows', () => {
+    const history = buildProvisionHistory([
+      { validFrom: '2010-01-01', validTo: null, provisions: [article('art1', 'Texte 2010.'), article('art2', 'Inchangé.')] },
+      { validFrom: '1994-03-01', validTo: '2005-01-01', provisions: [article('art1', 'Texte 1994.'), article('art2', 'Inchangé.')] },
+      { validFrom: '2005-01-01', validTo: '2010-01-01', provisions: [article('art1', 'Texte  1994.'), article('art2', 'Inchangé.')] },
+    ]);
+
+    expect(history.get('art1')).toEqual([
+      { provision_ref: 'art1', section: '1', content: 'Texte 1994.', valid_from: '1994-03-01', valid_to: '2010-01-01' },
+      { provision_ref: 'art1', section: '1', content: 'Texte 2010.', valid_from: '2010-01-01' },
+    ]);
+    expect(history.get('art2')).toEqual([
+      { provision_ref: 'art2', section: '2', content: 'Inchangé.', valid_from: '1994-03-01' },
+    ]);
+  });
+
+  it('clamps a window that runs past the next snapshot and drops empty ones', () => {
+    const history = buildProvisionHistory([
+      { validFrom: '1994-03-01', validTo: '2012-01-01', provisions: [article('art1', 'Premier texte.')] },
+      { validFrom: '2005-01-01', validTo: '2005-01-01', provisions: [article('art1', 'Fenêtre vide.')] },
+      { validFrom: '2010-01-01', validTo: null, provisions: [article('art1', 'Texte actuel.')] },
+    ]);
+
+    expect(history.get('art1')?.map(v => [v.content, v.valid_from, v.valid_to])).toEqual([
+      ['Premier texte.', '1994-03-01', '2005-01-01'],
+      ['Texte actuel.', '2010-01-01', undefined],
+    ]);
+  });
+
+  it('starts a new version when an article disappears and comes back', () => {
+    const history = buildProvisionHistory([
+      { validFrom: '1994-03-01', validTo: '2000-01-01', provisions: [article('art1', 'A.'), article('art2', 'Texte.')] },
+      { validFrom: '2000-01-01', validTo: '2008-01-01', provisions: [article('art1', 'A.')] },
+      { validFrom: '2008-01-01', validTo: null, provisions: [article('art1', 'A.'), article('art2', 'Texte.')] },
+    ]);
+
+    expect(history.get('art2')?.map(v => [v.valid_from, v.valid_to])).toEqual([
+      ['1994-03-01', '2000-01-01'],
+      ['2008-01-01', undefined],
+    ]);
+    expect(history.get('art1')).toHaveLength(1);
+  });
+
+  it('keeps the current text latest when the archives state no end date', () => {
+    const archives: LawSnapshot[] = [
+      { validFrom: '1994-03-01', validTo: null, provisions: [article('art1', 'Texte 1994.')] },
+      { validFrom: '2005-01-01', validTo: null, provisions: [article('art1', 'Texte 2005.')] },
+    ];
+    const current: LawSnapshot = {
+      validFrom: currentTextStart(archives),
+      validTo: null,
+      provisions: [article('art1', 'Texte actuel.')],
+    };
+
+    expect(current.validFrom).toBe('2005-01-01');
+    const versions = buildProvisionHistory([...archives, current]).get('art1') ?? [];
+    expect(versions.map(v => [v.content, v.valid_from, v.valid_to])).toEqual([
+      ['Texte 1994.', '1994-03-01', '2005-01-01'],
+      ['Texte actuel.', '2005-01-01', undefined],
+    ]);
+  });
+
+  it('sorts a snapshot without start date after dated ones', () => {
+    const versions = buildProvisionHistory([
+      { validFrom: null, validTo: null, provisions: [article('art1', 'Texte actuel.')] },
+      { validFrom: '1994-03-01', validTo: '2005-01-01', provisions: [article('art1', 'Texte 1994.')] },
+    ]).get('art1') ?? [];
+
+    expect(versions.map(v => v.content)).toEqual(['Texte 1994.', 'Texte actuel.']);
+  });
+});
+
+describe('currentTextStart', () => {
+  it('uses the end of the last archive when Justel gives one', () => {
+    expect(currentTextStart([
+      { validFrom: '1994-03-01', validTo: nextDay('2004-12-31'), provisions: [] },
+      { validFrom: '2005-01-01', validTo: '2010-01-01', provisions: [] },
+    ])).toBe('2010-01-01');
+    expect(currentTextStart([])).toBeNull();
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { documentStatus, parseArchivedVersionLinks, parseLawContent, parseRepeal } from '../../scripts/lib/parser.js';
+import { parseBelgianDate } from '../../scripts/lib/dates.js';
+
+describe('parseArchivedVersionLinks', () => {
+  it('reads the archive number and validity window of each link', () => {
+    const html = `
+      <table>
+        <tr><td><a href="article.pl?language=fr&arch=003&numac=1994009284">Version archivée n° 003</a></td>
+            <td>en vigueur du 01-01-2005 au 31-12-2009</td></tr>
+        <tr><td><a href="article.pl?language=fr&arch=001&numac=1994009284">Version archivée n° 001 en vigueur du 01-03-1994 au 31-12-2004</a></td></tr>
+      </table>`;
+
+    expect(parseArchivedVersionLinks(html)).toEqual([
+      {
+        number: 1,
+        href: 'article.pl?language=fr&arch=001&numac=1994009284',
+        validFrom: '1994-03-01',
+        validUntil: '2004-12-31',
+      },
+      {
+        number: 3,
+        href: 'article.pl?language=fr&arch=003&numac=1994009284',
+        validFrom: '2005-01-01',
+        validUntil: '2009-12-31',
+      },
+    ]);
+  });
+
+  it('leaves the end open when the link states none and skips duplicates and other links', () => {
+    const html = `
+      <ul>
+        <li><a href="article.pl?arch=002">Gearchiveerde versie nr 002 van kracht vanaf 01-01-2005</a></li>
+        <li><a href="article.pl?arch=002">nr 002</a></li>
+        <li><a href="article.pl?language=nl&numac=1994009284">Huidige versie</a></li>
+      </ul>`;
+
+    expect(parseArchivedVersionLinks(html)).toEqual([
+      { number: 2, href: 'article.pl?arch=002', validFrom: '2005-01-01', validUntil: null },
+    ]);
+  });
+});
+
+describe('parseRepeal', () => {
+  it('reads French and Dutch repeal banners', () => {
+    expect(parseRepeal('Abrogé par L 2017-03-12/05, art. 10; En vigueur : 01-04-2017')).toEqual({
+      repealedDate: '2017-04-01',
+      repealedBy: 'L 2017-03-12/05, art. 10',
+    });
+    expect(parseRepeal('Opgeheven bij W 2017-03-12/05, art. 10; Inwerkingtreding : 01-04-2017')).toEqual({
+      repealedDate: '2017-04-01',
+      repealedBy: 'W 2017-03-12/05, art. 10',
+    });
+  });
+
+  it('falls back to the date of the repealing act', () => {
+    expect(parseRepeal('Abrogée par : loi du 1er mars 2019.\nSource : JUSTICE')).toEqual({
+      repealedDate: '2019-03-01',
+      repealedBy: 'loi du 1er mars 2019',
+    });
+    expect(parseRepeal('Opgeheven door wet van datum onbekend')).toEqual({
+      repealedDate: null,
+      repealedBy: 'wet van datum onbekend',
+    });
+  });
+
+  it('ignores text without a repeal banner', () => {
+    expect(parseRepeal('Entrée en vigueur : 01-01-1995')).toBeNull();
+  });
+});
+
+describe('parseBelgianDate', () => {
+  it('reads numeric and written French and Dutch dates', () => {
+    expect(parseBelgianDate('05-09-2018')).toBe('2018-09-05');
+    expect(parseBelgianDate('2018-09-05')).toBe('2018-09-05');
+    expect(parseBelgianDate('1er mars 1994')).toBe('1994-03-01');
+    expect(parseBelgianDate('8 décembre 1992')).toBe('1992-12-08');
+    expect(parseBelgianDate('15 FEBRUARI 2018')).toBe('2018-02-15');
+  });
+
+  it('returns null for undetermined or invalid dates', () => {
+    expect(parseBelgianDate('indéterminée')).toBeNull();
+    expect(parseBelgianDate('onbepaald')).toBeNull();
+    expect(parseBelgianDate('12 brumaire 1994')).toBeNull();
+    expect(parseBelgianDate('31-02-2019')).toBeNull();
+    expect(parseBelgianDate('2019-13-01')).toBeNull();
+    expect(parseBelgianDate('32 mars 1994')).toBeNull();
+    expect(parseBelgianDate('')).toBeNull();
+  });
+});
+
+describe('documentStatus', () => {
+  const law = { inForceDate: null, repealedDate: null, repealedBy: null };
+  const today = '2024-06-01';
+
+  it('is repealed once the repeal has taken effect', () => {
+    expect(documentStatus({ ...law, repealedDate: '2017-04-01', repealedBy: 'L 2017-03-12/05' }, today)).toBe('repealed');
+    expect(documentStatus({ ...law, repealedBy: 'L 2017-03-12/05' }, today)).toBe('repealed');
+  });
+
+  it('stays in force until a future repeal and awaits a future entry into force', () => {
+    expect(documentStatus({ ...law, repealedDate: '2030-01-01', repealedBy: 'L 2024-03-12/05' }, today)).toBe('in_force');
+    expect(documentStatus({ ...law, inForceDate: '2025-01-01' }, today)).toBe('not_yet_in_force');
+    expect(documentStatus({ ...law, inForceDate: '2024-06-01' }, today)).toBe('in_force');
+  });
+});
+
+describe('parseLawContent', () => {
+  it('reads the entry into force and repeal banners of the header', () => {
+    const html = `
+      <div class="list-item--title">2 FEVRIER 1994. - Loi relative à la protection de la jeunesse</div>
+      <div class="plain-text">Entrée en vigueur : 1er mars 1994</div>
+      <div class="plain-text">Abrogé par L 2017-03-12/05, art. 10; En vigueur : 01-04-2017</div>
+      <div class="plain-text">Source : JUSTICE</div>
+      <div id="list-title-3"><a name="Art.1er"></a>Art. 1er. La présente loi règle une matière visée à l'article 74.</div>`;
+
+    const parsed = parseLawContent(html, '1994009284');
+    expect(parsed).toMatchObject({
+      entryIntoForce: '1er mars 1994',
+      inForceDate: '1994-03-01',
+      repealedDate: '2017-04-01',
+      repealedBy: 'L 2017-03-12/05, art. 10',
+      source: 'JUSTICE',
+    });
+    expect(documentStatus(parsed, '2024-06-01')).toBe('repealed');
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addHeading,
+  createOutline,
+  currentChapter,
+  currentNode,
+  parseHeading,
+  splitTrailingHeadings,
+} from '../../scripts/lib/structure.js';
+import { parseLawContent } from '../../scripts/lib/parser.js';
+
+describe('parseHeading', () => {
+  it('reads French heading levels', () => {
+    expect([
+      'LIVRE Ier. - Des personnes',
+      'TITRE II. - De la nationalité',
+      'CHAPITRE III. - Dispositions générales',
+      'Section 1re. - Champ d\'application',
+      'Sous-section 2bis. - Définitions',
+    ].map(parseHeading)).toEqual([
+      { level: 'livre', number: 'Ier', heading: 'Des personnes' },
+      { level: 'titre', number: 'II', heading: 'De la nationalité' },
+      { level: 'chapitre', number: 'III', heading: 'Dispositions générales' },
+      { level: 'section', number: '1re', heading: 'Champ d\'application' },
+      { level: 'sous_section', number: '2bis', heading: 'Définitions' },
+    ]);
+  });
+
+  it('reads Dutch heading levels', () => {
+    expect([
+      'BOEK I. - Personen',
+      'TITEL II. - Nationaliteit',
+      'HOOFDSTUK III. - Algemene bepalingen',
+      'Afdeling 1. - Toepassingsgebied',
+      'Onderafdeling 2. - Definities',
+    ].map(heading => parseHeading(heading)?.level)).toEqual(['livre', 'titre', 'chapitre', 'section', 'sous_section']);
+  });
+
+  it('accepts a bare number only when the heading ends with a full stop', () => {
+    expect(parseHeading('TITRE II.')).toEqual({ level: 'titre', number: 'II', heading: null });
+    expect(parseHeading('Section 2 du chapitre précédent est applicable')).toBeNull();
+    expect(parseHeading('Art. 5. Le Roi détermine les modalités.')).toBeNull();
+  });
+});
+
+describe('splitTrailingHeadings', () => {
+  it('moves the headings after an article to the next one', () => {
+    expect(splitTrailingHeadings(
+      'Art. 4. Le juge statue.\nCHAPITRE II. - De la procédure\nSection 1re. - Saisine'
+    )).toEqual({
+      body: 'Art. 4. Le juge statue.',
+      headings: [
+        { level: 'chapitre', number: 'II', heading: 'De la procédure' },
+        { level: 'section', number: '1re', heading: 'Saisine' },
+      ],
+    });
+  });
+
+  it('keeps the first line even when it reads as a heading', () => {
+    expect(splitTrailingHeadings('TITRE II.')).toEqual({ body: 'TITRE II.', headings: [] });
+  });
+});
+
+describe('addHeading', () => {
+  it('nests headings and re-parents when a higher level reappears', () => {
+    const outline = createOutline();
+    const livre = addHeading(outline, { level: 'livre', number: 'I', heading: 'Personnes' });
+    const chapitre = addHeading(outline, { level: 'chapitre', number: '1er', heading: 'Principes' });
+    const section = addHeading(outline, { level: 'section', number: '1re', heading: null });
+    expect(currentChapter(outline)).toBe('1er. Principes');
+
+    const titre = addHeading(outline, { level: 'titre', number: 'II', heading: 'Biens' });
+    const nextChapitre = addHeading(outline, { level: 'chapitre', number: '2', heading: null });
+    const nextLivre = addHeading(outline, { level: 'livre', number: 'II', heading: 'Obligations' });
+
+    expect([livre, chapitre, section, titre, nextChapitre, nextLivre].map(node => [node.id, node.parent_id]))
+      .toEqual([[1, null], [2, 1], [3, 2], [4, 1], [5, 4], [6, null]]);
+    expect(outline.path).toEqual([nextLivre]);
+    expect(currentNode(outline)).toBe(nextLivre);
+    expect(currentChapter(outline)).toBeUndefined();
+  });
+});
+
+describe('parseLawContent structure', () => {
+  it('builds the outline and assigns each article its innermost heading', () => {
+    const html = `
+      <div class="list-item--title">10 MAI 2007. - Loi tendant à lutter contre certaines formes de discrimination</div>
+      <div id="list-title-3">
+        TITRE Ier. - Dispositions générales<BR>
+        CHAPITRE 1er. - Objet<BR>
+        <A NAME='Art.1er'></A>Art. 1er. La présente loi règle une matière visée à l'article 74.<BR>
+        CHAPITRE II. - Définitions<BR>
+        <A NAME='Art.2'></A>Art. 2. Pour l'application de la présente loi, on entend par travailleur toute personne occupée.<BR>
+        Section 1re. - Champ d'application<BR>
+        <A NAME='Art.3'></A>Art. 3. La présente loi s'applique à tous.<BR>
+        TITRE II. - Procédure<BR>
+        <A NAME='Art.4'></A>Art. 4. Le juge statue.
+      </div>`;
+
+    const parsed = parseLawContent(html, '2007002099');
+
+    expect(parsed.structure.map(node => [node.id, node.level, node.number, node.parent_id])).toEqual([
+      [1, 'titre', 'Ier', null],
+      [2, 'chapitre', '1er', 1],
+      [3, 'chapitre', 'II', 1],
+      [4, 'section', '1re', 3],
+      [5, 'titre', 'II', null],
+    ]);
+    expect(parsed.provisions.map(p => [p.provision_ref, p.structure_id, p.chapter])).toEqual([
+      ['art1er', 2, '1er. Objet'],
+      ['art2', 3, 'II. Définitions'],
+      ['art3', 4, 'II. Définitions'],
+      ['art4', 5, undefined],
+    ]);
+    expect(parsed.provisions[1].content).toBe(
+      'Art. 2. Pour l\'application de la présente loi, on entend par travailleur toute personne occupée.'
+    );
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { collectVersions, validateVersionWindows } from '../../scripts/lib/versions.js';
+
+const current = {
+  provision_ref: 'art1',
+  section: '1',
+  content: 'Texte actuel de l\'article.',
+};
+
+describe('collectVersions', () => {
+  it('sorts versions chronologically and adds document-level versions', () => {
+    const versions = collectVersions(
+      [{
+        ...current,
+        versions: [
+          { valid_from: '2010-01-01', content: 'Texte actuel de l\'article.' },
+          { valid_from: '1994-03-01', valid_to: '2010-01-01', content: 'Ancien texte.' },
+        ],
+      }],
+      [{ provision_ref: ' art2 ', section: '2', valid_from: '1994-03-01', valid_to: '2005-06-01', content: 'Abrogé.' }]
+    );
+
+    expect(versions.get('art1')?.map(version => version.valid_from)).toEqual(['1994-03-01', '2010-01-01']);
+    expect(versions.get('art1')?.[0].section).toBe('1');
+    expect(versions.get('art2')?.[0].content).toBe('Abrogé.');
+  });
+
+  it('mirrors the current text for unversioned provisions once the document has history', () => {
+    const versions = collectVersions(
+      [
+        { ...current, versions: [{ valid_from: '2010-01-01', content: current.content }] },
+        { provision_ref: 'art2', section: '2', content: 'Inchangé.' },
+      ]
+    );
+    expect(versions.get('art2')).toHaveLength(1);
+    expect(versions.get('art2')?.[0]).toMatchObject({ content: 'Inchangé.' });
+    expect(versions.get('art2')?.[0].valid_from).toBeUndefined();
+
+    expect(collectVersions([{ provision_ref: 'art2', section: '2', content: 'Inchangé.' }]).size).toBe(0);
+  });
+});
+
+describe('validateVersionWindows', () => {
+  it('accepts a consistent timeline', () => {
+    expect(validateVersionWindows('art1', [
+      { provision_ref: 'art1', section: '1', valid_from: '1994-03-01', valid_to: '2010-01-01', content: 'Ancien texte.' },
+      { provision_ref: 'art1', section: '1', valid_from: '2010-01-01', content: 'Texte  actuel de\nl\'article.' },
+    ], current)).toEqual([]);
+  });
+
+  it('reports overlapping windows', () => {
+    const issues = validateVersionWindows('art1', [
+      { provision_ref: 'art1', section: '1', valid_from: '1994-03-01', valid_to: '2012-01-01', content: 'Ancien texte.' },
+      { provision_ref: 'art1', section: '1', valid_from: '2010-01-01', content: current.content },
+    ], current);
+    expect(issues).toEqual(['art1: version from 1994-03-01 to 2012-01-01 overlaps version starting 2010-01-01']);
+  });
+
+  it('reports malformed dates and empty windows', () => {
+    const issues = validateVersionWindows('art1', [
+      { provision_ref: 'art1', section: '1', valid_from: '01/03/1994', valid_to: '2010-01-01', content: 'Ancien texte.' },
+      { provision_ref: 'art1', section: '1', valid_from: '2010-01-01', valid_to: '2010-01-01', content: current.content },
+    ], undefined);
+    expect(issues).toContain('art1: invalid date "01/03/1994" (expected YYYY-MM-DD)');
+    expect(issues).toContain('art1: version starting 2010-01-01 ends on or before it (2010-01-01)');
+  });
+
+  it('requires the latest version to match the current text', () => {
+    expect(validateVersionWindows('art1', [
+      { provision_ref: 'art1', section: '1', valid_from: '1994-03-01', content: 'Ancien texte.' },
+    ], current)).toEqual(['art1: latest open-ended version does not match the current provision text']);
+
+    expect(validateVersionWindows('art1', [
+      { provision_ref: 'art1', section: '1', valid_from: '1994-03-01', valid_to: '2010-01-01', content: current.content },
+    ], current)).toEqual(['art1: latest version ends 2010-01-01 but the provision is still in the current text']);
+
+    expect(validateVersionWindows('art2', [
+      { provision_ref: 'art2', section: '2', valid_from: '1994-03-01', content: 'Abrogé.' },
+    ], undefined)).toEqual(['art2: open-ended version for a provision that is not in the current text']);
+  });
+});
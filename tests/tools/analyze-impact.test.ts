@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type Database from '@ansvar/mcp-sqlite';
+import { analyzeImpact } from '../../src/tools/analyze-impact.js';
+import { createTestDatabase, closeTestDatabase } from '../fixtures/test-db.js';
+
+describe('analyze_impact', () => {
+  let db: Database;
+
+  beforeAll(() => {
+    db = createTestDatabase();
+  });
+
+  afterAll(() => {
+    closeTestDatabase(db);
+  });
+
+  it('ranks citing provisions above indirect ones and provisions using defined terms', async () => {
+    const result = await analyzeImpact(db, { document_id: 'loi-1994-02-02-1994009284-fr', provision_ref: '1' });
+    const impact = result.results;
+
+    expect(impact.provision_ref).toBe('art1');
+    expect(impact.affected_provisions.map(p => [p.document_id, p.provision_ref, p.score])).toEqual([
+      ['loi-1994-02-02-1994009001-fr', 'art3', 1],
+      ['loi-1994-02-10-1994009323-fr', 'art2', 1],
+      ['loi-1994-02-02-1994009284-fr', 'art10', 0.6],
+      ['loi-1994-02-10-1994009323-fr', 'art10', 0.5],
+    ]);
+    expect(impact.affected_provisions[3].reasons[0]).toMatchObject({
+      source: 'cross_reference',
+      depth: 2,
+      via: { document_id: 'loi-1994-02-10-1994009323-fr', provision_ref: 'art2' },
+    });
+    expect(impact.affected_documents[0]).toMatchObject({
+      document_id: 'loi-1994-02-10-1994009323-fr',
+      affected_provisions: 2,
+      max_score: 1,
+    });
+  });
+
+  it('reports affected definitions, EU obligations and case law', async () => {
+    const result = await analyzeImpact(db, { document_id: 'loi-1994-02-02-1994009284-fr', provision_ref: 'art1' });
+    const impact = result.results;
+
+    expect(impact.definitions).toEqual([
+      expect.objectContaining({ term: 'mesures de protection', used_in: ['art10'] }),
+    ]);
+    expect(impact.eu_references).toEqual([
+      expect.objectContaining({ eu_document_id: 'regulation:2016/679', eu_article: '6.1.e' }),
+    ]);
+    expect(impact.case_law).toEqual([
+      expect.objectContaining({ document_id: 'cass-2019-05-13-c180412f', court: 'Cour de cassation', decision_date: '2019-05-13' }),
+    ]);
+    expect(impact.unavailable_sources).toEqual([]);
+  });
+
+  it('analyzes the same article in a language version that numbers it differently', async () => {
+    const result = await analyzeImpact(db, { document_id: 'loi-2001-06-15-2001000500-fr', provision_ref: 'art1er' });
+    const impact = result.results;
+
+    expect(impact.eu_references).toEqual([
+      expect.objectContaining({ eu_document_id: 'directive:95/46', eu_article: '7' }),
+    ]);
+    expect(impact.affected_provisions.map(p => [p.document_id, p.provision_ref])).toEqual([
+      ['wet-2001-06-15-2001000500-nl', 'art2'],
+    ]);
+  });
+
+  it('limits the citation walk to the requested depth', async () => {
+    const result = await analyzeImpact(db, {
+      document_id: 'loi-1994-02-02-1994009284-fr',
+      provision_ref: 'art1',
+      depth: 1,
+    });
+
+    expect(result.results.affected_provisions.map(p => `${p.document_id}:${p.provision_ref}`))
+      .not.toContain('loi-1994-02-10-1994009323-fr:art10');
+  });
+
+  it('throws for unknown provision', async () => {
+    await expect(
+      analyzeImpact(db, { document_id: 'loi-1994-02-02-1994009284-fr', provision_ref: 'art99' })
+    ).rejects.toThrow('Provision art99 not found');
+  });
+});
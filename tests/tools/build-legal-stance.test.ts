@@ -0,0 +1,44 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type Database from '@ansvar/mcp-sqlite';
+import { buildLegalStance } from '../../src/tools/build-legal-stance.js';
+import { createTestDatabase, closeTestDatabase } from '../fixtures/test-db.js';
+
+describe('build_legal_stance', () => {
+  let db: Database;
+
+  beforeAll(() => {
+    db = createTestDatabase();
+  });
+
+  afterAll(() => {
+    closeTestDatabase(db);
+  });
+
+  it('cites provisions matching the query', async () => {
+    const result = await buildLegalStance(db, { query: 'jeunesse' });
+    expect(result.results.provisions.length).toBeGreaterThan(0);
+    expect(result.results.total_citations).toBe(result.results.provisions.length);
+    expect(result.results.provisions[0].snippet).toContain('>>>jeunesse<<<');
+    expect(result.results.provisions[0]).not.toHaveProperty('language');
+  });
+
+  it('matches other inflections through the stemmed index', async () => {
+    const french = await buildLegalStance(db, { query: 'protégées' });
+    expect(french.results.provisions.length).toBeGreaterThan(0);
+    expect(french.results.provisions[0].snippet).toMatch(/>>>protege<<</);
+
+    const dutch = await buildLegalStance(db, { query: 'wetten' });
+    expect(dutch.results.provisions.length).toBeGreaterThan(0);
+    expect(dutch.results.provisions.some(p => p.snippet.includes('>>>wet<<<'))).toBe(true);
+  });
+
+  it('matches other inflections in the versions in force on as_of_date', async () => {
+    const result = await buildLegalStance(db, {
+      query: 'jeunesses',
+      document_id: 'loi-1994-02-02-1994009284-fr',
+      as_of_date: '2000-01-01',
+    });
+    expect(result.results.provisions.length).toBeGreaterThan(0);
+    expect(result.results.provisions[0].snippet).toContain('>>>jeunesse<<<');
+  });
+});
@@ -25,6 +25,20 @@ describe('check_currency', () => {
     expect(row.is_current).toBe(true);
   });
 
+  it('accepts an ELI URI or NUMAC and returns the canonical ELI', async () => {
+    const byEli = await checkCurrency(db, {
+      document_id: 'https://ejustice.just.fgov.be/eli/wet/1994/02/02/1994009284',
+    });
+    const eliRow = byEli.results as Exclude<typeof byEli.results, null>;
+    expect(eliRow.document_id).toBe('wet-1994-02-02-1994009284-nl');
+    expect(eliRow.eli).toBe('http://www.ejustice.just.fgov.be/eli/wet/1994/02/02/1994009284/justel');
+
+    const byNumac = await checkCurrency(db, { document_id: '1994009284' });
+    const numacRow = byNumac.results as Exclude<typeof byNumac.results, null>;
+    expect(numacRow.document_id).toBe('loi-1994-02-02-1994009284-fr');
+    expect(numacRow.eli).toBe('http://www.ejustice.just.fgov.be/eli/loi/1994/02/02/1994009284/justel');
+  });
+
   it('reports repealed statute warnings', async () => {
     const result = await checkCurrency(db, {
       document_id: 'loi-1994-02-10-1994009323-fr',
@@ -64,6 +78,52 @@ describe('check_currency', () => {
     expect(row.is_in_force_as_of).toBe(false);
   });
 
+  it('uses the repeal date for as_of_date status', async () => {
+    const before = await checkCurrency(db, {
+      document_id: 'loi-1994-02-10-1994009323-fr',
+      as_of_date: '2010-06-01',
+    });
+    const beforeRow = before.results as Exclude<typeof before.results, null>;
+    expect(beforeRow.repealed_date).toBe('2018-01-01');
+    expect(beforeRow.repealed_by).toBe('L 2017-12-15/01, art. 3');
+    expect(beforeRow.status_as_of).toBe('in_force');
+    expect(beforeRow.is_in_force_as_of).toBe(true);
+
+    const after = await checkCurrency(db, {
+      document_id: 'loi-1994-02-10-1994009323-fr',
+      as_of_date: '2018-01-01',
+    });
+    const afterRow = after.results as Exclude<typeof after.results, null>;
+    expect(afterRow.status_as_of).toBe('repealed');
+    expect(afterRow.warnings.some(w => w.includes('Repeal date is unknown'))).toBe(false);
+  });
+
+  it('reports the article\'s own entry into force as of a date', async () => {
+    const result = await checkCurrency(db, {
+      document_id: 'loi-1994-02-02-1994009284-fr',
+      provision_ref: 'art10',
+      as_of_date: '1994-06-01',
+    });
+
+    const row = result.results as Exclude<typeof result.results, null>;
+    expect(row.provision_in_force_date).toBe('1995-01-01');
+    expect(row.status_as_of).toBe('not_yet_in_force');
+    expect(row.document_status_as_of).toBe('in_force');
+    expect(row.provision_status).toBe('in_force');
+  });
+
+  it('flags articles whose entry into force is undetermined', async () => {
+    const result = await checkCurrency(db, {
+      document_id: 'loi-1992-12-08-1992009783-fr',
+      provision_ref: 'art2',
+    });
+
+    const row = result.results as Exclude<typeof result.results, null>;
+    expect(row.provision_in_force_pending).toBe(true);
+    expect(row.provision_status).toBe('not_yet_in_force');
+    expect(row.warnings.some(w => w.includes('not been brought into force'))).toBe(true);
+  });
+
   it('returns null for unknown statute', async () => {
     const result = await checkCurrency(db, { document_id: 'unknown-doc' });
     expect(result.results).toBeNull();
@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type Database from '@ansvar/mcp-sqlite';
+import { compareProvisionVersions } from '../../src/tools/compare-provision-versions.js';
+import { createTestDatabase, closeTestDatabase } from '../fixtures/test-db.js';
+
+describe('compare_provision_versions', () => {
+  let db: Database;
+
+  beforeAll(() => {
+    db = createTestDatabase();
+  });
+
+  afterAll(() => {
+    closeTestDatabase(db);
+  });
+
+  it('diffs a single provision between two dates', async () => {
+    const result = await compareProvisionVersions(db, {
+      document_id: 'loi-1994-02-02-1994009284-fr',
+      provision_ref: 'art1',
+      date_a: '2000-01-01',
+      date_b: '2015-01-01',
+    });
+
+    const [comparison] = result.results.provisions;
+    expect(comparison.change_type).toBe('modified');
+    expect(comparison.version_a?.valid_to).toBe('2010-01-01');
+    expect(comparison.version_b?.valid_from).toBe('2010-01-01');
+    expect(comparison.changes.some(s => s.type === 'delete' && s.text.includes('Ancien'))).toBe(true);
+    expect(comparison.changes.some(s => s.type === 'insert' && s.text.includes('modernise'))).toBe(true);
+    expect(comparison.changes.some(s => s.type === 'equal')).toBe(true);
+  });
+
+  it('lists only changed articles when diffing a whole statute', async () => {
+    const result = await compareProvisionVersions(db, {
+      document_id: 'loi-1994-02-02-1994009284-fr',
+      date_a: '2000-01-01',
+      date_b: '2015-01-01',
+    });
+
+    const changes = Object.fromEntries(result.results.provisions.map(p => [p.provision_ref, p.change_type]));
+    expect(changes).toEqual({ art1: 'modified', art2: 'repealed' });
+    expect(result.results.summary.unchanged).toBeGreaterThan(0);
+  });
+
+  it('reports articles added between the dates', async () => {
+    const result = await compareProvisionVersions(db, {
+      document_id: 'loi-1994-02-02-1994009284-fr',
+      date_a: '1990-01-01',
+      date_b: '2000-01-01',
+    });
+
+    const added = result.results.provisions.filter(p => p.change_type === 'added').map(p => p.provision_ref);
+    expect(added).toEqual(expect.arrayContaining(['art1', 'art2', 'art10']));
+  });
+
+  it('rejects invalid dates', async () => {
+    await expect(
+      compareProvisionVersions(db, {
+        document_id: 'loi-1994-02-02-1994009284-fr',
+        date_a: '2000/01/01',
+        date_b: '2015-01-01',
+      })
+    ).rejects.toThrow('date_a must be an ISO date');
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type Database from '@ansvar/mcp-sqlite';
+import { extractCitationsTool } from '../../src/tools/extract-citations.js';
+import { createTestDatabase, closeTestDatabase } from '../fixtures/test-db.js';
+
+const DRAFT = [
+  "Conformément à l'article 1er, § 2, de la loi du 2 février 1994 et à la Loi du 10 février 1994, art. 1, ",
+  'le responsable respecte la loi-1994-02-02-1994009284-fr, art. 99. ',
+  'Voir aussi NUMAC 1992009783 et http://www.ejustice.just.fgov.be/eli/loi/2001/01/01/2001000001/justel. ',
+  'Zie artikel 1 van de wet van 2 februari 1994, de Richtlijn 95/46/EG en de Verordening (EU) 2016/679.',
+].join('');
+
+describe('extract_citations', () => {
+  let db: Database;
+
+  beforeAll(() => {
+    db = createTestDatabase();
+  });
+
+  afterAll(() => {
+    closeTestDatabase(db);
+  });
+
+  it('finds every reference with its offsets', async () => {
+    const result = await extractCitationsTool(db, { text: DRAFT });
+    const { citations } = result.results;
+
+    expect(citations.map(c => c.text)).toEqual([
+      'article 1er, § 2, de la loi du 2 février 1994',
+      'Loi du 10 février 1994, art. 1',
+      'loi-1994-02-02-1994009284-fr, art. 99',
+      'NUMAC 1992009783',
+      'http://www.ejustice.just.fgov.be/eli/loi/2001/01/01/2001000001/justel',
+      'artikel 1 van de wet van 2 februari 1994',
+      'Richtlijn 95/46/EG',
+      'Verordening (EU) 2016/679',
+    ]);
+    for (const citation of citations) {
+      expect(DRAFT.slice(citation.start, citation.end)).toBe(citation.text);
+    }
+    expect(citations[0]).toMatchObject({ article: '1', pinpoint: '§ 2', citation: 'loi du 2 février 1994, art. 1, § 2' });
+  });
+
+  it('marks each reference as existing, repealed or unknown', async () => {
+    const result = await extractCitationsTool(db, { text: DRAFT });
+    const statuses = result.results.citations.map(c => [c.text.slice(0, 20), c.status]);
+
+    expect(statuses).toEqual([
+      ['article 1er, § 2, de', 'existing'],
+      ['Loi du 10 février 19', 'repealed'],
+      ['loi-1994-02-02-19940', 'unknown'],
+      ['NUMAC 1992009783', 'existing'],
+      ['http://www.ejustice.', 'unknown'],
+      ['artikel 1 van de wet', 'existing'],
+      ['Richtlijn 95/46/EG', 'repealed'],
+      ['Verordening (EU) 201', 'existing'],
+    ]);
+    expect(result.results.counts).toEqual({ existing: 4, repealed: 2, unknown: 2 });
+    expect(result.results.citations[2].warnings.some(w => w.includes('Article 99 not found'))).toBe(true);
+    expect(result.results.citations[7].document_id).toBe('regulation:2016/679');
+  });
+
+  it('recognizes royal decrees and code abbreviations', async () => {
+    const text = "Vu l'article 3 de l'A.R. du 2 février 1994 et l'art. 1382 C. civ.";
+    const result = await extractCitationsTool(db, { text });
+
+    expect(result.results.citations.map(c => [c.text, c.document_id, c.status])).toEqual([
+      ["article 3 de l'A.R. du 2 février 1994", 'loi-1994-02-02-1994009001-fr', 'existing'],
+      ['art. 1382 C. civ.', 'loi-1804-03-21-1804032150-fr', 'existing'],
+    ]);
+  });
+
+  it('does not report articles without their statute', async () => {
+    const result = await extractCitationsTool(db, { text: "L'article 5 s'applique mutatis mutandis." });
+    expect(result.results.citations).toEqual([]);
+  });
+
+  it('rejects empty text', async () => {
+    await expect(extractCitationsTool(db, { text: '  ' })).rejects.toThrow('text is required');
+  });
+});
@@ -1,19 +1,35 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type Database from '@ansvar/mcp-sqlite';
 import { formatCitationTool } from '../../src/tools/format-citation.js';
+import { createTestDatabase, closeTestDatabase } from '../fixtures/test-db.js';
 
 describe('format_citation tool', () => {
-  it('formats full citation', async () => {
-    const result = await formatCitationTool({
+  let db: Database;
+
+  beforeAll(() => {
+    db = createTestDatabase();
+  });
+
+  afterAll(() => {
+    closeTestDatabase(db);
+  });
+
+  it('formats full citation with the Moniteur belge reference', async () => {
+    const result = await formatCitationTool(db, {
       citation: 'Loi du 2 fevrier 1994, art. 1',
       format: 'full',
     });
 
     expect(result.results.valid).toBe(true);
-    expect(result.results.formatted).toBe('Loi du 2 fevrier 1994, art. 1');
+    expect(result.results.formatted).toBe(
+      'Loi du 2 fevrier 1994 relative a la protection de la jeunesse, M.B., 15 février 1994, art. 1'
+    );
+    expect(result.results.numac).toBe('1994009284');
+    expect(result.results.publication_date).toBe('1994-02-15');
   });
 
   it('formats short citation', async () => {
-    const result = await formatCitationTool({
+    const result = await formatCitationTool(db, {
       citation: 'Loi du 2 fevrier 1994, art. 1',
       format: 'short',
     });
@@ -21,8 +37,36 @@ describe('format_citation tool', () => {
     expect(result.results.formatted).toBe('art. 1 Loi du 2 fevrier 1994');
   });
 
+  it('formats the short title form', async () => {
+    const result = await formatCitationTool(db, {
+      citation: 'Loi du 2 fevrier 1994, art. 1, § 1er, al. 1',
+      format: 'short_title',
+    });
+
+    expect(result.results.formatted).toBe('Loi du 2 fevrier 1994, art. 1, § 1er, al. 1er');
+  });
+
+  it('cites the Dutch version in the Belgisch Staatsblad', async () => {
+    const result = await formatCitationTool(db, {
+      citation: 'Loi du 2 fevrier 1994, art. 1, § 2, al. 1',
+      language: 'nl',
+    });
+
+    expect(result.results.formatted).toBe(
+      'Wet van 2 februari 1994 betreffende de jeugdbescherming, B.S. 15 februari 1994, art. 1, § 2, eerste lid'
+    );
+    expect(result.results.document_id).toBe('wet-1994-02-02-1994009284-nl');
+  });
+
+  it('warns when the cited act is not in the database', async () => {
+    const result = await formatCitationTool(db, { citation: 'Loi du 3 mars 1950, art. 2' });
+
+    expect(result.results.formatted).toBe('Loi du 3 mars 1950, art. 2');
+    expect(result.results.warnings).toContain('Cited act not found in database; the title is taken from the citation as written');
+  });
+
   it('returns invalid for empty input', async () => {
-    const result = await formatCitationTool({ citation: '' });
+    const result = await formatCitationTool(db, { citation: '' });
     expect(result.results.valid).toBe(false);
     expect(result.results.error).toBe('Empty citation');
   });
@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type Database from '@ansvar/mcp-sqlite';
+import { getAmendmentHistory } from '../../src/tools/get-amendment-history.js';
+import { createTestDatabase, closeTestDatabase } from '../fixtures/test-db.js';
+
+describe('get_amendment_history', () => {
+  let db: Database;
+
+  beforeAll(() => {
+    db = createTestDatabase();
+  });
+
+  afterAll(() => {
+    closeTestDatabase(db);
+  });
+
+  it('returns a chronological timeline with amending acts and diffs', async () => {
+    const result = await getAmendmentHistory(db, {
+      document_id: 'loi-1994-02-02-1994009284-fr',
+      provision_ref: 'art1',
+    });
+
+    const history = result.results;
+    expect(history.history_tracked).toBe(true);
+    expect(history.version_count).toBe(2);
+
+    const [first, second] = history.timeline;
+    expect(first.valid_from).toBe('1994-03-01');
+    expect(first.valid_to).toBe('2010-01-01');
+    expect(first.changes).toBeNull();
+
+    expect(second.valid_from).toBe('2010-01-01');
+    expect(second.amendments[0].amending_act).toBe('L 2010-01-01/01');
+    expect(second.changes?.some(s => s.type === 'delete' && s.text.includes('Ancien'))).toBe(true);
+    expect(second.changes?.some(s => s.type === 'insert' && s.text.includes('modernise'))).toBe(true);
+    expect(second.changes?.some(s => s.type === 'equal' && s.text.includes('protege la jeunesse'))).toBe(true);
+    expect(second.change_stats?.inserted_words).toBeGreaterThan(0);
+  });
+
+  it('falls back to the current text when no history is recorded', async () => {
+    const result = await getAmendmentHistory(db, {
+      document_id: 'loi-1992-12-08-1992009783-fr',
+      provision_ref: 'art1',
+    });
+
+    expect(result.results.history_tracked).toBe(false);
+    expect(result.results.timeline).toHaveLength(1);
+    expect(result.results.note).toContain('No historical versions');
+  });
+
+  it('throws for unknown provision', async () => {
+    await expect(
+      getAmendmentHistory(db, { document_id: 'loi-1994-02-02-1994009284-fr', provision_ref: 'art99' })
+    ).rejects.toThrow('Provision art99 not found');
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type Database from '@ansvar/mcp-sqlite';
+import { getBilingualProvision } from '../../src/tools/get-bilingual-provision.js';
+import { createTestDatabase, closeTestDatabase } from '../fixtures/test-db.js';
+
+describe('get_bilingual_provision', () => {
+  let db: Database;
+
+  beforeAll(() => {
+    db = createTestDatabase();
+  });
+
+  afterAll(() => {
+    closeTestDatabase(db);
+  });
+
+  it('returns French, Dutch and German text of the same article', async () => {
+    const result = await getBilingualProvision(db, {
+      document_id: 'wet-1994-02-02-1994009284-nl',
+      provision_ref: 'art1',
+    });
+
+    expect(result.results.numac).toBe('1994009284');
+    expect(result.results.fr?.document_id).toBe('loi-1994-02-02-1994009284-fr');
+    expect(result.results.fr?.content).toContain('protege la jeunesse');
+    expect(result.results.nl?.content).toContain('beschermt de jeugd');
+    expect(result.results.de?.content).toContain('schutzt die Jugend');
+  });
+
+  it('flags diverging article numbering', async () => {
+    const result = await getBilingualProvision(db, {
+      document_id: 'loi-1994-02-02-1994009284-fr',
+      provision_ref: 'art10',
+    });
+
+    expect(result.results.fr?.section).toBe('10');
+    expect(result.results.nl).toBeNull();
+    expect(result.results.numbering?.aligned).toBe(false);
+    expect(result.results.numbering?.only_in_fr).toContain('10');
+    expect(result.results.warnings.some(w => w.includes('numbering diverges'))).toBe(true);
+  });
+
+  it('throws for unknown provision', async () => {
+    await expect(
+      getBilingualProvision(db, { document_id: 'loi-1994-02-02-1994009284-fr', provision_ref: 'art99' })
+    ).rejects.toThrow('Provision art99 not found');
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type Database from '@ansvar/mcp-sqlite';
+import { getCrossReferences } from '../../src/tools/get-cross-references.js';
+import { createTestDatabase, closeTestDatabase } from '../fixtures/test-db.js';
+
+describe('get_cross_references', () => {
+  let db: Database;
+
+  beforeAll(() => {
+    db = createTestDatabase();
+  });
+
+  afterAll(() => {
+    closeTestDatabase(db);
+  });
+
+  it('finds the provisions citing an article, in every language version', async () => {
+    const result = await getCrossReferences(db, {
+      document_id: 'loi-1994-02-02-1994009284-fr',
+      provision_ref: '1',
+      direction: 'cited_by',
+    });
+
+    expect(result.results.provision_ref).toBe('art1');
+    expect(result.results.cites).toEqual([]);
+    expect(result.results.cited_by.map(link => [link.source.document_id, link.source.provision_ref])).toEqual([
+      ['cass-2019-05-13-c180412f', null],
+      ['loi-1994-02-02-1994009001-fr', 'art3'],
+      ['loi-1994-02-10-1994009323-fr', 'art2'],
+    ]);
+    expect(result.results.cited_by[2]).toMatchObject({
+      depth: 1,
+      ref_type: 'references',
+      target: { document_id: 'loi-1994-02-02-1994009284-fr', provision_ref: 'art1' },
+    });
+  });
+
+  it('finds citations of the same article numbered differently in another language version', async () => {
+    const result = await getCrossReferences(db, {
+      document_id: 'loi-2001-06-15-2001000500-fr',
+      provision_ref: 'art1er',
+      direction: 'cited_by',
+    });
+
+    expect(result.results.provision_ref).toBe('art1er');
+    expect(result.results.cited_by.map(link => [link.source.provision_ref, link.target.document_id, link.target.provision_ref]))
+      .toEqual([['art2', 'wet-2001-06-15-2001000500-nl', 'art1']]);
+  });
+
+  it('follows citing provisions to the requested depth', async () => {
+    const result = await getCrossReferences(db, {
+      document_id: 'loi-1994-02-02-1994009284-fr',
+      provision_ref: 'art1',
+      direction: 'cited_by',
+      depth: 2,
+    });
+
+    const second = result.results.cited_by.filter(link => link.depth === 2);
+    expect(second).toHaveLength(1);
+    expect(second[0].source).toMatchObject({ document_id: 'loi-1994-02-10-1994009323-fr', provision_ref: 'art10' });
+    expect(second[0].target.provision_ref).toBe('art2');
+  });
+
+  it('returns what a provision cites, with the edge type', async () => {
+    const result = await getCrossReferences(db, {
+      document_id: 'loi-1994-02-02-1994009284-fr',
+      provision_ref: 'art10',
+      direction: 'cites',
+    });
+
+    expect(result.results.cites).toHaveLength(1);
+    expect(result.results.cites[0]).toMatchObject({
+      ref_type: 'amended_by',
+      target: { document_id: 'loi-1994-02-10-1994009400-fr', provision_ref: 'art5' },
+    });
+  });
+
+  it('filters by edge type and lists links of the whole act', async () => {
+    const filtered = await getCrossReferences(db, {
+      document_id: 'loi-1994-02-02-1994009284-fr',
+      ref_types: ['amended_by'],
+    });
+    expect(filtered.results.cites.map(link => link.ref_type)).toEqual(['amended_by']);
+    expect(filtered.results.cited_by).toEqual([]);
+
+    const whole = await getCrossReferences(db, { document_id: 'loi-1994-02-02-1994009284-fr', direction: 'cited_by' });
+    expect(whole.results.cited_by.map(link => link.source.document_id)).toContain('loi-1992-12-08-1992009783-fr');
+  });
+
+  it('rejects unknown edge types', async () => {
+    await expect(
+      getCrossReferences(db, { document_id: 'loi-1994-02-02-1994009284-fr', ref_types: ['cites' as never] })
+    ).rejects.toThrow('Unknown ref_type "cites"');
+  });
+});
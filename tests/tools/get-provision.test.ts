@@ -27,6 +27,17 @@ describe('get_provision', () => {
     expect(row.content).toContain('protection');
   });
 
+  it('accepts an ELI URI as document_id', async () => {
+    const result = await getProvision(db, {
+      document_id: 'http://www.ejustice.just.fgov.be/eli/loi/1994/02/10/1994009323/justel',
+      provision_ref: 'art1',
+    });
+
+    const row = result.results as Exclude<typeof result.results, null | unknown[]>;
+    expect(row.document_id).toBe('loi-1994-02-10-1994009323-fr');
+    expect(row.document_eli).toBe('http://www.ejustice.just.fgov.be/eli/loi/1994/02/10/1994009323/justel');
+  });
+
   it('gets specific provision by chapter+section fallback', async () => {
     const result = await getProvision(db, {
       document_id: 'loi-1994-02-02-1994009284-fr',
@@ -48,6 +59,147 @@ describe('get_provision', () => {
     expect((result.results as unknown[]).length).toBeGreaterThan(1);
   });
 
+  it('paginates the provision listing', async () => {
+    const all = await getProvision(db, { document_id: 'loi-1994-02-02-1994009284-fr' });
+    const total = (all.results as unknown[]).length;
+    expect(all.pagination).toEqual({ next_cursor: null, total_matches: total });
+
+    const first = await getProvision(db, { document_id: 'loi-1994-02-02-1994009284-fr', limit: 1 });
+    expect(first.results as unknown[]).toHaveLength(1);
+    expect(first.pagination?.total_matches).toBe(total);
+
+    const second = await getProvision(db, {
+      document_id: 'loi-1994-02-02-1994009284-fr',
+      limit: 1,
+      cursor: first.pagination?.next_cursor ?? undefined,
+    });
+    const [firstRow] = first.results as { provision_ref: string }[];
+    const [secondRow] = second.results as { provision_ref: string }[];
+    expect(secondRow.provision_ref).not.toBe(firstRow.provision_ref);
+  });
+
+  it('lists provisions in natural article order', async () => {
+    const result = await getProvision(db, { document_id: 'loi-1994-02-10-1994009323-fr' });
+
+    const refs = (result.results as { provision_ref: string }[]).map(row => row.provision_ref);
+    expect(refs).toEqual(['art1', 'art2', 'art2bis', 'art10']);
+  });
+
+  it('lists an article range', async () => {
+    const result = await getProvision(db, {
+      document_id: 'loi-1994-02-10-1994009323-fr',
+      range: 'art. 2 à 9',
+    });
+
+    const refs = (result.results as { provision_ref: string }[]).map(row => row.provision_ref);
+    expect(refs).toEqual(['art2', 'art2bis']);
+    expect(result.pagination?.total_matches).toBe(2);
+  });
+
+  it('accepts a range written with provision refs', async () => {
+    const result = await getProvision(db, {
+      document_id: 'loi-1994-02-10-1994009323-fr',
+      range: 'art2bis-art10',
+    });
+
+    const refs = (result.results as { provision_ref: string }[]).map(row => row.provision_ref);
+    expect(refs).toEqual(['art2bis', 'art10']);
+  });
+
+  it('returns several provisions in article order', async () => {
+    const result = await getProvision(db, {
+      document_id: 'loi-1994-02-10-1994009323-fr',
+      provision_refs: ['art10', '2bis', 'art1', 'art10'],
+    });
+
+    const refs = (result.results as { provision_ref: string }[]).map(row => row.provision_ref);
+    expect(refs).toEqual(['art1', 'art2bis', 'art10']);
+  });
+
+  it('names the provisions it cannot find', async () => {
+    await expect(
+      getProvision(db, {
+        document_id: 'loi-1994-02-10-1994009323-fr',
+        provision_refs: ['art1', 'art99'],
+      })
+    ).rejects.toThrow('Provisions not found in "loi-1994-02-10-1994009323-fr": art99');
+  });
+
+  it('rejects an unparseable range', async () => {
+    await expect(
+      getProvision(db, { document_id: 'loi-1994-02-10-1994009323-fr', range: 'the first few' })
+    ).rejects.toThrow('Could not parse range');
+  });
+
+  it('returns only the pinpointed point with its location', async () => {
+    const result = await getProvision(db, {
+      document_id: 'loi-1994-02-10-1994009323-fr',
+      provision_ref: 'art2',
+      pinpoint: '§ 2, alinéa 1, 2°',
+    });
+
+    const row = result.results as Exclude<typeof result.results, null | unknown[]>;
+    expect(row.content).toBe("2° les conditions proposees :\na) l'indemnisation de la victime;\nb) une formation;");
+    expect(row.pinpoint).toEqual({ paragraph: '2', alinea: 1, point: '2°', label: '§ 2, al. 1, 2°' });
+  });
+
+  it('returns a lettered sub-point of a numbered point', async () => {
+    const result = await getProvision(db, {
+      document_id: 'loi-1994-02-10-1994009323-fr',
+      provision_ref: 'art2',
+      pinpoint: '§ 2, 2°, b)',
+    });
+
+    const row = result.results as Exclude<typeof result.results, null | unknown[]>;
+    expect(row.content).toBe('b) une formation;');
+    expect(row.pinpoint).toEqual({ paragraph: '2', alinea: 1, point: '2°', subpoint: 'b)', label: '§ 2, al. 1, 2°, b)' });
+
+    await expect(getProvision(db, {
+      document_id: 'loi-1994-02-10-1994009323-fr',
+      provision_ref: 'art2',
+      pinpoint: '§ 2, 2°, c)',
+    })).rejects.toThrow('Point 2°, c) not found (sub-points: a), b))');
+  });
+
+  it('resolves paragraph and alinea pinpoints', async () => {
+    const paragraph = await getProvision(db, {
+      document_id: 'loi-1994-02-10-1994009323-fr',
+      provision_ref: 'art2',
+      pinpoint: '§ 1er',
+    });
+    const paragraphRow = paragraph.results as Exclude<typeof paragraph.results, null | unknown[]>;
+    expect(paragraphRow.content).toBe("§ 1er. Le procureur du Roi peut convoquer l'auteur de l'infraction.\nIl en informe la victime.");
+
+    const alinea = await getProvision(db, {
+      document_id: 'loi-1994-02-10-1994009323-fr',
+      section: '2',
+      pinpoint: '§ 2, al. 2',
+    });
+    const alineaRow = alinea.results as Exclude<typeof alinea.results, null | unknown[]>;
+    expect(alineaRow.content).toBe('La convocation est adressee par pli recommande.');
+    expect(alineaRow.pinpoint?.label).toBe('§ 2, al. 2');
+  });
+
+  it('rejects pinpoints that do not exist or cannot be parsed', async () => {
+    await expect(getProvision(db, {
+      document_id: 'loi-1994-02-10-1994009323-fr',
+      provision_ref: 'art2',
+      pinpoint: '§ 3',
+    })).rejects.toThrow('art2: § 3 not found (paragraphs: § 1, § 2)');
+
+    await expect(getProvision(db, {
+      document_id: 'loi-1994-02-10-1994009323-fr',
+      provision_ref: 'art2',
+      pinpoint: 'alinéa 2',
+    })).rejects.toThrow('give the § of the alinéa');
+
+    await expect(getProvision(db, {
+      document_id: 'loi-1994-02-10-1994009323-fr',
+      provision_ref: 'art2',
+      pinpoint: 'somewhere',
+    })).rejects.toThrow('Could not parse pinpoint');
+  });
+
   it('supports historical lookup by as_of_date', async () => {
     const result = await getProvision(db, {
       document_id: 'loi-1994-02-02-1994009284-fr',
@@ -61,6 +213,49 @@ describe('get_provision', () => {
     expect(row.valid_to).toBe('2010-01-01');
   });
 
+  it('returns nothing for a date before the recorded history', async () => {
+    const single = await getProvision(db, {
+      document_id: 'loi-1994-02-02-1994009284-fr',
+      provision_ref: 'art1',
+      as_of_date: '1990-01-01',
+    });
+    expect(single.results).toBeNull();
+
+    const listing = await getProvision(db, {
+      document_id: 'loi-1994-02-02-1994009284-fr',
+      as_of_date: '1990-01-01',
+    });
+    expect(listing.results).toEqual([]);
+
+    await expect(getProvision(db, {
+      document_id: 'loi-1994-02-02-1994009284-fr',
+      provision_refs: ['art1'],
+      as_of_date: '1990-01-01',
+    })).rejects.toThrow('as of 1990-01-01: art1');
+  });
+
+  it('exposes amendment metadata', async () => {
+    const result = await getProvision(db, {
+      document_id: 'loi-1994-02-02-1994009284-fr',
+      provision_ref: 'art1',
+    });
+
+    const row = result.results as Exclude<typeof result.results, null | unknown[]>;
+    expect(row.amendments).toHaveLength(1);
+    expect(row.amendments[0]).toMatchObject({
+      marker: 1,
+      amending_act: 'L 2010-01-01/01',
+      date: '2010-01-01',
+      type: 'replaced',
+    });
+
+    const unamended = await getProvision(db, {
+      document_id: 'loi-1994-02-02-1994009284-fr',
+      provision_ref: 'art10',
+    });
+    expect((unamended.results as Exclude<typeof unamended.results, null | unknown[]>).amendments).toEqual([]);
+  });
+
   it('returns null for unknown provision', async () => {
     const result = await getProvision(db, {
       document_id: 'loi-1994-02-02-1994009284-fr',
@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type Database from '@ansvar/mcp-sqlite';
+import { getTableOfContents } from '../../src/tools/get-table-of-contents.js';
+import { createTestDatabase, closeTestDatabase } from '../fixtures/test-db.js';
+
+describe('get_table_of_contents', () => {
+  let db: Database;
+
+  beforeAll(() => {
+    db = createTestDatabase();
+  });
+
+  afterAll(() => {
+    closeTestDatabase(db);
+  });
+
+  it('returns the nested outline with article ranges', async () => {
+    const result = await getTableOfContents(db, { document_id: 'loi-1994-02-02-1994009284-fr' });
+
+    expect(result.results.outline).toHaveLength(1);
+    const [titre] = result.results.outline;
+    expect(titre).toMatchObject({
+      level: 'titre',
+      number: 'Ier',
+      heading: 'De la protection de la jeunesse',
+      articles: { first: 'art1', last: 'art10', count: 2 },
+    });
+    expect(titre.children.map(child => child.number)).toEqual(['Ier', 'II', 'III']);
+    expect(titre.children[0].articles).toEqual({ first: 'art1', last: 'art1', count: 1 });
+    expect(titre.children[1].articles).toEqual({ first: 'art10', last: 'art10', count: 1 });
+    expect(titre.children[2].articles).toBeNull();
+    expect(result.results.ungrouped_articles).toBeNull();
+  });
+
+  it('limits the outline depth without narrowing the ranges', async () => {
+    const result = await getTableOfContents(db, {
+      document_id: 'loi-1994-02-02-1994009284-fr',
+      max_depth: 1,
+    });
+
+    const [titre] = result.results.outline;
+    expect(titre.children).toEqual([]);
+    expect(titre.articles?.count).toBe(2);
+  });
+
+  it('lists articles of documents without headings as ungrouped', async () => {
+    const result = await getTableOfContents(db, { document_id: 'loi-1992-12-08-1992009783-fr' });
+
+    expect(result.results.outline).toEqual([]);
+    expect(result.results.ungrouped_articles).toEqual({ first: 'art1', last: 'art2', count: 2 });
+  });
+
+  it('throws for an unknown document', async () => {
+    await expect(getTableOfContents(db, { document_id: 'missing-doc' })).rejects.toThrow('not found');
+  });
+});
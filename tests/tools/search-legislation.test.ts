@@ -57,11 +57,118 @@ describe('search_legislation', () => {
     expect(result.results[0]).toHaveProperty('valid_from');
   });
 
+  it('filters by language', async () => {
+    const result = await searchLegislation(db, { query: 'jeunesse OR jeugd', language: 'nl' });
+
+    expect(result.results.length).toBeGreaterThan(0);
+    for (const row of result.results) {
+      expect(row.language).toBe('nl');
+    }
+  });
+
+  it('merges French and Dutch hits on the same article', async () => {
+    const result = await searchLegislation(db, { query: 'jeunesse OR jeugd', merge_translations: true });
+
+    const art1 = result.results.filter(r => r.numac === '1994009284' && r.section === '1');
+    expect(art1).toHaveLength(1);
+    expect(art1[0].translations).toHaveLength(1);
+    expect(art1[0].translations?.[0].language).not.toBe(art1[0].language);
+    expect(art1[0].translations?.[0].snippet).toContain('>>>');
+  });
+
+  it('counts and pages merged results by article', async () => {
+    const result = await searchLegislation(db, { query: 'jeunesse OR jeugd OR Jugend', merge_translations: true });
+    expect(result.pagination?.total_matches).toBe(result.results.length);
+    expect(result.pagination?.next_cursor).toBeNull();
+
+    const art1 = result.results.find(r => r.numac === '1994009284' && r.section === '1');
+    expect(art1?.translations?.map(t => t.language).sort()).toEqual(
+      ['de', 'fr', 'nl'].filter(language => language !== art1?.language)
+    );
+
+    const pages: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await searchLegislation(db, {
+        query: 'jeunesse OR jeugd OR Jugend',
+        merge_translations: true,
+        limit: 1,
+        cursor,
+      });
+      expect(page.pagination?.total_matches).toBe(result.results.length);
+      pages.push(...page.results.map(r => `${r.numac}|${r.section}`));
+      cursor = page.pagination?.next_cursor ?? undefined;
+    } while (cursor);
+    expect(pages).toEqual(result.results.map(r => `${r.numac}|${r.section}`));
+  });
+
+  it('matches other inflections through the stemmed index', async () => {
+    const french = await searchLegislation(db, { query: 'protégées' });
+    expect(french.results.length).toBeGreaterThan(0);
+    expect(french.results[0].snippet).toMatch(/>>>protege<<</);
+
+    const dutch = await searchLegislation(db, { query: 'wetten', language: 'nl' });
+    expect(dutch.results.length).toBeGreaterThan(0);
+    expect(dutch.results[0].snippet).toContain('>>>wet<<<');
+  });
+
+  it('ranks historical hits with bm25 and highlights the matched passage', async () => {
+    const result = await searchLegislation(db, {
+      query: 'jeunesse',
+      document_id: 'loi-1994-02-02-1994009284-fr',
+      as_of_date: '2000-01-01',
+    });
+
+    expect(result.results.length).toBeGreaterThan(1);
+    expect(result.results.every(r => r.relevance < 0)).toBe(true);
+    const relevances = result.results.map(r => r.relevance);
+    expect(relevances).toEqual([...relevances].sort((a, b) => a - b));
+    expect(result.results[0].snippet).toContain('>>>jeunesse<<<');
+    expect(new Set(result.results.map(r => r.provision_ref)).size).toBe(result.results.length);
+  });
+
+  it('pages through results with an opaque cursor', async () => {
+    const all = await searchLegislation(db, { query: 'jeunesse', limit: 50 });
+    expect(all.pagination).toEqual({ next_cursor: null, total_matches: all.results.length });
+    expect(all.results.length).toBeGreaterThan(1);
+
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await searchLegislation(db, { query: 'jeunesse', limit: 1, cursor });
+      expect(page.results).toHaveLength(1);
+      expect(page.pagination?.total_matches).toBe(all.results.length);
+      seen.push(`${page.results[0].document_id}|${page.results[0].provision_ref}`);
+      cursor = page.pagination?.next_cursor ?? undefined;
+    } while (cursor);
+
+    expect(seen).toEqual(all.results.map(row => `${row.document_id}|${row.provision_ref}`));
+  });
+
+  it('rejects a cursor issued for a different query', async () => {
+    const first = await searchLegislation(db, { query: 'jeunesse', limit: 1 });
+    const cursor = first.pagination?.next_cursor ?? undefined;
+    expect(cursor).toBeTruthy();
+
+    await expect(
+      searchLegislation(db, { query: 'protection', limit: 1, cursor })
+    ).rejects.toThrow('cursor does not match this query');
+    await expect(
+      searchLegislation(db, { query: 'jeunesse', cursor: 'not-a-cursor' })
+    ).rejects.toThrow('Invalid cursor');
+  });
+
   it('returns empty set for empty query', async () => {
     const result = await searchLegislation(db, { query: '' });
     expect(result.results).toEqual([]);
   });
 
+  it('rejects unsupported language', async () => {
+    await expect(
+      searchLegislation(db, { query: 'protection', language: 'en' as 'fr' })
+    ).rejects.toThrow('language must be one of');
+  });
+
   it('rejects invalid as_of_date', async () => {
     await expect(
       searchLegislation(db, { query: 'protection', as_of_date: '2026/01/01' })
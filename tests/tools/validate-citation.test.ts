@@ -37,6 +37,39 @@ describe('validate_citation tool', () => {
     expect(result.results.citation_urls).toEqual([]);
   });
 
+  it('validates several citations in one call', async () => {
+    const result = await validateCitationTool(db, {
+      citations: ['Loi du 2 fevrier 1994, art. 1', 'Loi du 2 fevrier 1994, art. 99', ''],
+    });
+
+    const results = result.results as Exclude<typeof result.results, Exclude<typeof result.results, unknown[]>>;
+    expect(results.map(r => [r.citation, r.valid])).toEqual([
+      ['Loi du 2 fevrier 1994, art. 1', true],
+      ['Loi du 2 fevrier 1994, art. 99', false],
+      ['', false],
+    ]);
+    expect(results[0].document_id).toBe('loi-1994-02-02-1994009284-fr');
+  });
+
+  it('reports a non-string citation in a batch as invalid', async () => {
+    const result = await validateCitationTool(db, {
+      citations: ['Loi du 2 fevrier 1994, art. 1', 42, null] as unknown as string[],
+    });
+
+    const results = result.results as Exclude<typeof result.results, Exclude<typeof result.results, unknown[]>>;
+    expect(results.map(r => [r.citation, r.valid, r.warnings])).toEqual([
+      ['Loi du 2 fevrier 1994, art. 1', true, []],
+      ['42', false, ['Citation must be a string']],
+      ['null', false, ['Citation must be a string']],
+    ]);
+  });
+
+  it('rejects citation combined with citations', async () => {
+    await expect(
+      validateCitationTool(db, { citation: 'Loi du 2 fevrier 1994, art. 1', citations: [] })
+    ).rejects.toThrow('citation cannot be combined with citations');
+  });
+
   it('handles empty citation gracefully', async () => {
     const result = await validateCitationTool(db, { citation: '' });
 
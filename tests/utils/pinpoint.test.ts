@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { extractPinpoint, formatPinpoint, parsePinpoint, segmentArticle } from '../../src/utils/pinpoint.js';
+
+const ARTICLE = [
+  'Art. 2. § 1er. Le juge peut ordonner :',
+  '1° une réprimande;',
+  '2° une mesure de garde :',
+  'a) chez un proche;',
+  'b) en institution;',
+  'Il motive sa décision.',
+  '§ 2. Les mesures visées sont :',
+  'a) la prestation éducative;',
+  'b) la médiation.',
+].join('\n');
+
+describe('parsePinpoint', () => {
+  it('reads paragraphs, alinéas and points', () => {
+    expect(parsePinpoint('§ 2, alinéa 3, 4°')).toEqual({ paragraph: '2', alinea: 3, point: '4°' });
+    expect(parsePinpoint('tweede lid, 1°')).toEqual({ alinea: 2, point: '1°' });
+    expect(parsePinpoint('§ 1er')).toEqual({ paragraph: '1' });
+  });
+
+  it('reads a lettered point after a numbered point as its sub-point', () => {
+    expect(parsePinpoint('§ 2, 2°, b)')).toEqual({ paragraph: '2', point: '2°', subpoint: 'b)' });
+    expect(parsePinpoint('§ 2, b)')).toEqual({ paragraph: '2', point: 'b)' });
+  });
+
+  it('rejects a level given twice', () => {
+    expect(parsePinpoint('2°, 3°')).toBeNull();
+    expect(parsePinpoint('a), b)')).toBeNull();
+    expect(parsePinpoint('2°, a), b)')).toBeNull();
+    expect(parsePinpoint('§ 1, § 2')).toBeNull();
+  });
+});
+
+describe('formatPinpoint', () => {
+  it('lists every level in order', () => {
+    expect(formatPinpoint({ paragraph: '2', alinea: 1, point: '2°', subpoint: 'b)' })).toBe('§ 2, al. 1, 2°, b)');
+    expect(formatPinpoint({ paragraph: '2', alinea: 1 }, 'nl')).toBe('§ 2, lid 1');
+  });
+});
+
+describe('segmentArticle', () => {
+  it('keeps lettered sub-points inside their numbered point', () => {
+    const [first, second] = segmentArticle(ARTICLE);
+    expect(first.alineas.map(alinea => alinea.points.map(point => point.point))).toEqual([['1°', '2°'], []]);
+    expect(first.alineas[0].points[1].subpoints.map(point => point.point)).toEqual(['a)', 'b)']);
+    expect(second.alineas[0].points.map(point => [point.point, point.subpoints])).toEqual([['a)', []], ['b)', []]]);
+  });
+});
+
+describe('extractPinpoint', () => {
+  it('returns a sub-point of a numbered point', () => {
+    expect(extractPinpoint(ARTICLE, { paragraph: '1', point: '2°', subpoint: 'b)' })).toEqual({
+      text: 'b) en institution;',
+      location: { paragraph: '1', alinea: 1, point: '2°', subpoint: 'b)', label: '§ 1, al. 1, 2°, b)' },
+    });
+  });
+
+  it('returns the whole numbered point, with its sub-points, and lettered points of their own', () => {
+    expect(extractPinpoint(ARTICLE, { paragraph: '1', point: '2°' }).text)
+      .toBe('2° une mesure de garde :\na) chez un proche;\nb) en institution;');
+    expect(extractPinpoint(ARTICLE, { paragraph: '2', point: 'b)' }).text).toBe('b) la médiation.');
+  });
+
+  it('reports missing sub-points', () => {
+    expect(() => extractPinpoint(ARTICLE, { paragraph: '1', point: '2°', subpoint: 'c)' }))
+      .toThrow('Point 2°, c) not found (sub-points: a), b))');
+    expect(() => extractPinpoint(ARTICLE, { paragraph: '1', point: '1°', subpoint: 'a)' }))
+      .toThrow('Point 1°, a) not found: 1° has no sub-points');
+  });
+});
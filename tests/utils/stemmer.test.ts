@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { stemSnippet, stemText, stemWord } from '../../src/utils/stemmer.js';
+import { buildFtsQueryVariants } from '../../src/utils/fts-query.js';
+
+describe('stemWord', () => {
+  it('reduces French inflections to one stem, with or without accents', () => {
+    const stems = (words: string[]) => new Set(words.map(word => stemWord(word, 'fr')));
+
+    expect(stems(['protection', 'protections'])).toEqual(new Set(['protect']));
+    expect(stems(['protéger', 'protégé', 'protégées'])).toEqual(new Set(['proteg']));
+    expect(stems(['données', 'donnée', 'donnees'])).toEqual(new Set(['don']));
+    expect(stems(['mesure', 'mesures'])).toEqual(new Set(['mesur']));
+    expect(stems(['nationale', 'nationaux'])).toEqual(new Set(['national']));
+    expect(stems(['juridiction', 'juridictions'])).toEqual(new Set(['juridict']));
+  });
+
+  it('reduces Dutch inflections to one stem', () => {
+    const stems = (words: string[]) => new Set(words.map(word => stemWord(word, 'nl')));
+
+    expect(stems(['bescherming', 'beschermingen'])).toEqual(new Set(['bescherm']));
+    expect(stems(['maatregel', 'maatregelen'])).toEqual(new Set(['maatregel']));
+    expect(stems(['werknemer', 'werknemers'])).toEqual(new Set(['werknemer']));
+    expect(stems(['rechtbank', 'rechtbanken'])).toEqual(new Set(['rechtbank']));
+    expect(stems(['verwerking', 'verwerkingen'])).toEqual(new Set(['verwerk']));
+    expect(stemWord('gegevens', 'nl')).toBe('gegeven');
+  });
+
+  it('only lowercases and folds languages without a stemmer', () => {
+    expect(stemWord('Données', 'de')).toBe('donnees');
+    expect(stemText('Les Données à caractère personnel', 'fr')).toBe('le don a caracter personnel');
+    expect(stemText(null, 'fr')).toBe('');
+  });
+});
+
+describe('stemSnippet', () => {
+  it('marks words whose stem matches', () => {
+    expect(stemSnippet('Le juge prend des mesures provisoires pour la protection des mineurs.', 'fr', new Set(['mesur', 'protect'])))
+      .toBe('Le juge prend des >>>mesures<<< provisoires pour la >>>protection<<< des mineurs.');
+  });
+});
+
+describe('buildFtsQueryVariants', () => {
+  it('builds accent-folded French and Dutch stem clauses', () => {
+    expect(buildFtsQueryVariants('protection données')).toEqual({
+      primary: '"protection"* "données"*',
+      stemmed: '("protect" "don") OR ("protection" "donnes")',
+      stems: ['protect', 'don', 'protection', 'donnes'],
+      fallback: 'protection* OR données*',
+    });
+  });
+
+  it('merges identical clauses and leaves explicit FTS syntax alone', () => {
+    expect(buildFtsQueryVariants('Maatregel').stemmed).toBe('"maatregel"');
+    expect(buildFtsQueryVariants('"exact phrase"')).toEqual({ primary: '"exact phrase"' });
+  });
+});